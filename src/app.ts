@@ -34,6 +34,11 @@ import autonomousAIRoutes from './routes/autonomousAI';
 import demoRoutes from './routes/demo';
 import widgetRoutes from './routes/widget';
 import uploadsRoutes from './routes/uploads';
+import slaRoutes from './routes/sla';
+import routingRoutes from './routes/routing';
+import savedRepliesRoutes from './routes/savedReplies';
+import customersRoutes from './routes/customers';
+import complianceRoutes from './routes/compliance';
 
 // Load environment variables
 // Load environment variables
@@ -151,6 +156,11 @@ app.use('/api/analytics', analyticsRoutes);
 app.use('/api/integrations', integrationsRoutes);
 app.use('/api/autonomous-ai', autonomousAIRoutes);
 app.use('/api/uploads', uploadsRoutes);
+app.use('/api/sla', slaRoutes);
+app.use('/api/routing', routingRoutes);
+app.use('/api/saved-replies', savedRepliesRoutes);
+app.use('/api/customers', customersRoutes);
+app.use('/api/compliance', complianceRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -74,11 +74,44 @@ export const analyticsQueue = createQueue('analytics-aggregation', {
   attempts: 2,
 });
 
+export const slaQueue = createQueue('sla-monitoring', {
+  attempts: 1,
+});
+
+export const ticketEmbeddingQueue = createQueue('ticket-embedding');
+
+export const retentionQueue = createQueue('data-retention', {
+  attempts: 1,
+});
+
+export const crawlQueue = createQueue('agent-crawling', {
+  attempts: 1,
+});
+
+export const evaluationQueue = createQueue('agent-evaluation', {
+  attempts: 1,
+});
+
+export const classificationQueue = createQueue('ticket-classification', {
+  attempts: 2,
+});
+
+export const summaryQueue = createQueue('ticket-summary', {
+  attempts: 2,
+});
+
 export const queues = {
   ticketProcessing: ticketProcessingQueue,
   email: emailQueue,
   recurringIssue: recurringIssueQueue,
   analytics: analyticsQueue,
+  sla: slaQueue,
+  ticketEmbedding: ticketEmbeddingQueue,
+  retention: retentionQueue,
+  crawl: crawlQueue,
+  evaluation: evaluationQueue,
+  classification: classificationQueue,
+  summary: summaryQueue,
 };
 
 export default queues;
\ No newline at end of file
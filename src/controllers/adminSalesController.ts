@@ -348,6 +348,7 @@ export const createCustomerAccount = async (
         data: {
           subscriptionId: subscription.id,
           period: currentPeriod,
+          teammatesUsed: 1, // the owner
         },
       });
 
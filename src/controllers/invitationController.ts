@@ -3,6 +3,7 @@ import { body, validationResult } from 'express-validator';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import authService from '../services/authService';
+import meteringService from '../services/meteringService';
 
 export const acceptInvitationValidation = [
   body('token').notEmpty().trim(),
@@ -150,6 +151,8 @@ export const acceptInvitation = async (
       },
     });
 
+    await meteringService.increment(invitation.organizationId, 'teammates');
+
     // Mark invitation as accepted
     await prisma.teammateInvitation.update({
       where: { id: invitation.id },
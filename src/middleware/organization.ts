@@ -3,6 +3,8 @@ import { AuthRequest } from '../types';
 import prisma from '../config/database';
 import logger from '../config/logger';
 
+const ACTIVITY_UPDATE_INTERVAL_MS = 60 * 1000;
+
 export const attachOrganization = async (
   req: AuthRequest,
   res: Response,
@@ -36,6 +38,16 @@ export const attachOrganization = async (
       return;
     }
 
+    // Track member activity for availability-aware routing (throttled to one write per minute)
+    if (!membership.lastActiveAt || Date.now() - membership.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+      prisma.organizationMember
+        .update({
+          where: { id: membership.id },
+          data: { lastActiveAt: new Date() },
+        })
+        .catch((error) => logger.warn('Failed to update member activity:', error));
+    }
+
     req.organizationId = orgId;
     req.userRole = membership.role;
     next();
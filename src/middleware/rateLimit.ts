@@ -1,17 +1,9 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
-import prisma from '../config/database';
 import logger from '../config/logger';
+import meteringService, { MeteredFeature } from '../services/meteringService';
 
-interface FeatureLimits {
-  channels: number;
-  messages: number;
-  forms: number;
-  aiAgents: number;
-  teammates: number;
-}
-
-export const checkSubscriptionLimits = (feature: keyof FeatureLimits) => {
+export const checkSubscriptionLimits = (feature: MeteredFeature) => {
   return async (
     req: AuthRequest,
     res: Response,
@@ -23,63 +15,20 @@ export const checkSubscriptionLimits = (feature: keyof FeatureLimits) => {
         return;
       }
 
-      // Get organization with subscription
-      const organization = await prisma.organization.findUnique({
-        where: { id: req.organizationId },
-        include: {
-          subscription: {
-            include: {
-              plan: true,
-            },
-          },
-        },
-      });
+      const check = await meteringService.checkLimit(req.organizationId, feature);
 
-      if (!organization || !organization.subscription) {
+      if (!check) {
         res.status(403).json({ error: 'No active subscription found' });
         return;
       }
 
-      const plan = organization.subscription.plan;
-      const currentPeriod = new Date().toISOString().slice(0, 7); // YYYY-MM
-
-      // Get current usage
-      const usage = await prisma.usageTracking.findUnique({
-        where: {
-          subscriptionId_period: {
-            subscriptionId: organization.subscription.id,
-            period: currentPeriod,
-          },
-        },
-      });
-
-      // Check limits
-      const limits: FeatureLimits = {
-        channels: plan.channelsLimit,
-        messages: plan.messagesLimit,
-        forms: plan.formsLimit,
-        aiAgents: plan.aiAgentsLimit,
-        teammates: plan.teammatesLimit,
-      };
-
-      const usageMap: Record<keyof FeatureLimits, number> = {
-        channels: usage?.channelsUsed || 0,
-        messages: usage?.messagesUsed || 0,
-        forms: usage?.formsUsed || 0,
-        aiAgents: usage?.aiAgentsUsed || 0,
-        teammates: usage?.teammatesUsed || 0,
-      };
-
-      const limit = limits[feature];
-      const currentUsage = usageMap[feature];
-
-      // -1 means unlimited (Enterprise plan)
-      if (limit !== -1 && currentUsage >= limit) {
+      // -1 means unlimited (Enterprise plan); plans in overage mode keep going past the limit
+      if (!check.allowed) {
         res.status(403).json({
           error: `Subscription limit reached for ${feature}`,
-          limit,
-          current: currentUsage,
-          plan: plan.name,
+          limit: check.limit,
+          current: check.used,
+          plan: check.plan,
         });
         return;
       }
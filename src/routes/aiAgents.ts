@@ -1,6 +1,6 @@
 import { Router } from 'express';
-import crypto from 'crypto';
 import { Response, NextFunction } from 'express';
+import multer from 'multer';
 import { authenticate } from '../middleware/auth';
 import { attachOrganization, requireAdmin } from '../middleware/organization';
 import { checkSubscriptionLimits } from '../middleware/rateLimit';
@@ -10,12 +10,52 @@ import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import geminiService from '../services/geminiService';
+import { createComplianceProvider, AIMessage, AIStreamChunk } from '../services/aiProviders';
+import aiUsageService from '../services/aiUsageService';
+import meteringService from '../services/meteringService';
+import auditService from '../services/auditService';
+import knowledgeBaseService, { RetrievalSettings } from '../services/knowledgeBaseService';
+import groundingService from '../services/groundingService';
+import agentTrainingService, { SourceTrainingResult } from '../services/agentTrainingService';
+import { parseDocument } from '../services/documentParser';
+import agentCrawlService from '../services/agentCrawlService';
+import agentVersionService from '../services/agentVersionService';
+import agentEvaluationService, { EvalCaseInput, MAX_CASES_PER_SUITE } from '../services/agentEvaluationService';
+import logger from '../config/logger';
 
 const router = Router();
 
 router.use(authenticate);
 router.use(attachOrganization);
 
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB
+});
+
+/**
+ * Parse an uploaded document to Markdown, keeping what is known about the file as source metadata
+ */
+const ingestFile = async (
+  content: Buffer | string,
+  file: { fileName?: string; fileType?: string; fileSize?: number }
+) => {
+  const parsed = await parseDocument(content, { fileName: file.fileName, mimeType: file.fileType });
+
+  if (!parsed.markdown.trim()) {
+    throw new AppError(`No text could be extracted from ${file.fileName || 'the file'}`, 400);
+  }
+
+  return {
+    content: parsed.markdown,
+    metadata: {
+      ...file,
+      format: parsed.format,
+      ...(parsed.pageCount && { pageCount: parsed.pageCount }),
+    },
+  };
+};
+
 // Get all AI agents
 router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -72,7 +112,7 @@ router.post(
   checkSubscriptionLimits('aiAgents'),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
-      const { name, description, systemPrompt, temperature } = req.body;
+      const { name, description, systemPrompt, temperature, retrievalSettings } = req.body;
 
       const agent = await prisma.aiAgent.create({
         data: {
@@ -82,10 +122,34 @@ router.post(
           systemPrompt,
           model: 'gemini-1.5-pro', // Enforce Gemini
           temperature: temperature || 0.7,
+          ...(retrievalSettings && {
+            retrievalSettings: knowledgeBaseService.validateSettings(retrievalSettings) as Prisma.InputJsonValue,
+          }),
+        },
+      });
+
+      // Version 1 is the configuration the agent was created with
+      const version = await prisma.aiAgentVersion.create({
+        data: {
+          agentId: agent.id,
+          organizationId: agent.organizationId,
+          version: 1,
+          ...agentVersionService.configOf(agent),
+          retrievalSettings: agent.retrievalSettings as Prisma.InputJsonValue,
+          note: 'Initial version',
+          createdBy: req.userId,
+          publishedAt: new Date(),
         },
       });
 
-      res.status(201).json(agent);
+      const created = await prisma.aiAgent.update({
+        where: { id: agent.id },
+        data: { publishedVersionId: version.id },
+      });
+
+      await meteringService.increment(req.organizationId!, 'aiAgents');
+
+      res.status(201).json(created);
     } catch (error) {
       next(error);
     }
@@ -93,12 +157,21 @@ router.post(
 );
 
 // Update AI agent
+// Changes to the prompt, model, temperature or retrieval settings are saved as a new version,
+// published right away unless publish is false
 router.patch(
   '/:id',
   requireAdmin,
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
-      const { name, description, systemPrompt, temperature, isActive } = req.body;
+      const { name, description, systemPrompt, temperature, isActive, retrievalSettings, publish, versionNote } =
+        req.body;
+
+      const retrievalUpdate = retrievalSettings ? knowledgeBaseService.validateSettings(retrievalSettings) : null;
+
+      if (publish !== undefined && typeof publish !== 'boolean') {
+        throw new AppError('publish must be a boolean', 400);
+      }
 
       const agent = await prisma.aiAgent.findFirst({
         where: {
@@ -111,27 +184,119 @@ router.patch(
         throw new AppError('AI agent not found', 404);
       }
 
+      const { agent: versioned, version } = await agentVersionService.createVersion(
+        agent,
+        {
+          ...(systemPrompt && { systemPrompt }),
+          ...(temperature !== undefined && { temperature }),
+          ...(retrievalUpdate && {
+            retrievalSettings: {
+              ...((agent.retrievalSettings as Record<string, any>) || {}),
+              ...retrievalUpdate,
+            },
+          }),
+        },
+        { userId: req.userId, ipAddress: req.ip, note: versionNote, publish }
+      );
+
       const updated = await prisma.aiAgent.update({
         where: { id: req.params.id },
         data: {
           ...(name && { name }),
           ...(description !== undefined && { description }),
-          ...(systemPrompt && { systemPrompt }),
-          ...(temperature !== undefined && { temperature }),
           ...(isActive !== undefined && { isActive }),
         },
       });
 
-      res.json(updated);
+      res.json({ ...updated, publishedVersionId: versioned.publishedVersionId, version });
     } catch (error) {
       next(error);
     }
   }
 );
 
-// Delete AI agent
-router.delete(
-  '/:id',
+// List an agent's configuration versions, newest first
+router.get('/:id/versions', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
+
+    const versions = await prisma.aiAgentVersion.findMany({
+      where: { agentId: agent.id },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json(versions.map((version) => ({ ...version, published: version.id === agent.publishedVersionId })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Diff two versions (?from=<version>&to=<version>)
+router.get('/:id/versions/diff', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      throw new AppError('from and to version numbers are required', 400);
+    }
+
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      agentVersionService.findVersion(agent.id, from),
+      agentVersionService.findVersion(agent.id, to),
+    ]);
+
+    res.json(agentVersionService.diff(fromVersion, toVersion));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single version
+router.get('/:id/versions/:version', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
+
+    const version = await agentVersionService.findVersion(agent.id, parseInt(req.params.version));
+
+    res.json({ ...version, published: version.id === agent.publishedVersionId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Publish a version, making its configuration live
+router.post(
+  '/:id/versions/:version/publish',
   requireAdmin,
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -146,123 +311,256 @@ router.delete(
         throw new AppError('AI agent not found', 404);
       }
 
-      await prisma.aiAgent.delete({
-        where: { id: req.params.id },
-      });
+      const version = await agentVersionService.findVersion(agent.id, parseInt(req.params.version));
 
-      res.status(204).send();
+      if (version.id === agent.publishedVersionId) {
+        throw new AppError(`Version ${version.version} is already published`, 409);
+      }
+
+      const updated = await agentVersionService.publish(agent, version, { userId: req.userId, ipAddress: req.ip });
+
+      res.json(updated);
     } catch (error) {
       next(error);
     }
   }
 );
 
-// Chat with AI agent
+// Roll back to the previously published version, or to { version }
 router.post(
-  '/:id/chat',
-  aiChatLimiter,
+  '/:id/rollback',
+  requireAdmin,
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
-      const { message, sessionId } = req.body;
+      const { version } = req.body;
+
+      if (version !== undefined && !Number.isInteger(version)) {
+        throw new AppError('version must be a version number', 400);
+      }
 
       const agent = await prisma.aiAgent.findFirst({
         where: {
           id: req.params.id,
           organizationId: req.organizationId,
-          isActive: true,
         },
       });
 
       if (!agent) {
-        throw new AppError('AI agent not found or inactive', 404);
+        throw new AppError('AI agent not found', 404);
       }
 
-      // 1. Generate embedding for the user's query
-      const queryEmbedding = await geminiService.generateQueryEmbedding(message);
-
-      // 2. Search for relevant context using vector similarity
-      const vectorQuery = `[${queryEmbedding.join(',')}]`;
-      const relevantChunks = await prisma.$queryRaw`
-        SELECT content, 1 - (embedding <=> ${vectorQuery}::vector) as similarity
-        FROM agent_embeddings
-        WHERE source_id IN (SELECT id FROM agent_sources WHERE agent_id = ${agent.id})
-        ORDER BY embedding <=> ${vectorQuery}::vector
-        LIMIT 5;
-      ` as any[];
+      const updated = await agentVersionService.rollback(agent, version, { userId: req.userId, ipAddress: req.ip });
 
-      const contextText = relevantChunks.map((chunk: any) => chunk.content).join('\n---\n');
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      // 3. Get or create conversation history
-      let conversation = await prisma.agentConversation.findFirst({
+// Delete AI agent
+router.delete(
+  '/:id',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const agent = await prisma.aiAgent.findFirst({
         where: {
-          agentId: agent.id,
-          sessionId,
-        },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-          },
+          id: req.params.id,
+          organizationId: req.organizationId,
         },
       });
 
-      if (!conversation) {
-        conversation = await prisma.agentConversation.create({
-          data: {
-            agentId: agent.id,
-            sessionId,
-          },
-          include: {
-            messages: true,
-          },
-        });
+      if (!agent) {
+        throw new AppError('AI agent not found', 404);
       }
 
-      // 4. Save user message
-      await prisma.agentMessage.create({
-        data: {
-          conversationId: conversation.id,
-          role: 'user',
-          content: message,
-        },
+      await prisma.aiAgent.delete({
+        where: { id: req.params.id },
       });
 
-      // 5. Prepare system prompt with context
-      const augmentedSystemPrompt = `
-${agent.systemPrompt}
+      await meteringService.decrement(req.organizationId!, 'aiAgents');
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Embed a question for knowledge base search, metering and auditing the call
+ */
+const embedQuery = async (organizationId: string, agentId: string, text: string, userId?: string) => {
+  const embedding = await geminiService.generateQueryEmbedding(text);
+
+  await aiUsageService.record(organizationId, {
+    feature: 'embedding',
+    provider: 'gemini',
+    model: 'text-embedding-004',
+    usage: { promptTokens: aiUsageService.estimateTokens(text), completionTokens: 0, totalTokens: 0 },
+    metadata: { agentId, purpose: 'query' },
+  });
+
+  await auditService.recordAICall(organizationId, {
+    feature: 'embedding',
+    provider: 'gemini',
+    model: 'text-embedding-004',
+    userId,
+    agentId,
+    purpose: 'query',
+  });
+
+  return embedding;
+};
+
+/**
+ * Load the agent, retrieve knowledge base context, and record the user's message
+ * Shared by the regular and streaming chat endpoints
+ */
+const prepareAgentChat = async (
+  agentId: string,
+  organizationId: string,
+  message: string,
+  sessionId: string,
+  userId?: string
+) => {
+  const agent = await prisma.aiAgent.findFirst({
+    where: {
+      id: agentId,
+      organizationId,
+      isActive: true,
+    },
+  });
+
+  if (!agent) {
+    throw new AppError('AI agent not found or inactive', 404);
+  }
+
+  await aiUsageService.assertWithinBudget(organizationId);
 
-You have access to the following knowledge base connection. Use it to answer the user's questions. 
-If the answer is not in the context, say you don't know, but try to be helpful based on the context provided.
+  // 1. Generate embedding for the user's query
+  const queryEmbedding = await embedQuery(organizationId, agent.id, message, userId);
 
-Context:
-${contextText}
-`;
+  // 2. Search for relevant context (vector + keyword, optionally re-ranked)
+  const chunks = await knowledgeBaseService.retrieve(agent, { text: message, embedding: queryEmbedding }, { userId });
 
-      // 6. Generate response using Gemini
-      // Map existing messages to Gemini format
-      const history = conversation.messages.map(m => ({
-        role: m.role as 'user' | 'model' | 'assistant',
-        parts: m.content
-      }));
+  // 3. Get or create conversation history
+  let conversation = await prisma.agentConversation.findFirst({
+    where: {
+      agentId: agent.id,
+      sessionId,
+    },
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!conversation) {
+    conversation = await prisma.agentConversation.create({
+      data: {
+        agentId: agent.id,
+        sessionId,
+      },
+      include: {
+        messages: true,
+      },
+    });
+  }
+
+  // 4. Save user message
+  await prisma.agentMessage.create({
+    data: {
+      conversationId: conversation.id,
+      role: 'user',
+      content: message,
+    },
+  });
+
+  // 5. Prepare system prompt with context
+  const systemPrompt = groundingService.buildSystemPrompt(agent.systemPrompt, chunks);
+
+  return { agent, conversation, systemPrompt, chunks };
+};
+
+// Chat with AI agent
+router.post(
+  '/:id/chat',
+  aiChatLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { message, sessionId } = req.body;
 
-      const assistantMessage = await geminiService.generateChatResponse(
-        augmentedSystemPrompt,
-        history,
+      const { agent, conversation, systemPrompt, chunks } = await prepareAgentChat(
+        req.params.id,
+        req.organizationId!,
         message,
-        agent.temperature
+        sessionId,
+        req.userId
       );
 
+      const organization = await prisma.organization.findUnique({
+        where: { id: req.organizationId! },
+        select: { settings: true },
+      });
+
+      // 6. Generate the response with the provider the organization's compliance settings allow
+      const provider = createComplianceProvider((organization?.settings as any)?.compliance, {
+        temperature: agent.temperature,
+      });
+
+      const response = await provider.generateResponse([
+        { role: 'system', content: systemPrompt },
+        ...conversation.messages.map((m) => ({
+          role: (m.role === 'user' ? 'user' : 'assistant') as AIMessage['role'],
+          content: m.content,
+        })),
+        { role: 'user', content: message },
+      ]);
+      const { message: assistantMessage, citations, grounding } = groundingService.groundAnswer(response.content, chunks);
+
+      await aiUsageService.record(req.organizationId!, {
+        feature: 'agent_chat',
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage,
+        metadata: { agentId: agent.id, conversationId: conversation.id },
+      });
+
+      await auditService.recordAICall(req.organizationId!, {
+        feature: 'agent_chat',
+        provider: response.provider,
+        model: response.model,
+        userId: req.userId,
+        agentId: agent.id,
+        conversationId: conversation.id,
+        ...(response.fallbackFrom && { fallbackFrom: response.fallbackFrom }),
+      });
+
       // 7. Save assistant message
       await prisma.agentMessage.create({
         data: {
           conversationId: conversation.id,
           role: 'assistant',
           content: assistantMessage,
+          metadata: {
+            aiProvider: response.provider,
+            aiModel: response.model,
+            ...(response.fallbackFrom?.length && { fallbackFrom: response.fallbackFrom }),
+            citations,
+            grounding,
+          } as unknown as Prisma.InputJsonValue,
+          agentVersionId: agent.publishedVersionId,
         },
       });
 
       res.json({
         message: assistantMessage,
         conversationId: conversation.id,
+        citations,
+        grounding,
       });
     } catch (error) {
       next(error);
@@ -270,141 +568,282 @@ ${contextText}
   }
 );
 
-// Train AI agent
+// Chat with AI agent, streaming tokens as Server-Sent Events
 router.post(
-  '/:id/train',
-  requireAdmin,
+  '/:id/chat/stream',
+  aiChatLimiter,
   async (req: AuthRequest, res: Response, next: NextFunction) => {
+    let streaming = false;
+
     try {
-      const agent = await prisma.aiAgent.findFirst({
-        where: {
-          id: req.params.id,
-          organizationId: req.organizationId,
-        },
-        include: {
-          sources: {
-            include: {
-              _count: {
-                select: { embeddings: true },
-              },
-            },
-          },
-        },
-      });
+      const { message, sessionId } = req.body;
 
-      if (!agent) {
-        throw new AppError('AI agent not found', 404);
+      if (!message || !sessionId) {
+        throw new AppError('message and sessionId are required', 400);
       }
 
-      // Optimized approach: 
-      // 1. Iterate through sources
-      // 2. If source is static (file/text) and has embeddings, skip
-      // 3. If source is dynamic (website) or has no embeddings, process it
+      const { agent, conversation, systemPrompt, chunks } = await prepareAgentChat(
+        req.params.id,
+        req.organizationId!,
+        message,
+        sessionId,
+        req.userId
+      );
 
-      let processedCount = 0;
-      let skippedCount = 0;
+      const organization = await prisma.organization.findUnique({
+        where: { id: req.organizationId! },
+        select: { settings: true },
+      });
 
-      for (const source of agent.sources) {
-        // Check if we should skip this source
-        const isDynamic = source.sourceType === 'website';
-        const hasEmbeddings = source._count.embeddings > 0;
+      // Stream through the provider the organization's compliance settings allow
+      const provider = createComplianceProvider((organization?.settings as any)?.compliance, {
+        temperature: agent.temperature,
+      });
 
-        // If it's a static source and already has embeddings, strictly skip it to save resources
-        if (!isDynamic && hasEmbeddings) {
-          skippedCount++;
-          continue;
-        }
+      const messages: AIMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...conversation.messages.map((m) => ({
+          role: (m.role === 'user' ? 'user' : 'assistant') as AIMessage['role'],
+          content: m.content,
+        })),
+        { role: 'user', content: message },
+      ];
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+      });
+      res.flushHeaders();
+      streaming = true;
 
-        // Processing...
-        let contentToEmbed = '';
+      const sendEvent = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
 
-        if (source.sourceType === 'website') {
-          // Fetch content from URL
-          contentToEmbed = await geminiService.processUrl(source.content);
-        } else {
-          // File, Text, Q&A - use content directly
-          contentToEmbed = source.content;
-        }
+      // The request's 'close' has already fired once the body was read; the response's marks a disconnect
+      let clientClosed = false;
+      res.on('close', () => {
+        if (!res.writableEnded) clientClosed = true;
+      });
 
-        if (!contentToEmbed) {
-            skippedCount++;
-            continue;
-        }
+      sendEvent('start', { conversationId: conversation.id, provider: provider.type });
+
+      let assistantMessage = '';
+      let finalChunk: AIStreamChunk | null = null;
+      for await (const chunk of provider.streamResponse(messages)) {
+        if (clientClosed) break;
 
-        // Clear existing embeddings for THIS source before re-populating
-        // This handles cases where we are retraining a website or a text source that (hypothetically) changed
-        if (hasEmbeddings) {
-            await prisma.agentEmbedding.deleteMany({
-                where: { sourceId: source.id }
-            });
+        if (chunk.content) {
+          assistantMessage += chunk.content;
+          sendEvent('token', { content: chunk.content });
         }
 
-        // Chunk the content
-        const chunks = geminiService.chunkText(contentToEmbed);
-
-        // Generate embeddings for each chunk and save
-        for (const chunk of chunks) {
-          const embedding = await geminiService.generateEmbedding(chunk);
-
-          // Use raw query to insert vector data
-          await prisma.$executeRaw`
-            INSERT INTO agent_embeddings (id, source_id, content, embedding, metadata, created_at)
-            VALUES (
-              ${crypto.randomUUID()},
-              ${source.id},
-              ${chunk},
-              ${embedding}::vector,
-              '{}'::jsonb,
-              NOW()
-            )
-          `;
+        if (chunk.done) {
+          finalChunk = chunk;
         }
-        processedCount++;
       }
 
-      await prisma.aiAgent.update({
-        where: { id: req.params.id },
+      // Tokens generated before a disconnect are still billed by the provider
+      await aiUsageService.record(req.organizationId!, {
+        feature: 'agent_chat',
+        provider: finalChunk?.provider || provider.type,
+        model: finalChunk?.model || 'unknown',
+        usage: finalChunk?.usage || {
+          promptTokens: aiUsageService.estimateTokens(messages.map((m) => m.content).join('\n')),
+          completionTokens: aiUsageService.estimateTokens(assistantMessage),
+          totalTokens: 0,
+        },
+        metadata: { agentId: agent.id, conversationId: conversation.id, streamed: true },
+      });
+
+      await auditService.recordAICall(req.organizationId!, {
+        feature: 'agent_chat',
+        provider: finalChunk?.provider || provider.type,
+        model: finalChunk?.model || 'unknown',
+        userId: req.userId,
+        agentId: agent.id,
+        conversationId: conversation.id,
+        streamed: true,
+        ...(finalChunk?.fallbackFrom && { fallbackFrom: finalChunk.fallbackFrom }),
+      });
+
+      // Only a completed answer is stored in the conversation
+      if (clientClosed) {
+        return;
+      }
+
+      // Tokens are already on screen, so an unsupported answer is replaced in the done event
+      const grounded = groundingService.groundAnswer(assistantMessage, chunks);
+
+      const saved = await prisma.agentMessage.create({
         data: {
-          updatedAt: new Date(),
+          conversationId: conversation.id,
+          role: 'assistant',
+          content: grounded.message,
+          agentVersionId: agent.publishedVersionId,
+          metadata: {
+            aiProvider: finalChunk?.provider || provider.type,
+            aiModel: finalChunk?.model,
+            ...(finalChunk?.fallbackFrom?.length && { fallbackFrom: finalChunk.fallbackFrom }),
+            citations: grounded.citations,
+            grounding: grounded.grounding,
+          } as unknown as Prisma.InputJsonValue,
         },
       });
 
-      res.json({
-        success: true,
-        message: 'Agent training completed',
-        processedSources: processedCount,
-        skippedSources: skippedCount,
-        trainedAt: new Date(),
+      sendEvent('done', {
+        messageId: saved.id,
+        conversationId: conversation.id,
+        message: grounded.message,
+        provider: finalChunk?.provider || provider.type,
+        citations: grounded.citations,
+        grounding: grounded.grounding,
       });
+      res.end();
     } catch (error) {
-      next(error);
+      if (!streaming) {
+        return next(error);
+      }
+
+      // Headers are already sent, report the failure in-band
+      logger.error('Agent chat stream failed:', error);
+      res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to generate response' })}\n\n`);
+      res.end();
     }
   }
 );
 
-// Get agent training status
-router.get('/:id/status', async (req: AuthRequest, res: Response, next: NextFunction) => {
-  try {
-    const agent = await prisma.aiAgent.findFirst({
-      where: {
-        id: req.params.id,
-        organizationId: req.organizationId,
-      },
-      select: {
-        id: true,
-        isActive: true,
-        updatedAt: true,
-        _count: {
-          select: {
-            sources: true,
-          },
-        },
-      },
-    });
+// Show which knowledge base chunks are retrieved for a query, with every intermediate ranking
+router.post(
+  '/:id/retrieval/debug',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { query, topK, minSimilarity, rerank } = req.body;
 
-    if (!agent) {
-      throw new AppError('AI agent not found', 404);
-    }
+      if (!query || typeof query !== 'string') {
+        throw new AppError('query is required', 400);
+      }
+
+      // Overrides let admins try settings before saving them on the agent
+      const overrides: Partial<RetrievalSettings> = knowledgeBaseService.validateSettings({ topK, minSimilarity, rerank });
+
+      const agent = await prisma.aiAgent.findFirst({
+        where: {
+          id: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!agent) {
+        throw new AppError('AI agent not found', 404);
+      }
+
+      await aiUsageService.assertWithinBudget(req.organizationId!);
+
+      const embedding = await embedQuery(req.organizationId!, agent.id, query, req.userId);
+      const trace = await knowledgeBaseService.retrieveWithTrace(
+        agent,
+        { text: query, embedding },
+        { userId: req.userId, overrides }
+      );
+
+      res.json({ query, ...trace });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Train AI agent
+router.post(
+  '/:id/train',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const agent = await prisma.aiAgent.findFirst({
+        where: {
+          id: req.params.id,
+          organizationId: req.organizationId,
+        },
+        include: {
+          sources: true,
+        },
+      });
+
+      if (!agent) {
+        throw new AppError('AI agent not found', 404);
+      }
+
+      // Every source is re-chunked; only chunks whose content hash changed are re-embedded
+      let processedCount = 0;
+      let skippedCount = 0;
+      const results: SourceTrainingResult[] = [];
+
+      for (const source of agent.sources) {
+        const result = await agentTrainingService.trainSource(req.organizationId!, agent.id, source, {
+          userId: req.userId,
+        });
+        results.push(result);
+
+        if (result.embedded === 0 && result.removed === 0) {
+          skippedCount++;
+        } else {
+          processedCount++;
+        }
+      }
+
+      await prisma.aiAgent.update({
+        where: { id: req.params.id },
+        data: {
+          updatedAt: new Date(),
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Agent training completed',
+        processedSources: processedCount,
+        skippedSources: skippedCount,
+        chunks: {
+          embedded: results.reduce((sum, result) => sum + result.embedded, 0),
+          removed: results.reduce((sum, result) => sum + result.removed, 0),
+          unchanged: results.reduce((sum, result) => sum + result.unchanged, 0),
+        },
+        sources: results,
+        trainedAt: new Date(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Get agent training status
+router.get('/:id/status', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+      select: {
+        id: true,
+        isActive: true,
+        updatedAt: true,
+        _count: {
+          select: {
+            sources: true,
+          },
+        },
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
 
     res.json({
       id: agent.id,
@@ -438,13 +877,24 @@ router.post(
         throw new AppError('AI agent not found', 404);
       }
 
+      // Files are parsed to Markdown now; binary files are sent base64-encoded
+      const { encoding, ...sourceMetadata } = metadata || {};
+      const file =
+        type === 'file'
+          ? await ingestFile(Buffer.from(content || '', encoding === 'base64' ? 'base64' : 'utf8'), {
+              fileName: sourceMetadata.fileName,
+              fileType: sourceMetadata.fileType,
+              fileSize: sourceMetadata.fileSize,
+            })
+          : null;
+
       const source = await prisma.agentSource.create({
         data: {
           agentId: req.params.id,
           sourceType: type,
           sourceId: `${type}_${Date.now()}`,
-          content: content, // For website, this is the URL. For file/text, actual content.
-          metadata: metadata || {},
+          content: file ? file.content : content, // For website, this is the URL. For file/text, actual content.
+          metadata: file ? { ...sourceMetadata, ...file.metadata } : sourceMetadata,
         },
       });
 
@@ -501,9 +951,12 @@ router.delete(
 router.post(
   '/:id/files/upload',
   requireAdmin,
+  upload.single('file'),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
-      const { fileName, fileType, fileContent, fileSize } = req.body;
+      // Multipart uploads carry the file itself; JSON uploads send its text (or base64) as fileContent
+      const uploaded = req.file;
+      const { fileName, fileType, fileContent, fileSize, encoding } = req.body;
 
       const agent = await prisma.aiAgent.findFirst({
         where: {
@@ -516,18 +969,30 @@ router.post(
         throw new AppError('AI agent not found', 404);
       }
 
+      if (!uploaded && !fileContent) {
+        throw new AppError('No file provided', 400);
+      }
+
+      const file = uploaded
+        ? await ingestFile(uploaded.buffer, {
+            fileName: uploaded.originalname,
+            fileType: uploaded.mimetype,
+            fileSize: uploaded.size,
+          })
+        : await ingestFile(Buffer.from(fileContent, encoding === 'base64' ? 'base64' : 'utf8'), {
+            fileName,
+            fileType,
+            fileSize,
+          });
+
       // Create source record for the file
       const source = await prisma.agentSource.create({
         data: {
           agentId: req.params.id,
           sourceType: 'file',
           sourceId: `file_${Date.now()}`,
-          content: fileContent,
-          metadata: {
-            fileName,
-            fileType,
-            fileSize,
-          },
+          content: file.content,
+          metadata: file.metadata,
         },
       });
 
@@ -567,6 +1032,608 @@ router.delete(
   }
 );
 
+// List website crawls for an agent
+router.get('/:id/crawls', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
+
+    const crawls = await prisma.agentCrawl.findMany({
+      where: { agentId: agent.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(crawls);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a website crawl and run it right away
+router.post(
+  '/:id/crawls',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { startUrl, settings, recrawlIntervalHours } = req.body;
+
+      const agent = await prisma.aiAgent.findFirst({
+        where: {
+          id: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!agent) {
+        throw new AppError('AI agent not found', 404);
+      }
+
+      const crawl = await prisma.agentCrawl.create({
+        data: {
+          organizationId: req.organizationId!,
+          agentId: agent.id,
+          startUrl: agentCrawlService.validateStartUrl(startUrl),
+          settings: agentCrawlService.resolveSettings(
+            agentCrawlService.validateSettings(settings || {})
+          ) as unknown as Prisma.InputJsonValue,
+          recrawlIntervalHours:
+            recrawlIntervalHours === undefined ? null : agentCrawlService.validateInterval(recrawlIntervalHours),
+        },
+      });
+
+      await agentCrawlService.schedule(crawl);
+      const job = await agentCrawlService.enqueue(crawl.id);
+
+      res.status(201).json({ ...crawl, jobId: job.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Update a crawl's settings or re-crawl interval
+router.patch(
+  '/:id/crawls/:crawlId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { startUrl, settings, recrawlIntervalHours } = req.body;
+
+      const crawl = await prisma.agentCrawl.findFirst({
+        where: {
+          id: req.params.crawlId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!crawl) {
+        throw new AppError('Crawl not found', 404);
+      }
+
+      const updated = await prisma.agentCrawl.update({
+        where: { id: crawl.id },
+        data: {
+          ...(startUrl !== undefined && { startUrl: agentCrawlService.validateStartUrl(startUrl) }),
+          ...(settings !== undefined && {
+            settings: {
+              ...agentCrawlService.resolveSettings(crawl.settings),
+              ...agentCrawlService.validateSettings(settings),
+            },
+          }),
+          ...(recrawlIntervalHours !== undefined && {
+            recrawlIntervalHours: agentCrawlService.validateInterval(recrawlIntervalHours),
+          }),
+        },
+      });
+
+      if (updated.recrawlIntervalHours !== crawl.recrawlIntervalHours) {
+        await agentCrawlService.schedule(updated, crawl.recrawlIntervalHours);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Re-crawl now
+router.post(
+  '/:id/crawls/:crawlId/run',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const crawl = await prisma.agentCrawl.findFirst({
+        where: {
+          id: req.params.crawlId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!crawl) {
+        throw new AppError('Crawl not found', 404);
+      }
+
+      if (crawl.status === 'running') {
+        throw new AppError('Crawl is already running', 409);
+      }
+
+      const job = await agentCrawlService.enqueue(crawl.id);
+
+      res.json({
+        success: true,
+        message: 'Crawl queued',
+        jobId: job.id,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Delete a crawl and the pages it added
+router.delete(
+  '/:id/crawls/:crawlId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const crawl = await prisma.agentCrawl.findFirst({
+        where: {
+          id: req.params.crawlId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!crawl) {
+        throw new AppError('Crawl not found', 404);
+      }
+
+      const removedPages = await agentCrawlService.remove(crawl);
+
+      res.json({ success: true, message: 'Crawl deleted successfully', removedPages });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// List evaluation suites for an agent, with each suite's latest run
+router.get('/:id/eval-suites', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const agent = await prisma.aiAgent.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!agent) {
+      throw new AppError('AI agent not found', 404);
+    }
+
+    const suites = await prisma.agentEvalSuite.findMany({
+      where: { agentId: agent.id },
+      include: {
+        _count: { select: { cases: true } },
+        runs: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(suites.map(({ runs, ...suite }) => ({ ...suite, latestRun: runs[0] || null })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create an evaluation suite, optionally with its cases
+router.post(
+  '/:id/eval-suites',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { name, description, cases = [] } = req.body;
+
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new AppError('name is required', 400);
+      }
+
+      if (!Array.isArray(cases) || cases.length > MAX_CASES_PER_SUITE) {
+        throw new AppError(`cases must be an array of at most ${MAX_CASES_PER_SUITE} cases`, 400);
+      }
+
+      const agent = await prisma.aiAgent.findFirst({
+        where: {
+          id: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!agent) {
+        throw new AppError('AI agent not found', 404);
+      }
+
+      const validated = cases.map(
+        (input: Record<string, any>) => agentEvaluationService.validateCase(input) as EvalCaseInput
+      );
+      await agentEvaluationService.assertSourcesBelongToAgent(
+        agent.id,
+        Array.from(new Set(validated.flatMap((evalCase: EvalCaseInput) => evalCase.mustCiteSourceIds || [])))
+      );
+
+      const suite = await prisma.agentEvalSuite.create({
+        data: {
+          organizationId: req.organizationId!,
+          agentId: agent.id,
+          name: name.trim(),
+          description,
+          cases: { create: validated },
+        },
+        include: { cases: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      res.status(201).json(suite);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Get an evaluation suite with its cases
+router.get('/:id/eval-suites/:suiteId', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const suite = await prisma.agentEvalSuite.findFirst({
+      where: {
+        id: req.params.suiteId,
+        agentId: req.params.id,
+        organizationId: req.organizationId,
+      },
+      include: { cases: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!suite) {
+      throw new AppError('Evaluation suite not found', 404);
+    }
+
+    res.json(suite);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or describe an evaluation suite
+router.patch(
+  '/:id/eval-suites/:suiteId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { name, description } = req.body;
+
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        throw new AppError('name must be a non-empty string', 400);
+      }
+
+      const suite = await prisma.agentEvalSuite.findFirst({
+        where: {
+          id: req.params.suiteId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!suite) {
+        throw new AppError('Evaluation suite not found', 404);
+      }
+
+      const updated = await prisma.agentEvalSuite.update({
+        where: { id: suite.id },
+        data: {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(description !== undefined && { description }),
+        },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Delete an evaluation suite with its cases and run history
+router.delete(
+  '/:id/eval-suites/:suiteId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const suite = await prisma.agentEvalSuite.findFirst({
+        where: {
+          id: req.params.suiteId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+      });
+
+      if (!suite) {
+        throw new AppError('Evaluation suite not found', 404);
+      }
+
+      await prisma.agentEvalSuite.delete({ where: { id: suite.id } });
+
+      res.json({ success: true, message: 'Evaluation suite deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Add cases to an evaluation suite (a single case or { cases: [...] })
+router.post(
+  '/:id/eval-suites/:suiteId/cases',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const inputs: Record<string, any>[] = Array.isArray(req.body.cases) ? req.body.cases : [req.body];
+
+      const suite = await prisma.agentEvalSuite.findFirst({
+        where: {
+          id: req.params.suiteId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+        include: { _count: { select: { cases: true } } },
+      });
+
+      if (!suite) {
+        throw new AppError('Evaluation suite not found', 404);
+      }
+
+      if (suite._count.cases + inputs.length > MAX_CASES_PER_SUITE) {
+        throw new AppError(`A suite can have at most ${MAX_CASES_PER_SUITE} cases`, 400);
+      }
+
+      const validated = inputs.map((input) => agentEvaluationService.validateCase(input) as EvalCaseInput);
+      await agentEvaluationService.assertSourcesBelongToAgent(
+        suite.agentId,
+        Array.from(new Set(validated.flatMap((evalCase) => evalCase.mustCiteSourceIds || [])))
+      );
+
+      const cases = await prisma.$transaction(
+        validated.map((data) => prisma.agentEvalCase.create({ data: { ...data, suiteId: suite.id } }))
+      );
+
+      res.status(201).json(Array.isArray(req.body.cases) ? cases : cases[0]);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Update an evaluation case
+router.patch(
+  '/:id/eval-suites/:suiteId/cases/:caseId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const evalCase = await prisma.agentEvalCase.findFirst({
+        where: {
+          id: req.params.caseId,
+          suite: {
+            id: req.params.suiteId,
+            agentId: req.params.id,
+            organizationId: req.organizationId,
+          },
+        },
+      });
+
+      if (!evalCase) {
+        throw new AppError('Evaluation case not found', 404);
+      }
+
+      const data = agentEvaluationService.validateCase(req.body, true);
+      await agentEvaluationService.assertSourcesBelongToAgent(req.params.id, data.mustCiteSourceIds || []);
+
+      const updated = await prisma.agentEvalCase.update({
+        where: { id: evalCase.id },
+        data,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Delete an evaluation case
+router.delete(
+  '/:id/eval-suites/:suiteId/cases/:caseId',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const evalCase = await prisma.agentEvalCase.findFirst({
+        where: {
+          id: req.params.caseId,
+          suite: {
+            id: req.params.suiteId,
+            agentId: req.params.id,
+            organizationId: req.organizationId,
+          },
+        },
+      });
+
+      if (!evalCase) {
+        throw new AppError('Evaluation case not found', 404);
+      }
+
+      await prisma.agentEvalCase.delete({ where: { id: evalCase.id } });
+
+      res.json({ success: true, message: 'Evaluation case deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Run a suite against the agent's published configuration, a saved version,
+// or a draft systemPrompt to compare before saving it
+router.post(
+  '/:id/eval-suites/:suiteId/runs',
+  requireAdmin,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { systemPrompt, label, version } = req.body;
+
+      if (systemPrompt !== undefined && (typeof systemPrompt !== 'string' || !systemPrompt.trim())) {
+        throw new AppError('systemPrompt must be a non-empty string', 400);
+      }
+
+      if (version !== undefined && !Number.isInteger(version)) {
+        throw new AppError('version must be a version number', 400);
+      }
+
+      if (label !== undefined && typeof label !== 'string') {
+        throw new AppError('label must be a string', 400);
+      }
+
+      const suite = await prisma.agentEvalSuite.findFirst({
+        where: {
+          id: req.params.suiteId,
+          agentId: req.params.id,
+          organizationId: req.organizationId,
+        },
+        include: { agent: true },
+      });
+
+      if (!suite) {
+        throw new AppError('Evaluation suite not found', 404);
+      }
+
+      const run = await agentEvaluationService.startRun(suite.agent, suite.id, {
+        systemPrompt,
+        label,
+        version: version !== undefined ? await agentVersionService.findVersion(suite.agentId, version) : undefined,
+        userId: req.userId,
+      });
+
+      res.status(202).json(run);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Run history of a suite
+router.get('/:id/eval-suites/:suiteId/runs', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { limit = '20' } = req.query;
+
+    const suite = await prisma.agentEvalSuite.findFirst({
+      where: {
+        id: req.params.suiteId,
+        agentId: req.params.id,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!suite) {
+      throw new AppError('Evaluation suite not found', 404);
+    }
+
+    const runs = await prisma.agentEvalRun.findMany({
+      where: { suiteId: suite.id },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(limit as string) || 20, 100),
+    });
+
+    res.json(runs);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compare two runs of a suite case by case (?base=<runId>&candidate=<runId>)
+router.get('/:id/eval-suites/:suiteId/compare', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { base, candidate } = req.query;
+
+    if (typeof base !== 'string' || typeof candidate !== 'string') {
+      throw new AppError('base and candidate run ids are required', 400);
+    }
+
+    const suite = await prisma.agentEvalSuite.findFirst({
+      where: {
+        id: req.params.suiteId,
+        agentId: req.params.id,
+        organizationId: req.organizationId,
+      },
+      include: { cases: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!suite) {
+      throw new AppError('Evaluation suite not found', 404);
+    }
+
+    const runs = await prisma.agentEvalRun.findMany({
+      where: { id: { in: [base, candidate] }, suiteId: suite.id },
+      include: { results: true },
+    });
+
+    const baseRun = runs.find((run) => run.id === base);
+    const candidateRun = runs.find((run) => run.id === candidate);
+
+    if (!baseRun || !candidateRun) {
+      throw new AppError('Evaluation run not found', 404);
+    }
+
+    if (baseRun.status !== 'completed' || candidateRun.status !== 'completed') {
+      throw new AppError('Both runs must be completed to compare them', 409);
+    }
+
+    res.json(agentEvaluationService.compare(baseRun, candidateRun, suite.cases));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get an evaluation run with its per-case results
+router.get('/:id/eval-runs/:runId', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const run = await prisma.agentEvalRun.findFirst({
+      where: {
+        id: req.params.runId,
+        agentId: req.params.id,
+        organizationId: req.organizationId,
+      },
+      include: {
+        results: {
+          include: { case: { select: { question: true, expectedAnswer: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new AppError('Evaluation run not found', 404);
+    }
+
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get conversations (unchanged mostly)
 router.get('/:id/conversations', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
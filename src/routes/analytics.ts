@@ -1,8 +1,19 @@
 import { Router, Response, NextFunction } from 'express';
 import { authenticate } from '../middleware/auth';
-import { attachOrganization } from '../middleware/organization';
+import { attachOrganization, requireAdmin } from '../middleware/organization';
 import { AuthRequest } from '../types';
 import prisma from '../config/database';
+import slaService from '../services/slaService';
+import aiUsageService from '../services/aiUsageService';
+import { AppError } from '../middleware/errorHandler';
+import { analyticsQueue } from '../config/queue';
+import analyticsSnapshotService, {
+  SNAPSHOT_GRANULARITIES,
+  SNAPSHOT_DIMENSIONS,
+  MAX_BACKFILL_PERIODS,
+  SnapshotGranularity,
+  SnapshotDimension,
+} from '../services/analyticsSnapshotService';
 
 const router = Router();
 
@@ -132,6 +143,9 @@ router.get('/overview', async (req: AuthRequest, res: Response, next: NextFuncti
     // Real impl would need TicketMessage analysis
     const avgResponseTime = 0; 
 
+    // 6. SLA attainment (tickets tracked by an SLA policy)
+    const sla = await slaService.getAttainment(req.organizationId!, dateFilter);
+
     res.json({
       totalTickets,
       openTickets: ticketsByStatus.open,
@@ -141,6 +155,7 @@ router.get('/overview', async (req: AuthRequest, res: Response, next: NextFuncti
       ticketsByStatus,
       ticketsByPriority,
       ticketsBySource,
+      sla,
     });
   } catch (error) {
     next(error);
@@ -199,10 +214,10 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next: NextFunct
   }
 });
 
-// Get chart data
+// Get chart data (read from pre-aggregated daily snapshots)
 router.get('/chart', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { timeRange = 'week' } = req.query;
+    const { timeRange = 'week', channel, agentId } = req.query;
 
     // Calculate date range
     const now = new Date();
@@ -222,39 +237,136 @@ router.get('/chart', async (req: AuthRequest, res: Response, next: NextFunction)
         startDate.setDate(now.getDate() - 7);
     }
 
-    // Get tickets created in the time range
-    const tickets = await prisma.ticket.findMany({
-      where: {
-        organizationId: req.organizationId,
-        createdAt: {
-          gte: startDate,
-          lte: now,
-        },
-      },
-      select: {
-        createdAt: true,
-        status: true,
-      },
-      orderBy: {
-        createdAt: 'asc',
-      },
+    const snapshots = await analyticsSnapshotService.getSeries(req.organizationId!, {
+      granularity: 'day',
+      from: startDate,
+      to: now,
+      dimension: channel ? 'channel' : agentId ? 'agent' : 'all',
+      ...((channel || agentId) && { dimensionValue: String(channel || agentId) }),
     });
 
-    // Group by date
-    const chartData = tickets.reduce((acc: any[], ticket) => {
-      const date = ticket.createdAt.toISOString().split('T')[0];
-      const existing = acc.find((item) => item.date === date);
+    const chartData = snapshots.map((snapshot) => ({
+      date: snapshot.periodStart.toISOString().split('T')[0],
+      value: snapshot.totalTickets,
+    }));
 
-      if (existing) {
-        existing.value += 1;
-      } else {
-        acc.push({ date, value: 1 });
-      }
+    res.json({ data: chartData });
+  } catch (error) {
+    next(error);
+  }
+});
 
-      return acc;
-    }, []);
+// Get historical metrics per period, optionally broken down by channel or agent
+router.get('/history', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { granularity = 'day', dimension = 'all', value, from, to } = req.query;
 
-    res.json({ data: chartData });
+    if (!SNAPSHOT_GRANULARITIES.includes(granularity as SnapshotGranularity)) {
+      throw new AppError(`granularity must be one of: ${SNAPSHOT_GRANULARITIES.join(', ')}`, 400);
+    }
+
+    if (!SNAPSHOT_DIMENSIONS.includes(dimension as SnapshotDimension)) {
+      throw new AppError(`dimension must be one of: ${SNAPSHOT_DIMENSIONS.join(', ')}`, 400);
+    }
+
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      throw new AppError('from and to must be valid dates with from before to', 400);
+    }
+
+    const snapshots = await analyticsSnapshotService.getSeries(req.organizationId!, {
+      granularity: granularity as SnapshotGranularity,
+      from: fromDate,
+      to: toDate,
+      dimension: dimension as SnapshotDimension,
+      ...(value !== undefined && { dimensionValue: String(value) }),
+    });
+
+    res.json({
+      granularity,
+      dimension,
+      data: snapshots.map((snapshot) => ({
+        periodStart: snapshot.periodStart,
+        periodEnd: snapshot.periodEnd,
+        value: snapshot.dimensionValue || null,
+        totalTickets: snapshot.totalTickets,
+        openTickets: snapshot.openTickets,
+        inProgressTickets: snapshot.inProgressTickets,
+        closedTickets: snapshot.closedTickets,
+        aiResolvedTickets: snapshot.aiResolvedTickets,
+        automationRate: snapshot.totalTickets > 0 ? (snapshot.aiResolvedTickets / snapshot.totalTickets) * 100 : 0,
+        avgResolutionMinutes: snapshot.avgResolutionMinutes,
+        computedAt: snapshot.computedAt,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Backfill snapshots for past periods (runs in the background)
+router.post('/backfill', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { granularity = 'day', periods = 90 } = req.body;
+
+    if (!SNAPSHOT_GRANULARITIES.includes(granularity)) {
+      throw new AppError(`granularity must be one of: ${SNAPSHOT_GRANULARITIES.join(', ')}`, 400);
+    }
+
+    if (!Number.isInteger(periods) || periods < 1 || periods > MAX_BACKFILL_PERIODS) {
+      throw new AppError(`periods must be an integer between 1 and ${MAX_BACKFILL_PERIODS}`, 400);
+    }
+
+    const job = await analyticsQueue.add({
+      organizationId: req.organizationId!,
+      type: 'backfill',
+      granularity,
+      periods,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: 'Analytics backfill job queued',
+      jobId: job.id,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get AI token usage and estimated cost for a billing period (YYYY-MM, defaults to current)
+router.get('/ai-usage', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { period } = req.query;
+
+    if (period && !/^\d{4}-\d{2}$/.test(String(period))) {
+      throw new AppError('period must be in YYYY-MM format', 400);
+    }
+
+    const summary = await aiUsageService.getUsageSummary(
+      req.organizationId!,
+      period ? String(period) : undefined
+    );
+
+    // Totals for recent periods to chart spend over time
+    const history = await prisma.aiUsageRecord.groupBy({
+      by: ['period'],
+      where: { organizationId: req.organizationId },
+      _sum: { totalTokens: true, estimatedCost: true },
+      orderBy: { period: 'desc' },
+      take: 12,
+    });
+
+    res.json({
+      ...summary,
+      history: history.map((row) => ({
+        period: row.period,
+        totalTokens: row._sum.totalTokens || 0,
+        estimatedCost: Number(row._sum.estimatedCost || 0),
+      })),
+    });
   } catch (error) {
     next(error);
   }
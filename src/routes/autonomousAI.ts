@@ -6,6 +6,10 @@ import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import autonomousAIService from '../services/autonomousAIService';
 import { ticketProcessingQueue, recurringIssueQueue } from '../config/queue';
+import { AI_PROVIDER_TYPES, getProviderChain, getProviderChainHealth } from '../services/aiProviders';
+import auditService from '../services/auditService';
+import aiDraftService, { APPROVAL_MODES, DRAFT_STATUSES, DraftStatus } from '../services/aiDraftService';
+import agentToolService, { validateToolArguments } from '../services/agentToolService';
 
 const router = Router();
 
@@ -32,6 +36,8 @@ router.get('/settings', async (req: AuthRequest, res: Response, next: NextFuncti
       taskPlatform: null, // 'clickup' or 'asana'
       minimumOccurrences: 3,
       taskAssignmentStrategy: 'auto', // auto, manual
+      approvalMode: 'auto', // auto, review
+      toolsEnabled: false, // let the agent call built-in and HTTP tools
     };
 
     res.json(aiSettings);
@@ -53,8 +59,18 @@ router.patch('/settings', requireAdmin, async (req: AuthRequest, res: Response,
       taskPlatform,
       minimumOccurrences,
       taskAssignmentStrategy,
+      approvalMode,
+      toolsEnabled,
     } = req.body;
 
+    if (approvalMode !== undefined && !APPROVAL_MODES.includes(approvalMode)) {
+      throw new AppError(`approvalMode must be one of: ${APPROVAL_MODES.join(', ')}`, 400);
+    }
+
+    if (toolsEnabled !== undefined && typeof toolsEnabled !== 'boolean') {
+      throw new AppError('toolsEnabled must be a boolean', 400);
+    }
+
     const organization = await prisma.organization.findUnique({
       where: { id: req.organizationId! },
     });
@@ -75,6 +91,8 @@ router.patch('/settings', requireAdmin, async (req: AuthRequest, res: Response,
       ...(taskPlatform !== undefined && { taskPlatform }),
       ...(minimumOccurrences !== undefined && { minimumOccurrences }),
       ...(taskAssignmentStrategy && { taskAssignmentStrategy }),
+      ...(approvalMode && { approvalMode }),
+      ...(toolsEnabled !== undefined && { toolsEnabled }),
       ...(req.body.supportAgentId !== undefined && { supportAgentId: req.body.supportAgentId }),
     };
 
@@ -88,12 +106,105 @@ router.patch('/settings', requireAdmin, async (req: AuthRequest, res: Response,
       },
     });
 
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'settings',
+      resourceId: 'autonomousAI',
+      metadata: { changes: auditService.diff(currentSettings.autonomousAI, updatedAISettings) },
+      ipAddress: req.ip,
+    });
+
     res.json(updatedAISettings);
   } catch (error) {
     next(error);
   }
 });
 
+// Get AI provider fallback chain and the health of each provider
+router.get('/providers', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+      select: { settings: true },
+    });
+
+    const complianceSettings = (organization?.settings as any)?.compliance || {};
+
+    res.json({
+      aiProvider: complianceSettings.aiProvider || 'gemini',
+      providerChain: getProviderChain(complianceSettings),
+      forbiddenProviders: complianceSettings.forbiddenProviders || [],
+      health: getProviderChainHealth(complianceSettings),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update AI provider fallback chain
+router.patch('/providers', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { providerChain, forbiddenProviders } = req.body;
+
+    for (const [field, value] of Object.entries({ providerChain, forbiddenProviders })) {
+      if (value === undefined) continue;
+
+      if (!Array.isArray(value) || value.some((type) => !AI_PROVIDER_TYPES.includes(type))) {
+        throw new AppError(`${field} must be a list of: ${AI_PROVIDER_TYPES.join(', ')}`, 400);
+      }
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+    });
+
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    const currentSettings = (organization.settings as any) || {};
+    const updatedCompliance = {
+      ...currentSettings.compliance,
+      ...(providerChain !== undefined && { providerChain: Array.from(new Set(providerChain)) }),
+      ...(forbiddenProviders !== undefined && { forbiddenProviders: Array.from(new Set(forbiddenProviders)) }),
+    };
+
+    // Refuse a configuration that would leave the organization without any provider
+    if (getProviderChain(updatedCompliance).length === 0) {
+      throw new AppError('At least one provider in the chain must be allowed', 400);
+    }
+
+    await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: {
+        settings: {
+          ...currentSettings,
+          compliance: updatedCompliance,
+        },
+      },
+    });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'settings',
+      resourceId: 'compliance',
+      metadata: { changes: auditService.diff(currentSettings.compliance, updatedCompliance) },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      aiProvider: updatedCompliance.aiProvider || 'gemini',
+      providerChain: getProviderChain(updatedCompliance),
+      forbiddenProviders: updatedCompliance.forbiddenProviders || [],
+      health: getProviderChainHealth(updatedCompliance),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Process a ticket with autonomous AI (async with background job)
 router.post('/process-ticket/:ticketId', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -115,6 +226,228 @@ router.post('/process-ticket/:ticketId', async (req: AuthRequest, res: Response,
   }
 });
 
+// List AI reply drafts awaiting approval (or past drafts by status)
+router.get('/drafts', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, ticketId, page = '1', limit = '20' } = req.query;
+
+    if (status && !DRAFT_STATUSES.includes(status as DraftStatus)) {
+      throw new AppError(`status must be one of: ${DRAFT_STATUSES.join(', ')}`, 400);
+    }
+
+    const take = Math.min(parseInt(limit as string) || 20, 100);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const { drafts, total } = await aiDraftService.list(
+      req.organizationId!,
+      { status: status as DraftStatus | undefined, ticketId: ticketId as string | undefined },
+      { skip, take }
+    );
+
+    res.json({
+      drafts,
+      pagination: {
+        page: skip / take + 1,
+        limit: take,
+        total,
+        totalPages: Math.ceil(total / take),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve an AI draft and send it to the customer, optionally with edits
+router.post('/drafts/:id/approve', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { content } = req.body;
+
+    if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+      throw new AppError('content must be a non-empty string', 400);
+    }
+
+    const result = await aiDraftService.approve(req.organizationId!, req.params.id, req.userId!, content);
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject an AI draft; the ticket stays with the team
+router.post('/drafts/:id/reject', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = req.body;
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new AppError('reason must be a string', 400);
+    }
+
+    const draft = await aiDraftService.reject(req.organizationId!, req.params.id, req.userId!, reason);
+
+    res.json({ draft });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List the tools the autonomous agent can call: built-in and the organization's HTTP tools
+router.get('/tools', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const httpTools = await agentToolService.listHttpTools(req.organizationId!);
+
+    res.json({
+      builtIn: agentToolService.builtInDefinitions(),
+      http: httpTools.map((tool) => agentToolService.toPublic(tool)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add an HTTP tool
+router.post('/tools', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = agentToolService.validateHttpTool(req.body);
+
+    const existing = await prisma.aiTool.findFirst({
+      where: { organizationId: req.organizationId!, name: input.name },
+    });
+
+    if (existing) {
+      throw new AppError(`A tool named ${input.name} already exists`, 409);
+    }
+
+    const tool = await prisma.aiTool.create({
+      data: {
+        organizationId: req.organizationId!,
+        name: input.name!,
+        description: input.description!,
+        url: input.url!,
+        parameters: input.parameters || { type: 'object', properties: {} },
+        ...(input.method && { method: input.method }),
+        ...(input.headers && { headers: input.headers }),
+        ...(input.authType && { authType: input.authType }),
+        ...(input.credentials !== undefined && { credentials: input.credentials }),
+        ...(input.timeoutMs && { timeoutMs: input.timeoutMs }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+    });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'ai_tool',
+      resourceId: tool.id,
+      metadata: { created: agentToolService.toPublic(tool) },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json(agentToolService.toPublic(tool));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update an HTTP tool
+router.patch('/tools/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tool = await prisma.aiTool.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId! },
+    });
+
+    if (!tool) {
+      throw new AppError('Tool not found', 404);
+    }
+
+    const input = agentToolService.validateHttpTool(req.body, { partial: true });
+
+    if (input.name && input.name !== tool.name) {
+      const existing = await prisma.aiTool.findFirst({
+        where: { organizationId: req.organizationId!, name: input.name },
+      });
+
+      if (existing) {
+        throw new AppError(`A tool named ${input.name} already exists`, 409);
+      }
+    }
+
+    const updated = await prisma.aiTool.update({
+      where: { id: tool.id },
+      data: input,
+    });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'ai_tool',
+      resourceId: tool.id,
+      metadata: { changes: auditService.diff(agentToolService.toPublic(tool), agentToolService.toPublic(updated)) },
+      ipAddress: req.ip,
+    });
+
+    res.json(agentToolService.toPublic(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an HTTP tool
+router.delete('/tools/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tool = await prisma.aiTool.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId! },
+    });
+
+    if (!tool) {
+      throw new AppError('Tool not found', 404);
+    }
+
+    await prisma.aiTool.delete({ where: { id: tool.id } });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'ai_tool',
+      resourceId: tool.id,
+      metadata: { deleted: tool.name },
+      ipAddress: req.ip,
+    });
+
+    res.json({ success: true, message: 'Tool deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Call an HTTP tool with sample arguments to check its URL, auth and schema
+router.post('/tools/:id/test', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tool = await prisma.aiTool.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId! },
+    });
+
+    if (!tool) {
+      throw new AppError('Tool not found', 404);
+    }
+
+    const args = req.body.arguments || {};
+    const invalid = validateToolArguments(tool.parameters as Record<string, any>, args);
+
+    if (invalid) {
+      throw new AppError(invalid, 400);
+    }
+
+    const started = Date.now();
+    const result = await agentToolService.callHttpTool(tool, args);
+
+    res.json({ result, durationMs: Date.now() - started });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Detect recurring issues (immediate - for testing/debugging)
 router.get('/recurring-issues', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -294,10 +627,11 @@ router.get('/performance', async (req: AuthRequest, res: Response, next: NextFun
     // 5. Avg Response Time (Mocked or calculated)
     const avgResponseTime = 0; // Placeholder
 
-    // 6. Avg Confidence Score (Mocked or real)
-    // If we store confidence on Ticket or TicketMessage, we could avg it.
-    // For now, returning a static or random believable value if no data.
-    const avgConfidenceScore = 0.85; 
+    // 6. Draft review outcomes (approval mode 'review')
+    const draftReview = await aiDraftService.getReviewMetrics(req.organizationId!, dateFilter.createdAt);
+
+    // Avg Confidence Score: real value once AI drafts exist, static fallback otherwise
+    const avgConfidenceScore = draftReview.avgConfidence ?? 0.85;
 
     // 7. Customer Satisfaction (Mocked)
     const customerSatisfaction = 4.5;
@@ -310,6 +644,7 @@ router.get('/performance', async (req: AuthRequest, res: Response, next: NextFun
       escalatedToHuman,
       avgResponseTime,
       customerSatisfaction,
+      draftReview,
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,458 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { attachOrganization, requireAdmin } from '../middleware/organization';
+import { AuthRequest } from '../types';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { retentionQueue } from '../config/queue';
+import retentionService, { RETENTION_ACTIONS } from '../services/retentionService';
+import auditService, { AUDIT_ACTIONS, AuditEventFilters } from '../services/auditService';
+import piiRedactor, { CustomPIIPattern, RedactionOptions } from '../services/piiRedactor';
+import { PII_PATTERN_PACKS, PII_PACK_IDS, DEFAULT_PII_PACKS } from '../services/piiPatternPacks';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(attachOrganization);
+
+// Get the effective data retention policy and recent retention runs
+router.get('/retention', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [policy, heldTickets, recentReports] = await Promise.all([
+      retentionService.getPolicy(req.organizationId!),
+      prisma.ticket.count({ where: { organizationId: req.organizationId, legalHold: true } }),
+      prisma.retentionReport.findMany({
+        where: { organizationId: req.organizationId },
+        orderBy: { startedAt: 'desc' },
+        take: 5,
+      }),
+    ]);
+
+    res.json({ policy, heldTickets, recentReports });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update the organization's retention period and action
+router.patch('/retention', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { dataRetentionDays, retentionAction } = req.body;
+
+    if (dataRetentionDays !== undefined && dataRetentionDays !== null && (!Number.isInteger(dataRetentionDays) || dataRetentionDays <= 0)) {
+      throw new AppError('dataRetentionDays must be a positive integer, or null to keep data indefinitely', 400);
+    }
+
+    if (retentionAction !== undefined && !RETENTION_ACTIONS.includes(retentionAction)) {
+      throw new AppError(`retentionAction must be one of: ${RETENTION_ACTIONS.join(', ')}`, 400);
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+    });
+
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    const currentSettings = (organization.settings as any) || {};
+    const updatedCompliance = {
+      ...currentSettings.compliance,
+      ...(dataRetentionDays !== undefined && { dataRetentionDays }),
+      ...(retentionAction !== undefined && { retentionAction }),
+    };
+
+    await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: {
+        settings: {
+          ...currentSettings,
+          compliance: updatedCompliance,
+        },
+      },
+    });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'settings',
+      resourceId: 'compliance',
+      metadata: { changes: auditService.diff(currentSettings.compliance, updatedCompliance) },
+      ipAddress: req.ip,
+    });
+
+    res.json({ policy: await retentionService.getPolicy(req.organizationId!) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Run retention for this organization now (dryRun only reports what would change)
+router.post('/retention/run', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const dryRun = req.body.dryRun === true;
+
+    if (!(await retentionService.getPolicy(req.organizationId!))) {
+      throw new AppError('No retention period is configured for this organization', 400);
+    }
+
+    const job = await retentionQueue.add({
+      organizationId: req.organizationId!,
+      dryRun,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: dryRun ? 'Retention dry run queued' : 'Retention job queued',
+      jobId: job.id,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List retention reports
+router.get('/retention/reports', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = '1', limit = '20' } = req.query;
+    const take = Math.min(parseInt(limit as string) || 20, 100);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [reports, total] = await Promise.all([
+      prisma.retentionReport.findMany({
+        where: { organizationId: req.organizationId },
+        orderBy: { startedAt: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.retentionReport.count({ where: { organizationId: req.organizationId } }),
+    ]);
+
+    res.json({ reports, total });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download a retention report as CSV or JSON
+router.get('/retention/reports/:id/download', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+
+    if (!['csv', 'json'].includes(format)) {
+      throw new AppError('format must be csv or json', 400);
+    }
+
+    const report = await prisma.retentionReport.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!report) {
+      throw new AppError('Retention report not found', 404);
+    }
+
+    await auditService.record(req.organizationId!, {
+      action: 'data.export',
+      actorId: req.userId,
+      resourceType: 'retention_report',
+      resourceId: report.id,
+      metadata: { format },
+      ipAddress: req.ip,
+    });
+
+    const filename = `retention-report-${report.startedAt.toISOString().slice(0, 10)}-${report.id}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.json(report);
+    } else {
+      res.type('text/csv').send(retentionService.toCsv(report));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List tickets under legal hold
+router.get('/legal-holds', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tickets = await prisma.ticket.findMany({
+      where: { organizationId: req.organizationId, legalHold: true },
+      select: {
+        id: true,
+        subject: true,
+        customerName: true,
+        status: true,
+        legalHoldReason: true,
+        legalHoldSetAt: true,
+        createdAt: true,
+      },
+      orderBy: { legalHoldSetAt: 'desc' },
+    });
+
+    res.json(tickets);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Place a ticket under legal hold or release it
+router.put('/legal-holds/:ticketId', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { enabled, reason } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      throw new AppError('enabled must be true or false', 400);
+    }
+
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: req.params.ticketId, organizationId: req.organizationId },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const updated = await retentionService.setLegalHold(ticket.id, enabled, reason);
+
+    await auditService.record(req.organizationId!, {
+      action: 'legal_hold.update',
+      actorId: req.userId,
+      resourceType: 'ticket',
+      resourceId: ticket.id,
+      metadata: { enabled, reason: updated.legalHoldReason },
+      ipAddress: req.ip,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const MAX_CUSTOM_PII_PATTERNS = 20;
+const MAX_PREVIEW_LENGTH = 10000;
+
+const validatePiiOptions = (packs: any, customPatterns: any) => {
+  if (packs !== undefined && (!Array.isArray(packs) || packs.some((pack) => !PII_PACK_IDS.includes(pack)))) {
+    throw new AppError(`packs must be a list of: ${PII_PACK_IDS.join(', ')}`, 400);
+  }
+
+  if (customPatterns !== undefined) {
+    if (!Array.isArray(customPatterns) || customPatterns.length > MAX_CUSTOM_PII_PATTERNS) {
+      throw new AppError(`customPatterns must be a list of at most ${MAX_CUSTOM_PII_PATTERNS} patterns`, 400);
+    }
+
+    for (const custom of customPatterns as CustomPIIPattern[]) {
+      const error = piiRedactor.validateCustomPattern(custom);
+      if (error) {
+        throw new AppError(`Invalid custom pattern ${custom?.type || ''}: ${error}`, 400);
+      }
+    }
+  }
+};
+
+// Get available PII pattern packs and the organization's selection
+router.get('/pii', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+      select: { settings: true },
+    });
+
+    const options = piiRedactor.optionsFromCompliance((organization?.settings as any)?.compliance);
+
+    res.json({
+      availablePacks: PII_PACK_IDS.map((id) => ({
+        id,
+        name: PII_PATTERN_PACKS[id].name,
+        types: Array.from(new Set(PII_PATTERN_PACKS[id].patterns.map((pattern) => pattern.type))),
+      })),
+      packs: options.packs || DEFAULT_PII_PACKS,
+      customPatterns: options.customPatterns || [],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Choose PII pattern packs and custom patterns
+router.patch('/pii', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { packs, customPatterns } = req.body;
+
+    validatePiiOptions(packs, customPatterns);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+    });
+
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    const currentSettings = (organization.settings as any) || {};
+    const updatedCompliance = {
+      ...currentSettings.compliance,
+      ...(packs !== undefined && { piiPacks: Array.from(new Set(packs)) }),
+      ...(customPatterns !== undefined && {
+        customPiiPatterns: customPatterns.map((custom: CustomPIIPattern) => ({
+          type: custom.type,
+          pattern: custom.pattern,
+          caseInsensitive: Boolean(custom.caseInsensitive),
+        })),
+      }),
+    };
+
+    await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: {
+        settings: {
+          ...currentSettings,
+          compliance: updatedCompliance,
+        },
+      },
+    });
+
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'settings',
+      resourceId: 'compliance',
+      metadata: { changes: auditService.diff(currentSettings.compliance, updatedCompliance) },
+      ipAddress: req.ip,
+    });
+
+    const options = piiRedactor.optionsFromCompliance(updatedCompliance);
+    res.json({
+      packs: options.packs || DEFAULT_PII_PACKS,
+      customPatterns: options.customPatterns || [],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Dry run: show what would be redacted from sample text
+// Uses the saved configuration unless packs/customPatterns are given to try out
+router.post('/pii/preview', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { text, packs, customPatterns } = req.body;
+
+    if (typeof text !== 'string' || !text) {
+      throw new AppError('text is required', 400);
+    }
+
+    if (text.length > MAX_PREVIEW_LENGTH) {
+      throw new AppError(`text must be at most ${MAX_PREVIEW_LENGTH} characters`, 400);
+    }
+
+    validatePiiOptions(packs, customPatterns);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+      select: { settings: true },
+    });
+
+    const saved = piiRedactor.optionsFromCompliance((organization?.settings as any)?.compliance);
+    const options: RedactionOptions = {
+      packs: packs ?? saved.packs,
+      customPatterns: customPatterns ?? saved.customPatterns,
+    };
+
+    const result = piiRedactor.redact(text, options);
+    const byType: Record<string, number> = {};
+    for (const redaction of result.redactions) {
+      byType[redaction.type] = (byType[redaction.type] || 0) + 1;
+    }
+
+    res.json({
+      packs: options.packs || DEFAULT_PII_PACKS,
+      redactedText: result.redactedText,
+      redactions: result.redactions,
+      byType,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const parseAuditFilters = (query: any): AuditEventFilters => {
+  const { action, actorId, resourceType, resourceId, from, to } = query;
+
+  if (action && !AUDIT_ACTIONS.includes(action)) {
+    throw new AppError(`action must be one of: ${AUDIT_ACTIONS.join(', ')}`, 400);
+  }
+
+  const dates: Record<string, Date | undefined> = {};
+  for (const [field, value] of Object.entries({ from, to })) {
+    if (value === undefined) continue;
+    const date = new Date(value as string);
+    if (isNaN(date.getTime())) {
+      throw new AppError(`${field} must be a valid date`, 400);
+    }
+    dates[field] = date;
+  }
+
+  return {
+    action: action as string | undefined,
+    actorId: actorId as string | undefined,
+    resourceType: resourceType as string | undefined,
+    resourceId: resourceId as string | undefined,
+    from: dates.from,
+    to: dates.to,
+  };
+};
+
+// Search the audit log
+router.get('/audit-events', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseAuditFilters(req.query);
+    const { page = '1', limit = '50' } = req.query;
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const { events, total } = await auditService.list(req.organizationId!, filters, { skip, take });
+
+    res.json({ events, total, page: skip / take + 1, limit: take });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export the audit log as CSV or JSON (same filters as the search)
+router.get('/audit-events/export', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+
+    if (!['csv', 'json'].includes(format)) {
+      throw new AppError('format must be csv or json', 400);
+    }
+
+    const filters = parseAuditFilters(req.query);
+    const events = await auditService.export(req.organizationId!, filters);
+
+    // The export itself is part of the trail
+    await auditService.record(req.organizationId!, {
+      action: 'data.export',
+      actorId: req.userId,
+      resourceType: 'audit_events',
+      metadata: { format, filters, eventCount: events.length },
+      ipAddress: req.ip,
+    });
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.json(events);
+    } else {
+      res.type('text/csv').send(auditService.toCsv(events));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
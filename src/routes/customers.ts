@@ -0,0 +1,320 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { attachOrganization } from '../middleware/organization';
+import { AuthRequest } from '../types';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import customerService, { IDENTITY_TYPES, IdentityType } from '../services/customerService';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(attachOrganization);
+
+const findCustomer = async (req: AuthRequest, id: string) => {
+  const customer = await prisma.customer.findFirst({
+    where: { id, organizationId: req.organizationId },
+  });
+
+  if (!customer) {
+    throw new AppError('Customer not found', 404);
+  }
+
+  return customer;
+};
+
+// Get customers (searchable by name or any identity)
+router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { search, page = 1, limit = 20 } = req.query;
+
+    const where: any = {
+      organizationId: req.organizationId,
+    };
+
+    if (search) {
+      const term = String(search).trim();
+      where.OR = [
+        { name: { contains: term, mode: 'insensitive' } },
+        { email: { contains: term, mode: 'insensitive' } },
+        { identities: { some: { value: { contains: term.replace(/^@/, '').toLowerCase() } } } },
+      ];
+    }
+
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        include: {
+          identities: true,
+          _count: { select: { tickets: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+        skip: (Number(page) - 1) * Number(limit),
+        take: Number(limit),
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    res.json({
+      customers,
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get customer profile with identities and ticket summary
+router.get('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+      include: { identities: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const tickets = await prisma.ticket.findMany({
+      where: { customerId: customer.id },
+      select: { status: true, metadata: true, createdAt: true },
+    });
+
+    const channels: Record<string, number> = {};
+    for (const ticket of tickets) {
+      const source = (ticket.metadata as any)?.source || 'internal';
+      channels[source] = (channels[source] || 0) + 1;
+    }
+
+    res.json({
+      ...customer,
+      stats: {
+        totalTickets: tickets.length,
+        openTickets: tickets.filter((t) => t.status !== 'closed').length,
+        channels,
+        firstSeenAt: tickets.length ? new Date(Math.min(...tickets.map((t) => t.createdAt.getTime()))) : null,
+        lastSeenAt: tickets.length ? new Date(Math.max(...tickets.map((t) => t.createdAt.getTime()))) : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get all of a customer's tickets across channels
+router.get('/:id/tickets', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+
+    const customer = await findCustomer(req, req.params.id);
+
+    const [tickets, total] = await Promise.all([
+      prisma.ticket.findMany({
+        where: { customerId: customer.id },
+        include: {
+          tags: true,
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (Number(page) - 1) * Number(limit),
+        take: Number(limit),
+      }),
+      prisma.ticket.count({ where: { customerId: customer.id } }),
+    ]);
+
+    res.json({
+      tickets,
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update customer profile
+router.patch('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, email, phone, notes } = req.body;
+
+    const customer = await findCustomer(req, req.params.id);
+
+    const updated = await prisma.customer.update({
+      where: { id: customer.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(email !== undefined && { email }),
+        ...(phone !== undefined && { phone }),
+        ...(notes !== undefined && { notes }),
+      },
+      include: { identities: true },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add an identity to a customer
+router.post('/:id/identities', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { type, value } = req.body;
+
+    if (!IDENTITY_TYPES.includes(type)) {
+      throw new AppError(`Invalid identity type. Must be one of: ${IDENTITY_TYPES.join(', ')}`, 400);
+    }
+
+    if (!value) {
+      throw new AppError('value is required', 400);
+    }
+
+    const customer = await findCustomer(req, req.params.id);
+    const normalized = customerService.normalizeIdentity(type as IdentityType, value);
+
+    const existing = await prisma.customerIdentity.findUnique({
+      where: {
+        organizationId_type_value: {
+          organizationId: req.organizationId!,
+          type,
+          value: normalized,
+        },
+      },
+    });
+
+    if (existing) {
+      if (existing.customerId === customer.id) {
+        return res.json(existing);
+      }
+      throw new AppError(`This identity belongs to customer ${existing.customerId}; merge the customers instead`, 409);
+    }
+
+    const identity = await prisma.customerIdentity.create({
+      data: {
+        organizationId: req.organizationId!,
+        customerId: customer.id,
+        type,
+        value: normalized,
+      },
+    });
+
+    res.status(201).json(identity);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove an identity from a customer
+router.delete('/:id/identities/:identityId', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const customer = await findCustomer(req, req.params.id);
+
+    const identity = await prisma.customerIdentity.findFirst({
+      where: { id: req.params.identityId, customerId: customer.id },
+    });
+
+    if (!identity) {
+      throw new AppError('Identity not found', 404);
+    }
+
+    await prisma.customerIdentity.delete({
+      where: { id: identity.id },
+    });
+
+    res.json({ success: true, message: 'Identity removed successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Merge other customers into this one
+router.post('/:id/merge', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { customerIds } = req.body;
+
+    if (!Array.isArray(customerIds) || customerIds.length === 0) {
+      throw new AppError('customerIds must be a non-empty list', 400);
+    }
+
+    const target = await findCustomer(req, req.params.id);
+    const sourceIds = Array.from(new Set<string>(customerIds)).filter((id) => id !== target.id);
+
+    const sources = await prisma.customer.findMany({
+      where: { id: { in: sourceIds }, organizationId: req.organizationId },
+      select: { id: true },
+    });
+
+    if (sources.length !== sourceIds.length) {
+      throw new AppError('One or more customers not found', 404);
+    }
+
+    await customerService.merge(req.organizationId!, target.id, sourceIds);
+
+    const merged = await prisma.customer.findUnique({
+      where: { id: target.id },
+      include: {
+        identities: true,
+        _count: { select: { tickets: true } },
+      },
+    });
+
+    res.json(merged);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Split identities (and their tickets) off into a new customer
+router.post('/:id/split', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { identityIds, ticketIds = [], name } = req.body;
+
+    if (!Array.isArray(identityIds) || identityIds.length === 0) {
+      throw new AppError('identityIds must be a non-empty list', 400);
+    }
+
+    if (!Array.isArray(ticketIds)) {
+      throw new AppError('ticketIds must be a list', 400);
+    }
+
+    const customer = await findCustomer(req, req.params.id);
+
+    const identities = await prisma.customerIdentity.findMany({
+      where: { id: { in: identityIds }, customerId: customer.id },
+      select: { id: true },
+    });
+
+    if (identities.length !== identityIds.length) {
+      throw new AppError('One or more identities do not belong to this customer', 400);
+    }
+
+    const remaining = await prisma.customerIdentity.count({
+      where: { customerId: customer.id, id: { notIn: identityIds } },
+    });
+
+    if (remaining === 0) {
+      throw new AppError('Cannot split off every identity of a customer', 400);
+    }
+
+    const created = await customerService.split(req.organizationId!, customer.id, identityIds, ticketIds, name);
+
+    res.status(201).json(created);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
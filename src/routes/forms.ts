@@ -6,6 +6,7 @@ import { checkSubscriptionLimits } from '../middleware/rateLimit';
 import { AuthRequest } from '../types';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import meteringService from '../services/meteringService';
 
 const router = Router();
 
@@ -77,6 +78,8 @@ router.post(
         },
       });
 
+      await meteringService.increment(req.organizationId!, 'forms');
+
       res.status(201).json(form);
     } catch (error) {
       next(error);
@@ -186,6 +189,8 @@ router.delete('/:id', requireAdmin, async (req: AuthRequest, res: Response, next
       where: { id: req.params.id },
     });
 
+    await meteringService.decrement(req.organizationId!, 'forms');
+
     res.json({ success: true, message: 'Form deleted successfully' });
   } catch (error) {
     next(error);
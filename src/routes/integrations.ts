@@ -4,6 +4,8 @@ import { attachOrganization, requireAdmin } from '../middleware/organization';
 import { AuthRequest } from '../types';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { checkSubscriptionLimits } from '../middleware/rateLimit';
+import meteringService from '../services/meteringService';
 import crypto from 'crypto';
 import {
   SlackIntegration,
@@ -112,6 +114,8 @@ router.get(
         },
       });
 
+      await meteringService.increment(stateData.organizationId, 'channels');
+
       // Subscribe to webhooks for platforms that support it
       try {
         const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || process.env.FRONTEND_URL?.replace('3000', '4001') || 'http://localhost:4001';
@@ -224,6 +228,7 @@ router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
 router.get(
   '/:platform/oauth/init',
   requireAdmin,
+  checkSubscriptionLimits('channels'),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       const { platform } = req.params;
@@ -280,6 +285,7 @@ router.get(
 router.post(
   '/:platform/connect',
   requireAdmin,
+  checkSubscriptionLimits('channels'),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       const { platform } = req.params;
@@ -355,6 +361,8 @@ router.post(
         },
       });
 
+      await meteringService.increment(req.organizationId!, 'channels');
+
       res.status(201).json({
         success: true,
         message: `${validPlatform.name} connected successfully`,
@@ -465,6 +473,10 @@ router.post(
         where: { id: connection.id },
       });
 
+      if (connection.isActive) {
+        await meteringService.decrement(req.organizationId!, 'channels');
+      }
+
       res.json({
         success: true,
         message: `${platform} disconnected successfully`,
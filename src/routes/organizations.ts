@@ -7,6 +7,9 @@ import { AuthRequest } from '../types';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import { emailQueue } from '../config/queue';
+import { checkSubscriptionLimits } from '../middleware/rateLimit';
+import meteringService from '../services/meteringService';
+import auditService from '../services/auditService';
 
 const router = Router();
 
@@ -106,6 +109,11 @@ router.patch('/current', requireAdmin, async (req: AuthRequest, res: Response, n
   try {
     const { name, avatarUrl, teamSize } = req.body;
 
+    const before = await prisma.organization.findUnique({
+      where: { id: req.organizationId },
+      select: { name: true, avatarUrl: true, teamSize: true },
+    });
+
     const updated = await prisma.organization.update({
       where: { id: req.organizationId },
       data: {
@@ -115,6 +123,21 @@ router.patch('/current', requireAdmin, async (req: AuthRequest, res: Response, n
       },
     });
 
+    await auditService.record(req.organizationId!, {
+      action: 'settings.update',
+      actorId: req.userId,
+      resourceType: 'organization',
+      resourceId: req.organizationId,
+      metadata: {
+        changes: auditService.diff(before || {}, {
+          name: updated.name,
+          avatarUrl: updated.avatarUrl,
+          teamSize: updated.teamSize,
+        }),
+      },
+      ipAddress: req.ip,
+    });
+
     res.json(updated);
   } catch (error) {
     next(error);
@@ -149,7 +172,7 @@ router.get('/members', async (req: AuthRequest, res: Response, next: NextFunctio
 });
 
 // Invite teammate
-router.post('/members/invite', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/members/invite', requireAdmin, checkSubscriptionLimits('teammates'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { email, role } = req.body;
 
@@ -228,10 +251,45 @@ router.post('/members/invite', requireAdmin, async (req: AuthRequest, res: Respo
   }
 });
 
+// Update own availability (away members are skipped by ticket routing)
+router.patch('/members/me/availability', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { isAway } = req.body;
+
+    if (typeof isAway !== 'boolean') {
+      throw new AppError('isAway must be a boolean', 400);
+    }
+
+    const member = await prisma.organizationMember.findFirst({
+      where: {
+        userId: req.userId,
+        organizationId: req.organizationId,
+      },
+    });
+
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { isAway },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update member role
 router.patch('/members/:memberId', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { role, status } = req.body;
+    const { role, status, skills, isAway } = req.body;
+
+    if (skills !== undefined && (!Array.isArray(skills) || skills.some((skill: any) => typeof skill !== 'string'))) {
+      throw new AppError('skills must be a list of strings', 400);
+    }
 
     const member = await prisma.organizationMember.findFirst({
       where: {
@@ -249,9 +307,22 @@ router.patch('/members/:memberId', requireAdmin, async (req: AuthRequest, res: R
       data: {
         ...(role && { role }),
         ...(status && { status }),
+        ...(skills !== undefined && { skills: skills.map((skill: string) => skill.trim().toLowerCase()).filter(Boolean) }),
+        ...(isAway !== undefined && { isAway: Boolean(isAway) }),
       },
     });
 
+    if (role && role !== member.role) {
+      await auditService.record(req.organizationId!, {
+        action: 'member.role_change',
+        actorId: req.userId,
+        resourceType: 'member',
+        resourceId: member.id,
+        metadata: { userId: member.userId, from: member.role, to: role },
+        ipAddress: req.ip,
+      });
+    }
+
     res.json(updated);
   } catch (error) {
     next(error);
@@ -281,6 +352,17 @@ router.delete('/members/:memberId', requireAdmin, async (req: AuthRequest, res:
       where: { id: req.params.memberId },
     });
 
+    await meteringService.decrement(req.organizationId!, 'teammates');
+
+    await auditService.record(req.organizationId!, {
+      action: 'member.remove',
+      actorId: req.userId,
+      resourceType: 'member',
+      resourceId: member.id,
+      metadata: { userId: member.userId, role: member.role },
+      ipAddress: req.ip,
+    });
+
     res.json({ success: true, message: 'Member removed successfully' });
   } catch (error) {
     next(error);
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { onTicketCreated } from '../services/ticketLifecycle';
 
 const router = Router();
 
@@ -127,7 +128,7 @@ router.post('/:formId/submit', async (req: Request, res: Response, next: NextFun
       });
 
       // Create the ticket
-      await prisma.ticket.create({
+      const ticket = await prisma.ticket.create({
         data: {
           organizationId: form.organizationId,
           customerName,
@@ -149,6 +150,8 @@ router.post('/:formId/submit', async (req: Request, res: Response, next: NextFun
           },
         },
       });
+
+      await onTicketCreated(ticket.id);
     } catch (ticketError) {
       // Log error but don't fail the submission
       console.error('Failed to create ticket from form submission:', ticketError);
@@ -0,0 +1,249 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { attachOrganization, requireAdmin } from '../middleware/organization';
+import { AuthRequest } from '../types';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import routingService, { ROUTING_STRATEGIES } from '../services/routingService';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(attachOrganization);
+
+const CONDITION_KEYS = ['priorities', 'sources', 'tags', 'keywords'];
+
+const isStringList = (value: any) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const validateRule = (body: any) => {
+  const { strategy, conditions, memberIds, requiredSkills, position } = body;
+
+  if (strategy !== undefined && !ROUTING_STRATEGIES.includes(strategy)) {
+    throw new AppError(`Invalid strategy. Must be one of: ${ROUTING_STRATEGIES.join(', ')}`, 400);
+  }
+
+  if (conditions !== undefined) {
+    if (typeof conditions !== 'object' || conditions === null || Array.isArray(conditions)) {
+      throw new AppError('conditions must be an object', 400);
+    }
+    for (const [key, value] of Object.entries(conditions)) {
+      if (!CONDITION_KEYS.includes(key) || !isStringList(value)) {
+        throw new AppError(`Invalid condition "${key}". Allowed lists: ${CONDITION_KEYS.join(', ')}`, 400);
+      }
+    }
+  }
+
+  if (memberIds !== undefined && !isStringList(memberIds)) {
+    throw new AppError('memberIds must be a list of user IDs', 400);
+  }
+
+  if (requiredSkills !== undefined && !isStringList(requiredSkills)) {
+    throw new AppError('requiredSkills must be a list of strings', 400);
+  }
+
+  if (position !== undefined && !Number.isInteger(position)) {
+    throw new AppError('position must be an integer', 400);
+  }
+};
+
+// Get routing settings
+router.get('/settings', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const settings = await routingService.getSettings(req.organizationId!);
+
+    res.json(settings);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update routing settings
+router.patch('/settings', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { enabled, activeWithinMinutes, maxOpenTickets } = req.body;
+
+    if (activeWithinMinutes !== undefined && (!Number.isInteger(activeWithinMinutes) || activeWithinMinutes < 0)) {
+      throw new AppError('activeWithinMinutes must be a non-negative integer', 400);
+    }
+
+    if (maxOpenTickets !== undefined && maxOpenTickets !== null && (!Number.isInteger(maxOpenTickets) || maxOpenTickets <= 0)) {
+      throw new AppError('maxOpenTickets must be a positive integer or null', 400);
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+    });
+
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    const currentSettings = (organization.settings as any) || {};
+    const updatedRoutingSettings = {
+      ...currentSettings.routing,
+      ...(enabled !== undefined && { enabled: Boolean(enabled) }),
+      ...(activeWithinMinutes !== undefined && { activeWithinMinutes }),
+      ...(maxOpenTickets !== undefined && { maxOpenTickets }),
+    };
+
+    await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: {
+        settings: {
+          ...currentSettings,
+          routing: updatedRoutingSettings,
+        },
+      },
+    });
+
+    res.json(updatedRoutingSettings);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get all routing rules in evaluation order
+router.get('/rules', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rules = await prisma.routingRule.findMany({
+      where: { organizationId: req.organizationId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json(rules);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create routing rule
+router.post('/rules', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, strategy, conditions, memberIds, requiredSkills, position, isActive } = req.body;
+
+    if (!name) {
+      throw new AppError('name is required', 400);
+    }
+
+    validateRule(req.body);
+
+    const rule = await prisma.routingRule.create({
+      data: {
+        organizationId: req.organizationId!,
+        name,
+        strategy: strategy || 'round-robin',
+        conditions: conditions || {},
+        memberIds: memberIds || [],
+        requiredSkills: (requiredSkills || []).map((skill: string) => skill.toLowerCase()),
+        position: position ?? 0,
+        isActive: isActive ?? true,
+      },
+    });
+
+    res.status(201).json(rule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update routing rule
+router.patch('/rules/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, strategy, conditions, memberIds, requiredSkills, position, isActive } = req.body;
+
+    const rule = await prisma.routingRule.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!rule) {
+      throw new AppError('Routing rule not found', 404);
+    }
+
+    validateRule(req.body);
+
+    const updated = await prisma.routingRule.update({
+      where: { id: req.params.id },
+      data: {
+        ...(name && { name }),
+        ...(strategy && { strategy }),
+        ...(conditions !== undefined && { conditions }),
+        ...(memberIds !== undefined && { memberIds }),
+        ...(requiredSkills !== undefined && { requiredSkills: requiredSkills.map((skill: string) => skill.toLowerCase()) }),
+        ...(position !== undefined && { position }),
+        ...(isActive !== undefined && { isActive }),
+      },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete routing rule
+router.delete('/rules/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rule = await prisma.routingRule.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!rule) {
+      throw new AppError('Routing rule not found', 404);
+    }
+
+    await prisma.routingRule.delete({
+      where: { id: req.params.id },
+    });
+
+    res.json({ success: true, message: 'Routing rule deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview which member a ticket would be routed to, without assigning it
+router.get('/preview/:ticketId', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: req.params.ticketId, organizationId: req.organizationId },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const decision = await routingService.selectAgent(ticket.id, 'preview');
+
+    res.json(decision);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Route (or re-route) a ticket now using the current rules
+router.post('/route/:ticketId', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: req.params.ticketId, organizationId: req.organizationId },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const decision = await routingService.selectAgent(ticket.id, 'manual');
+    if (!decision) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    await routingService.applyDecision(ticket.id, decision);
+
+    res.json(decision);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
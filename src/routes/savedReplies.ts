@@ -0,0 +1,252 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { attachOrganization } from '../middleware/organization';
+import { AuthRequest } from '../types';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import savedReplyService from '../services/savedReplyService';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(attachOrganization);
+
+const STATUSES = ['open', 'in_progress', 'closed'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const MAX_BATCH_SIZE = 100;
+
+const isStringList = (value: any) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const validateActions = (actions: any) => {
+  if (actions === undefined) return;
+
+  if (typeof actions !== 'object' || actions === null || Array.isArray(actions)) {
+    throw new AppError('actions must be an object', 400);
+  }
+
+  if (actions.status !== undefined && !STATUSES.includes(actions.status)) {
+    throw new AppError(`Invalid status. Must be one of: ${STATUSES.join(', ')}`, 400);
+  }
+
+  if (actions.priority !== undefined && !PRIORITIES.includes(actions.priority)) {
+    throw new AppError(`Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`, 400);
+  }
+
+  if (actions.addTags !== undefined && !isStringList(actions.addTags)) {
+    throw new AppError('addTags must be a list of strings', 400);
+  }
+
+  if (actions.removeTags !== undefined && !isStringList(actions.removeTags)) {
+    throw new AppError('removeTags must be a list of strings', 400);
+  }
+
+  if (actions.assignTo !== undefined && actions.assignTo !== null && typeof actions.assignTo !== 'string') {
+    throw new AppError('assignTo must be a user ID, "me" or null', 400);
+  }
+};
+
+// A macro may only assign tickets to an active member of the organization
+const assertAssignable = async (req: AuthRequest, actions: any) => {
+  const assignTo = actions?.assignTo;
+  if (!assignTo || assignTo === 'me') return;
+
+  if (!(await savedReplyService.isActiveMember(req.organizationId!, assignTo))) {
+    throw new AppError('assignTo must be an active member of the organization', 400);
+  }
+};
+
+// Find a saved reply visible to the current user (org-wide or their own)
+const findVisibleReply = async (req: AuthRequest) => {
+  const savedReply = await prisma.savedReply.findFirst({
+    where: {
+      id: req.params.id,
+      organizationId: req.organizationId,
+      OR: [{ userId: null }, { userId: req.userId }],
+    },
+  });
+
+  if (!savedReply) {
+    throw new AppError('Saved reply not found', 404);
+  }
+
+  return savedReply;
+};
+
+// Org-wide replies are managed by admins, personal replies by their owner
+const assertCanManage = (req: AuthRequest, savedReply: { userId: string | null }) => {
+  if (savedReply.userId === null && req.userRole !== 'admin') {
+    throw new AppError('Admin access required to manage organization replies', 403);
+  }
+};
+
+// Get saved replies and macros visible to the current user
+router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { scope, search } = req.query;
+
+    const where: any = {
+      organizationId: req.organizationId,
+      OR: [{ userId: null }, { userId: req.userId }],
+    };
+
+    if (scope === 'organization') where.OR = [{ userId: null }];
+    if (scope === 'personal') where.OR = [{ userId: req.userId }];
+
+    if (search) {
+      where.AND = [
+        {
+          OR: [
+            { name: { contains: String(search), mode: 'insensitive' } },
+            { shortcut: { contains: String(search), mode: 'insensitive' } },
+            { content: { contains: String(search), mode: 'insensitive' } },
+          ],
+        },
+      ];
+    }
+
+    const savedReplies = await prisma.savedReply.findMany({
+      where,
+      orderBy: [{ usageCount: 'desc' }, { name: 'asc' }],
+    });
+
+    res.json(savedReplies);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create saved reply or macro
+router.post('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, shortcut, content, actions, scope } = req.body;
+
+    if (!name || (!content && !actions)) {
+      throw new AppError('name and either content or actions are required', 400);
+    }
+
+    validateActions(actions);
+    await assertAssignable(req, actions);
+
+    const isOrganizationWide = scope === 'organization';
+    if (isOrganizationWide && req.userRole !== 'admin') {
+      throw new AppError('Admin access required to create organization replies', 403);
+    }
+
+    const savedReply = await prisma.savedReply.create({
+      data: {
+        organizationId: req.organizationId!,
+        userId: isOrganizationWide ? null : req.userId!,
+        createdBy: req.userId!,
+        name,
+        shortcut: shortcut || null,
+        content: content || '',
+        actions: actions || {},
+      },
+    });
+
+    res.status(201).json(savedReply);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update saved reply or macro
+router.patch('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, shortcut, content, actions } = req.body;
+
+    const savedReply = await findVisibleReply(req);
+    assertCanManage(req, savedReply);
+    validateActions(actions);
+    await assertAssignable(req, actions);
+
+    const updated = await prisma.savedReply.update({
+      where: { id: savedReply.id },
+      data: {
+        ...(name && { name }),
+        ...(shortcut !== undefined && { shortcut: shortcut || null }),
+        ...(content !== undefined && { content }),
+        ...(actions !== undefined && { actions }),
+      },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete saved reply or macro
+router.delete('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const savedReply = await findVisibleReply(req);
+    assertCanManage(req, savedReply);
+
+    await prisma.savedReply.delete({
+      where: { id: savedReply.id },
+    });
+
+    res.json({ success: true, message: 'Saved reply deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview a saved reply rendered for a ticket
+router.post('/:id/preview', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ticketId } = req.body;
+
+    const savedReply = await findVisibleReply(req);
+
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, organizationId: req.organizationId },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const content = await savedReplyService.renderForTicket(savedReply.content, ticket.id, req.userId!);
+
+    res.json({ content, actions: savedReply.actions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Apply a saved reply or macro to one or more tickets
+router.post('/:id/apply', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ticketIds } = req.body;
+
+    if (!isStringList(ticketIds) || ticketIds.length === 0) {
+      throw new AppError('ticketIds must be a non-empty list of ticket IDs', 400);
+    }
+
+    if (ticketIds.length > MAX_BATCH_SIZE) {
+      throw new AppError(`A macro can be applied to at most ${MAX_BATCH_SIZE} tickets at once`, 400);
+    }
+
+    const savedReply = await findVisibleReply(req);
+
+    const results = await savedReplyService.applyToTickets(
+      savedReply,
+      Array.from(new Set<string>(ticketIds)),
+      req.organizationId!,
+      req.userId!
+    );
+
+    res.json({
+      success: results.every((r) => r.success),
+      applied: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+      results,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,354 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { attachOrganization, requireAdmin } from '../middleware/organization';
+import { AuthRequest } from '../types';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(attachOrganization);
+
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const validateTargets = (firstResponseMinutes: any, resolutionMinutes: any) => {
+  for (const [field, value] of Object.entries({ firstResponseMinutes, resolutionMinutes })) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new AppError(`${field} must be a positive integer`, 400);
+    }
+  }
+};
+
+const validateCalendar = (timezone: any, schedule: any, holidays: any) => {
+  if (timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new AppError(`Invalid timezone: ${timezone}`, 400);
+    }
+  }
+
+  if (schedule !== undefined) {
+    for (const [day, window] of Object.entries(schedule || {})) {
+      if (!WEEKDAYS.includes(day)) {
+        throw new AppError(`Invalid schedule day: ${day}`, 400);
+      }
+      if (window === null) continue;
+      const { start, end } = window as any;
+      if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start >= end) {
+        throw new AppError(`Invalid business hours for ${day}, expected { start: "HH:MM", end: "HH:MM" }`, 400);
+      }
+    }
+  }
+
+  if (holidays !== undefined && (!Array.isArray(holidays) || holidays.some((d: any) => !/^\d{4}-\d{2}-\d{2}$/.test(d)))) {
+    throw new AppError('holidays must be a list of YYYY-MM-DD dates', 400);
+  }
+};
+
+// Get SLA settings
+router.get('/settings', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+      select: { settings: true },
+    });
+
+    const slaSettings = (organization?.settings as any)?.sla || {
+      warningThresholdPercent: 80,
+    };
+
+    res.json(slaSettings);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update SLA settings
+router.patch('/settings', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { warningThresholdPercent } = req.body;
+
+    if (
+      warningThresholdPercent !== undefined &&
+      (typeof warningThresholdPercent !== 'number' || warningThresholdPercent <= 0 || warningThresholdPercent >= 100)
+    ) {
+      throw new AppError('warningThresholdPercent must be between 0 and 100', 400);
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.organizationId! },
+    });
+
+    if (!organization) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    const currentSettings = (organization.settings as any) || {};
+    const updatedSlaSettings = {
+      ...currentSettings.sla,
+      ...(warningThresholdPercent !== undefined && { warningThresholdPercent }),
+    };
+
+    await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: {
+        settings: {
+          ...currentSettings,
+          sla: updatedSlaSettings,
+        },
+      },
+    });
+
+    res.json(updatedSlaSettings);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get all SLA policies
+router.get('/policies', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const policies = await prisma.slaPolicy.findMany({
+      where: { organizationId: req.organizationId },
+      include: { calendar: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(policies);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create SLA policy
+router.post('/policies', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, priority, sourceType, firstResponseMinutes, resolutionMinutes, calendarId, isActive } = req.body;
+
+    if (!name || firstResponseMinutes === undefined || resolutionMinutes === undefined) {
+      throw new AppError('name, firstResponseMinutes and resolutionMinutes are required', 400);
+    }
+
+    if (priority && !PRIORITIES.includes(priority)) {
+      throw new AppError(`Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`, 400);
+    }
+
+    validateTargets(firstResponseMinutes, resolutionMinutes);
+
+    if (calendarId) {
+      const calendar = await prisma.businessCalendar.findFirst({
+        where: { id: calendarId, organizationId: req.organizationId },
+      });
+
+      if (!calendar) {
+        throw new AppError('Business calendar not found', 404);
+      }
+    }
+
+    const policy = await prisma.slaPolicy.create({
+      data: {
+        organizationId: req.organizationId!,
+        name,
+        priority: priority || null,
+        sourceType: sourceType ? String(sourceType).toLowerCase() : null,
+        firstResponseMinutes,
+        resolutionMinutes,
+        calendarId: calendarId || null,
+        isActive: isActive ?? true,
+      },
+      include: { calendar: true },
+    });
+
+    res.status(201).json(policy);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update SLA policy
+router.patch('/policies/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, priority, sourceType, firstResponseMinutes, resolutionMinutes, calendarId, isActive } = req.body;
+
+    const policy = await prisma.slaPolicy.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!policy) {
+      throw new AppError('SLA policy not found', 404);
+    }
+
+    if (priority && !PRIORITIES.includes(priority)) {
+      throw new AppError(`Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`, 400);
+    }
+
+    validateTargets(firstResponseMinutes, resolutionMinutes);
+
+    if (calendarId) {
+      const calendar = await prisma.businessCalendar.findFirst({
+        where: { id: calendarId, organizationId: req.organizationId },
+      });
+
+      if (!calendar) {
+        throw new AppError('Business calendar not found', 404);
+      }
+    }
+
+    // Changes apply to new tickets; existing tickets keep the deadlines they were given
+    const updated = await prisma.slaPolicy.update({
+      where: { id: req.params.id },
+      data: {
+        ...(name && { name }),
+        ...(priority !== undefined && { priority: priority || null }),
+        ...(sourceType !== undefined && { sourceType: sourceType ? String(sourceType).toLowerCase() : null }),
+        ...(firstResponseMinutes !== undefined && { firstResponseMinutes }),
+        ...(resolutionMinutes !== undefined && { resolutionMinutes }),
+        ...(calendarId !== undefined && { calendarId: calendarId || null }),
+        ...(isActive !== undefined && { isActive }),
+      },
+      include: { calendar: true },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete SLA policy
+router.delete('/policies/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const policy = await prisma.slaPolicy.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!policy) {
+      throw new AppError('SLA policy not found', 404);
+    }
+
+    // Detach tickets tracked by this policy before removing it
+    await prisma.ticket.updateMany({
+      where: { slaPolicyId: req.params.id },
+      data: {
+        slaPolicyId: null,
+        slaStatus: null,
+        slaDueAt: null,
+        firstResponseDueAt: null,
+        resolutionDueAt: null,
+      },
+    });
+
+    await prisma.slaPolicy.delete({
+      where: { id: req.params.id },
+    });
+
+    res.json({ success: true, message: 'SLA policy deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get all business-hours calendars
+router.get('/calendars', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calendars = await prisma.businessCalendar.findMany({
+      where: { organizationId: req.organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(calendars);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create business-hours calendar
+router.post('/calendars', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, timezone, schedule, holidays } = req.body;
+
+    if (!name || !schedule) {
+      throw new AppError('name and schedule are required', 400);
+    }
+
+    validateCalendar(timezone, schedule, holidays);
+
+    const calendar = await prisma.businessCalendar.create({
+      data: {
+        organizationId: req.organizationId!,
+        name,
+        timezone: timezone || 'UTC',
+        schedule,
+        holidays: holidays || [],
+      },
+    });
+
+    res.status(201).json(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update business-hours calendar
+router.patch('/calendars/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, timezone, schedule, holidays } = req.body;
+
+    const calendar = await prisma.businessCalendar.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!calendar) {
+      throw new AppError('Business calendar not found', 404);
+    }
+
+    validateCalendar(timezone, schedule, holidays);
+
+    const updated = await prisma.businessCalendar.update({
+      where: { id: req.params.id },
+      data: {
+        ...(name && { name }),
+        ...(timezone && { timezone }),
+        ...(schedule && { schedule }),
+        ...(holidays && { holidays }),
+      },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete business-hours calendar
+router.delete('/calendars/:id', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calendar = await prisma.businessCalendar.findFirst({
+      where: { id: req.params.id, organizationId: req.organizationId },
+    });
+
+    if (!calendar) {
+      throw new AppError('Business calendar not found', 404);
+    }
+
+    // Policies using this calendar fall back to 24/7 targets
+    await prisma.slaPolicy.updateMany({
+      where: { calendarId: req.params.id },
+      data: { calendarId: null },
+    });
+
+    await prisma.businessCalendar.delete({
+      where: { id: req.params.id },
+    });
+
+    res.json({ success: true, message: 'Business calendar deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -6,6 +6,8 @@ import { AuthRequest } from '../types';
 import prisma from '../config/database';
 import stripe from '../config/stripe';
 import { AppError } from '../middleware/errorHandler';
+import aiUsageService from '../services/aiUsageService';
+import meteringService from '../services/meteringService';
 
 const router = Router();
 
@@ -49,7 +51,14 @@ router.get('/current', async (req: AuthRequest, res: Response, next: NextFunctio
       throw new AppError('No subscription found', 404);
     }
 
-    res.json(organization.subscription);
+    const aiUsage = await aiUsageService.getUsageSummary(organization.id);
+    const usage = await meteringService.getUsageStatus(organization.id);
+
+    res.json({
+      ...organization.subscription,
+      usage,
+      aiUsage,
+    });
   } catch (error) {
     next(error);
   }
@@ -8,6 +8,12 @@ import logger from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
 import { sendResponseToSource } from '../services/channelRelay';
 import { broadcastTicketEvent } from '../services/broadcast';
+import { onTicketCreated, onAgentReply, onTicketMessage, onTicketHandoff } from '../services/ticketLifecycle';
+import { checkSubscriptionLimits } from '../middleware/rateLimit';
+import slaService, { SLA_STATUSES, SlaStatus } from '../services/slaService';
+import ticketSearchService from '../services/ticketSearchService';
+import ticketEmbeddingService from '../services/ticketEmbeddingService';
+import ticketSummaryService from '../services/ticketSummaryService';
 
 const router = Router();
 
@@ -18,7 +24,7 @@ router.use(attachOrganization);
 // Get all tickets for organization
 router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { status, priority, page = 1, limit = 20 } = req.query;
+    const { status, priority, slaStatus, sort, page = 1, limit = 20 } = req.query;
 
     const where: any = {
       organizationId: req.organizationId,
@@ -26,6 +32,18 @@ router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
 
     if (status) where.status = status;
     if (priority) where.priority = priority;
+    if (slaStatus) {
+      const requested = String(slaStatus).split(',') as SlaStatus[];
+      if (requested.some((s) => !SLA_STATUSES.includes(s))) {
+        throw new AppError(`Invalid slaStatus. Must be one of: ${SLA_STATUSES.join(', ')}`, 400);
+      }
+      where.slaStatus = { in: requested };
+    }
+
+    // sort=sla orders by the nearest pending SLA deadline (breached tickets first),
+    // sort=urgency by the classified urgency of the latest customer message
+    const sortBySla = sort === 'sla';
+    const sortByUrgency = sort === 'urgency';
 
     const tickets = await prisma.ticket.findMany({
       where,
@@ -35,7 +53,11 @@ router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
         },
         tags: true,
       },
-      orderBy: { updatedAt: 'desc' },
+      orderBy: sortBySla
+        ? [{ slaDueAt: { sort: 'asc', nulls: 'last' } }, { updatedAt: 'desc' }]
+        : sortByUrgency
+          ? [{ urgencyScore: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }]
+          : { updatedAt: 'desc' },
       skip: (Number(page) - 1) * Number(limit),
       take: Number(limit),
     });
@@ -59,12 +81,14 @@ router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
       };
     });
 
-    // Sort by unread status first, then by updatedAt
-    ticketsWithUnread.sort((a: any, b: any) => {
-      if (a.isUnread && !b.isUnread) return -1;
-      if (!a.isUnread && b.isUnread) return 1;
-      return b.updatedAt.getTime() - a.updatedAt.getTime();
-    });
+    // Sort by unread status first, then by updatedAt (unless an SLA or urgency sort was requested)
+    if (!sortBySla && !sortByUrgency) {
+      ticketsWithUnread.sort((a: any, b: any) => {
+        if (a.isUnread && !b.isUnread) return -1;
+        if (!a.isUnread && b.isUnread) return 1;
+        return b.updatedAt.getTime() - a.updatedAt.getTime();
+      });
+    }
 
     const total = await prisma.ticket.count({ where });
 
@@ -82,6 +106,47 @@ router.get('/', async (req: AuthRequest, res: Response, next: NextFunction) => {
   }
 });
 
+// Full-text and faceted ticket search
+router.get('/search', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { q, status, priority, source, assignedTo, tag, from, to, cursor, limit = 20 } = req.query;
+
+    const list = (value: any) => (value ? String(value).split(',').map((v) => v.trim()).filter(Boolean) : undefined);
+
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      throw new AppError('from and to must be valid dates', 400);
+    }
+
+    if (cursor && !ticketSearchService.decodeCursor(String(cursor))) {
+      throw new AppError('Invalid cursor', 400);
+    }
+
+    const result = await ticketSearchService.search(
+      req.organizationId!,
+      {
+        query: q ? String(q) : undefined,
+        statuses: list(status),
+        priorities: list(priority),
+        sources: list(source),
+        assignees: list(assignedTo),
+        tags: list(tag),
+        from: fromDate,
+        to: toDate,
+      },
+      {
+        cursor: cursor ? String(cursor) : undefined,
+        limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+      }
+    );
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single ticket
 router.get('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -106,6 +171,9 @@ router.get('/:id', async (req: AuthRequest, res: Response, next: NextFunction) =
           orderBy: { createdAt: 'asc' },
         },
         tags: true,
+        customer: {
+          include: { identities: true },
+        },
       },
     });
 
@@ -172,6 +240,8 @@ router.post('/', async (req: AuthRequest, res: Response, next: NextFunction) =>
       },
     });
 
+    await onTicketCreated(ticket.id);
+
     // Broadcast realtime event
     await broadcastTicketEvent(req.organizationId!, 'ticket_created', ticket.id);
 
@@ -278,6 +348,58 @@ router.post('/broadcast', async (req: AuthRequest, res: Response, next: NextFunc
   }
 });
 
+// Get previously resolved tickets similar to this one
+router.get('/:id/similar', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { limit = 5, minSimilarity = 0.5 } = req.query;
+
+    const ticket = await prisma.ticket.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const similar = await ticketEmbeddingService.findSimilar(ticket.id, req.organizationId!, {
+      limit: Math.min(Math.max(Number(limit) || 5, 1), 20),
+      minSimilarity: Number(minSimilarity) || 0,
+      withResolution: true,
+    });
+
+    res.json({ ticketId: ticket.id, similar });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Summarize the conversation into an internal note
+router.post('/:id/summary', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const ticket = await prisma.ticket.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.organizationId,
+      },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404);
+    }
+
+    const result = await ticketSummaryService.summarize(ticket.id, { trigger: 'manual', userId: req.userId });
+
+    res.status(result!.created ? 201 : 200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update ticket
 router.patch('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -304,6 +426,15 @@ router.patch('/:id', async (req: AuthRequest, res: Response, next: NextFunction)
       },
     });
 
+    // Priority changes pick a different policy; closing settles the SLA outcome
+    if ((priority && priority !== ticket.priority) || (status && status !== ticket.status)) {
+      await slaService.applyPolicy(updated.id);
+    }
+
+    if (assignedTo && assignedTo !== ticket.assignedTo) {
+      await onTicketHandoff(updated.id, { trigger: 'reassigned' });
+    }
+
     res.json(updated);
   } catch (error) {
     next(error);
@@ -311,7 +442,7 @@ router.patch('/:id', async (req: AuthRequest, res: Response, next: NextFunction)
 });
 
 // Add message to ticket
-router.post('/:id/messages', async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/:id/messages', checkSubscriptionLimits('messages'), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { content, isInternal } = req.body;
 
@@ -346,11 +477,15 @@ router.post('/:id/messages', async (req: AuthRequest, res: Response, next: NextF
       },
     });
 
+    await onTicketMessage(req.params.id, { senderType: 'agent' });
+
     // Send non-internal agent replies back to the source platform (Slack, etc.)
     if (!isInternal) {
       sendResponseToSource(req.params.id, content, req.userId).catch((err) => {
         console.error('Failed to relay message to source:', err);
       });
+
+      await onAgentReply(req.params.id);
     }
 
     // Broadcast realtime event so other dashboard viewers see the new message
@@ -378,6 +513,10 @@ router.delete('/:id', async (req: AuthRequest, res: Response, next: NextFunction
       throw new AppError('Ticket not found', 404);
     }
 
+    if (ticket.legalHold) {
+      throw new AppError('Ticket is under legal hold and cannot be deleted', 409);
+    }
+
     // Delete all messages first (cascade delete)
     await prisma.ticketMessage.deleteMany({
       where: { ticketId: req.params.id },
@@ -15,6 +15,8 @@ import { validateSetupCode } from '../services/telegramSetup';
 import { encryptObject } from '../services/encryption';
 import { isOrganizationMember } from '../services/teamMemberFilter';
 import { broadcastTicketEvent } from '../services/broadcast';
+import { onTicketCreated, onTicketMessage } from '../services/ticketLifecycle';
+import meteringService from '../services/meteringService';
 
 const router = Router();
 
@@ -181,6 +183,7 @@ router.post('/slack', async (req: Request, res: Response) => {
             metadata: { slackMessageTs: event.ts },
           },
         });
+        await onTicketMessage(existingTicket.id, { senderType: 'customer' });
 
         // Update ticket metadata with latest message ts so replies target the newest thread
         const existingMeta = (existingTicket.metadata as any) || {};
@@ -240,6 +243,8 @@ router.post('/slack', async (req: Request, res: Response) => {
         });
         console.log('[SLACK] ✅ Ticket created:', ticket.id);
 
+        await onTicketCreated(ticket.id);
+
         // Broadcast realtime event for dashboard
         await broadcastTicketEvent(sourceConnection.organizationId, 'ticket_created', ticket.id);
 
@@ -354,6 +359,8 @@ router.post('/telegram', async (req: Request, res: Response) => {
         },
       });
 
+      await meteringService.increment(organizationId, 'channels');
+
       // Set webhook (idempotent — safe to call even if already set)
       const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || process.env.FRONTEND_URL?.replace('3000', '4001') || 'http://localhost:4001';
       logger.info(`Setting Telegram webhook to ${webhookBaseUrl}/api/integrations/webhooks/telegram`);
@@ -444,6 +451,7 @@ router.post('/telegram', async (req: Request, res: Response) => {
           metadata: { telegramMessageId: message.message_id.toString() },
         },
       });
+      await onTicketMessage(existingTicket.id, { senderType: 'customer' });
 
       const existingMeta = (existingTicket.metadata as any) || {};
       await prisma.ticket.update({
@@ -499,6 +507,8 @@ router.post('/telegram', async (req: Request, res: Response) => {
         },
       });
 
+      await onTicketCreated(ticket.id);
+
       await broadcastTicketEvent(sourceConnection.organizationId, 'ticket_created', ticket.id);
 
       // Trigger autonomous AI processing if enabled
@@ -573,6 +583,10 @@ router.post('/whatsapp', async (req: Request, res: Response) => {
           },
         },
       });
+
+      await onTicketCreated(ticket.id, {
+        identities: [{ type: 'phone', value: From.replace('whatsapp:', '') }],
+      });
     }
 
     res.status(200).send('OK');
@@ -709,6 +723,7 @@ router.post('/gmail', async (req: Request, res: Response) => {
               content: email.body,
             },
           });
+          await onTicketMessage(existingTicket.id, { senderType: 'customer' });
 
           // Bump updatedAt
           await prisma.ticket.update({
@@ -765,6 +780,8 @@ router.post('/gmail', async (req: Request, res: Response) => {
             },
           });
 
+          await onTicketCreated(ticket.id);
+
           // Trigger AI processing if enabled
           const organization = await prisma.organization.findUnique({
             where: { id: sourceConnection.organizationId },
@@ -961,6 +978,10 @@ router.post('/instagram', async (req: Request, res: Response) => {
                 },
               },
             });
+
+            await onTicketCreated(ticket.id, {
+              identities: [{ type: 'instagram', value: message.sender.id }],
+            });
           }
         }
 
@@ -986,6 +1007,13 @@ router.post('/instagram', async (req: Request, res: Response) => {
                   },
                 },
               });
+
+              // Keyed by the user ID like DMs so the same person links across both
+              await onTicketCreated(ticket.id, {
+                identities: commentData.from?.id
+                  ? [{ type: 'instagram', value: String(commentData.from.id) }]
+                  : [],
+              });
             }
           }
         }
@@ -1070,6 +1098,10 @@ router.post('/x', async (req: Request, res: Response) => {
               },
             },
           });
+
+          await onTicketCreated(ticket.id, {
+            identities: [{ type: 'x', value: dm.message_create.sender_id }],
+          });
         }
       }
     }
@@ -1095,6 +1127,10 @@ router.post('/x', async (req: Request, res: Response) => {
               },
             },
           });
+
+          await onTicketCreated(ticket.id, {
+            identities: [{ type: 'x', value: tweet.user.id_str }],
+          });
         }
       }
     }
@@ -1141,6 +1177,10 @@ router.post('/teams', async (req: Request, res: Response) => {
             },
           },
         });
+
+        await onTicketCreated(ticket.id, {
+          identities: [{ type: 'teams', value: from.aadObjectId || from.id }],
+        });
       }
     }
 
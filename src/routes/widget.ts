@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import prisma from '../config/database';
 import { authenticate } from '../middleware/auth';
 import { AuthRequest } from '../types';
+import { onTicketCreated, onAgentReply, onTicketMessage } from '../services/ticketLifecycle';
 
 const router = Router();
 
@@ -214,6 +215,8 @@ router.post('/message', async (req: Request, res: Response) => {
           content,
         },
       });
+
+      await onTicketCreated(ticket.id);
     } else if (session.ticketId) {
       // Add message to existing ticket
       await prisma.ticketMessage.create({
@@ -223,6 +226,11 @@ router.post('/message', async (req: Request, res: Response) => {
           content,
         },
       });
+      await onTicketMessage(session.ticketId, { senderType });
+
+      if (senderType === 'agent') {
+        await onAgentReply(session.ticketId);
+      }
     }
 
     res.json(message);
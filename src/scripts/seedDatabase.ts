@@ -29,6 +29,8 @@ async function seedDatabase() {
           features: {
             support: 'email',
             analytics: 'basic',
+            ai_monthly_token_budget: 1000000,
+            ai_monthly_cost_budget: 10,
           },
         },
         {
@@ -45,6 +47,8 @@ async function seedDatabase() {
             analytics: 'advanced',
             custom_branding: true,
             api_access: true,
+            ai_monthly_token_budget: 5000000,
+            ai_monthly_cost_budget: 50,
           },
         },
         {
@@ -64,6 +68,8 @@ async function seedDatabase() {
             white_label: true,
             sso: true,
             dedicated_manager: true,
+            ai_monthly_token_budget: -1,
+            ai_monthly_cost_budget: -1,
           },
         },
       ],
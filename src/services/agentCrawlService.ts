@@ -0,0 +1,332 @@
+/**
+ * Agent Crawl Service
+ *
+ * Keeps an agent's knowledge base in sync with a website. Each crawl stores
+ * every page it finds as a 'webpage' agent source keyed by its URL; pages
+ * whose content hash is unchanged are left alone, changed pages are
+ * re-trained (which re-embeds only the chunks that changed), and pages that
+ * are gone from the site are removed. Crawls with a re-crawl interval are run
+ * on a schedule by the crawl queue.
+ */
+
+import crypto from 'crypto';
+import { AgentCrawl, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { crawlQueue } from '../config/queue';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import agentTrainingService from './agentTrainingService';
+import { crawlWebsite, CrawlOptions, CrawlReport, normalizeUrl } from './websiteCrawler';
+
+export type CrawlSettings = CrawlOptions;
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+  maxDepth: 3,
+  maxPages: 200,
+  include: [],
+  exclude: [],
+  useSitemap: true,
+};
+
+export const MAX_CRAWL_DEPTH = 10;
+export const MAX_CRAWL_PAGES = 2000;
+export const MIN_RECRAWL_INTERVAL_HOURS = 1;
+export const MAX_RECRAWL_INTERVAL_HOURS = 24 * 30;
+
+// A run still marked running after this long is assumed to have died with its worker
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+export const WEBPAGE_SOURCE_TYPE = 'webpage';
+
+export interface CrawlRunResult {
+  pages: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  embeddedChunks: number;
+  sitemapUrls: number;
+  truncated: boolean;
+  skipped: CrawlReport['skipped'];
+  failed: CrawlReport['failed'];
+}
+
+// Keep the stored result small for sites with many skipped URLs
+const MAX_REPORTED_URLS = 100;
+
+const pageSourceId = (url: string): string =>
+  `page_${crypto.createHash('sha256').update(url).digest('hex').slice(0, 32)}`;
+
+const repeatOptions = (crawl: Pick<AgentCrawl, 'id' | 'recrawlIntervalHours'>) => ({
+  every: crawl.recrawlIntervalHours! * 60 * 60 * 1000,
+  jobId: `agent-crawl-${crawl.id}`,
+});
+
+export class AgentCrawlService {
+  resolveSettings(stored: unknown): CrawlSettings {
+    return { ...DEFAULT_CRAWL_SETTINGS, ...((stored as Partial<CrawlSettings>) || {}) };
+  }
+
+  /**
+   * Validate crawl settings from a request body. Throws a 400 for bad values.
+   */
+  validateSettings(input: Record<string, any>): Partial<CrawlSettings> {
+    const settings: Partial<CrawlSettings> = {};
+
+    if (input.maxDepth !== undefined) {
+      if (!Number.isInteger(input.maxDepth) || input.maxDepth < 0 || input.maxDepth > MAX_CRAWL_DEPTH) {
+        throw new AppError(`maxDepth must be an integer between 0 and ${MAX_CRAWL_DEPTH}`, 400);
+      }
+      settings.maxDepth = input.maxDepth;
+    }
+
+    if (input.maxPages !== undefined) {
+      if (!Number.isInteger(input.maxPages) || input.maxPages < 1 || input.maxPages > MAX_CRAWL_PAGES) {
+        throw new AppError(`maxPages must be an integer between 1 and ${MAX_CRAWL_PAGES}`, 400);
+      }
+      settings.maxPages = input.maxPages;
+    }
+
+    for (const key of ['include', 'exclude'] as const) {
+      if (input[key] !== undefined) {
+        if (!Array.isArray(input[key]) || input[key].some((pattern: unknown) => typeof pattern !== 'string' || !pattern)) {
+          throw new AppError(`${key} must be an array of URL path patterns`, 400);
+        }
+        settings[key] = input[key];
+      }
+    }
+
+    if (input.useSitemap !== undefined) {
+      if (typeof input.useSitemap !== 'boolean') {
+        throw new AppError('useSitemap must be a boolean', 400);
+      }
+      settings.useSitemap = input.useSitemap;
+    }
+
+    return settings;
+  }
+
+  validateStartUrl(startUrl: unknown): string {
+    const url = typeof startUrl === 'string' ? normalizeUrl(startUrl) : null;
+    if (!url) {
+      throw new AppError('startUrl must be an http(s) URL', 400);
+    }
+    return url;
+  }
+
+  validateInterval(hours: unknown): number | null {
+    if (hours === null) return null;
+    if (
+      !Number.isInteger(hours) ||
+      (hours as number) < MIN_RECRAWL_INTERVAL_HOURS ||
+      (hours as number) > MAX_RECRAWL_INTERVAL_HOURS
+    ) {
+      throw new AppError(
+        `recrawlIntervalHours must be null or an integer between ${MIN_RECRAWL_INTERVAL_HOURS} and ${MAX_RECRAWL_INTERVAL_HOURS}`,
+        400
+      );
+    }
+    return hours as number;
+  }
+
+  /**
+   * Queue a run now
+   */
+  async enqueue(crawlId: string) {
+    return crawlQueue.add({ crawlId });
+  }
+
+  /**
+   * Register (or replace) the repeating job for a crawl's re-crawl interval
+   */
+  async schedule(crawl: AgentCrawl, previousIntervalHours?: number | null): Promise<void> {
+    if (previousIntervalHours) {
+      await crawlQueue.removeRepeatable(repeatOptions({ id: crawl.id, recrawlIntervalHours: previousIntervalHours }));
+    }
+
+    if (crawl.recrawlIntervalHours) {
+      await crawlQueue.add({ crawlId: crawl.id }, { repeat: repeatOptions(crawl) });
+    }
+  }
+
+  async unschedule(crawl: AgentCrawl): Promise<void> {
+    if (crawl.recrawlIntervalHours) {
+      await crawlQueue.removeRepeatable(repeatOptions(crawl));
+    }
+  }
+
+  /**
+   * Delete a crawl together with the pages it stored
+   */
+  async remove(crawl: AgentCrawl): Promise<number> {
+    await this.unschedule(crawl);
+
+    const { count } = await prisma.agentSource.deleteMany({
+      where: {
+        agentId: crawl.agentId,
+        sourceType: WEBPAGE_SOURCE_TYPE,
+        metadata: { path: ['crawlId'], equals: crawl.id },
+      },
+    });
+
+    await prisma.agentCrawl.delete({ where: { id: crawl.id } });
+
+    return count;
+  }
+
+  /**
+   * Crawl the site and bring the agent's pages in line with it. Returns null
+   * when the crawl is already running or no longer exists.
+   */
+  async run(crawlId: string): Promise<CrawlRunResult | null> {
+    // Claim the crawl so overlapping scheduled and manual runs do not both execute
+    const claimed = await prisma.agentCrawl.updateMany({
+      where: {
+        id: crawlId,
+        OR: [{ status: { not: 'running' } }, { updatedAt: { lt: new Date(Date.now() - STALE_RUN_MS) } }],
+      },
+      data: { status: 'running', error: null },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const crawl = await prisma.agentCrawl.findUniqueOrThrow({ where: { id: crawlId } });
+
+    try {
+      const result = await this.crawl(crawl);
+
+      await prisma.agentCrawl.update({
+        where: { id: crawl.id },
+        data: {
+          status: 'completed',
+          lastRunAt: new Date(),
+          lastResult: {
+            ...result,
+            skipped: result.skipped.slice(0, MAX_REPORTED_URLS),
+            failed: result.failed.slice(0, MAX_REPORTED_URLS),
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return result;
+    } catch (error) {
+      await prisma.agentCrawl.update({
+        where: { id: crawl.id },
+        data: {
+          status: 'failed',
+          lastRunAt: new Date(),
+          error: error instanceof Error ? error.message : 'Crawl failed',
+        },
+      });
+      throw error;
+    }
+  }
+
+  private async crawl(crawl: AgentCrawl): Promise<CrawlRunResult> {
+    const settings = this.resolveSettings(crawl.settings);
+    const result: CrawlRunResult = {
+      pages: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      embeddedChunks: 0,
+      sitemapUrls: 0,
+      truncated: false,
+      skipped: [],
+      failed: [],
+    };
+
+    const report = await crawlWebsite(crawl.startUrl, settings, async (page) => {
+      const sourceId = pageSourceId(page.url);
+      const metadata = {
+        url: page.url,
+        title: page.title,
+        format: page.format,
+        depth: page.depth,
+        contentHash: page.hash,
+        crawlId: crawl.id,
+        crawledAt: new Date().toISOString(),
+      };
+
+      const existing = await prisma.agentSource.findFirst({
+        where: { agentId: crawl.agentId, sourceType: WEBPAGE_SOURCE_TYPE, sourceId },
+      });
+
+      if (existing && (existing.metadata as any)?.contentHash === page.hash) {
+        result.unchanged++;
+        return;
+      }
+
+      // The hash is only recorded once training succeeds, so a failed run retries the page
+      const { contentHash, ...pending } = metadata;
+      const source = existing
+        ? await prisma.agentSource.update({
+            where: { id: existing.id },
+            data: { content: page.markdown, metadata: pending },
+          })
+        : await prisma.agentSource.create({
+            data: {
+              agentId: crawl.agentId,
+              sourceType: WEBPAGE_SOURCE_TYPE,
+              sourceId,
+              content: page.markdown,
+              metadata: pending,
+            },
+          });
+
+      const training = await agentTrainingService.trainSource(crawl.organizationId, crawl.agentId, source, {
+        document: page.markdown,
+      });
+
+      await prisma.agentSource.update({
+        where: { id: source.id },
+        data: { metadata: { ...pending, contentHash } },
+      });
+
+      result.embeddedChunks += training.embedded;
+      if (existing) {
+        result.updated++;
+      } else {
+        result.created++;
+      }
+    });
+
+    // Pages that could not be fetched this time are kept; anything else not found is gone.
+    // A crawl cut short by maxPages did not see the whole site, so nothing is removed.
+    const keep = new Set([...report.pages, ...report.failed.map((failure) => failure.url)].map(pageSourceId));
+
+    if (!report.truncated) {
+      const stored = await prisma.agentSource.findMany({
+        where: {
+          agentId: crawl.agentId,
+          sourceType: WEBPAGE_SOURCE_TYPE,
+          metadata: { path: ['crawlId'], equals: crawl.id },
+        },
+        select: { id: true, sourceId: true },
+      });
+
+      const gone = stored.filter((source) => !keep.has(source.sourceId));
+      if (gone.length > 0) {
+        await prisma.agentSource.deleteMany({ where: { id: { in: gone.map((source) => source.id) } } });
+      }
+      result.removed = gone.length;
+    }
+
+    result.pages = report.pages.length;
+    result.sitemapUrls = report.sitemapUrls;
+    result.truncated = report.truncated;
+    result.skipped = report.skipped;
+    result.failed = report.failed;
+
+    logger.info(
+      `Crawl ${crawl.id} of ${crawl.startUrl}: ${result.pages} pages (${result.created} new, ${result.updated} changed, ${result.unchanged} unchanged), ${result.removed} removed`
+    );
+
+    return result;
+  }
+}
+
+export default new AgentCrawlService();
@@ -0,0 +1,628 @@
+/**
+ * Agent Evaluation Service
+ *
+ * Runs an agent's golden question/answer suite through the same retrieval,
+ * prompt and grounding steps as agent chat, answering with the
+ * organization's compliance provider chain so a suite also runs offline
+ * against a local model. Each answer is scored three ways:
+ *
+ * - facts: the share of expected facts (numbers, codes, quoted phrases or
+ *   phrases listed on the case) that appear in the answer
+ * - judge: an LLM-as-judge rating of the answer against the expected answer
+ * - citations: whether every source the case must cite was cited
+ *
+ * Runs snapshot the agent version, system prompt and settings they used, so
+ * two runs of a suite can be compared case by case after a prompt change.
+ */
+
+import crypto from 'crypto';
+import { AgentEvalCase, AgentEvalResult, AgentEvalRun, AiAgent, AiAgentVersion, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { evaluationQueue } from '../config/queue';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { AIProvider, AIResponse, createComplianceProvider, getProviderChain } from './aiProviders';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import geminiService from './geminiService';
+import groundingService, { Citation } from './groundingService';
+import knowledgeBaseService, { RetrievalSettings } from './knowledgeBaseService';
+
+export interface EvalCaseInput {
+  question: string;
+  expectedAnswer: string;
+  expectedFacts?: string[];
+  mustCiteSourceIds?: string[];
+}
+
+export interface EvalRunConfig {
+  label: string | null;
+  agentVersionId: string | null; // null for a draft prompt that is not saved as a version
+  systemPrompt: string;
+  promptHash: string; // identifies the prompt version across runs
+  temperature: number;
+  retrievalSettings: RetrievalSettings;
+}
+
+export interface EvalRunSummary {
+  cases: number;
+  passed: number;
+  errors: number;
+  passRate: number;
+  avgFactScore: number | null;
+  avgJudgeScore: number | null;
+  citationHitRate: number | null; // over cases that must cite a source
+  avgGroundingScore: number | null;
+  avgLatencyMs: number | null;
+  totalTokens: number;
+}
+
+export interface EvalCaseComparison {
+  caseId: string;
+  question: string;
+  base: Pick<AgentEvalResult, 'passed' | 'factScore' | 'judgeScore' | 'citationHit' | 'answer'> | null;
+  candidate: Pick<AgentEvalResult, 'passed' | 'factScore' | 'judgeScore' | 'citationHit' | 'answer'> | null;
+  change: 'improved' | 'regressed' | 'unchanged';
+}
+
+interface FactScore {
+  score: number | null; // null when the case has no facts to check
+  found: string[];
+  missing: string[];
+}
+
+interface JudgeVerdict {
+  score: number | null; // 0-1, null when the judge's reply could not be read
+  reason: string | null;
+}
+
+const MAX_QUESTION_LENGTH = 2000;
+const MAX_EXPECTED_ANSWER_LENGTH = 5000;
+const MAX_FACTS = 20;
+export const MAX_CASES_PER_SUITE = 200;
+
+// A case passes with every fact present, every required source cited and a judge score of at least this
+const PASS_JUDGE_SCORE = 0.75;
+
+// Numbers, amounts, percentages and codes such as "ERR-504" or "v2.1"
+const FACT_TOKEN = /[$€£]?[\p{L}\p{N}]+(?:[-_.:/,][\p{L}\p{N}]+)*%?/gu;
+const QUOTED_PHRASE = /["“]([^"”]{2,80})["”]/g;
+const CITATION_MARKER = /\s?\[\d+(?:\s*,\s*\d+)*\]/g;
+
+const normalize = (text: string): string =>
+  text.replace(CITATION_MARKER, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const average = (values: (number | null)[]): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+const parseJson = (content: string): any => {
+  const text = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+
+export class AgentEvaluationService {
+  /**
+   * Validate a case from a request body. With partial set only the given fields are checked.
+   */
+  validateCase(input: Record<string, any>, partial = false): Partial<EvalCaseInput> {
+    const data: Partial<EvalCaseInput> = {};
+
+    if (input.question !== undefined || !partial) {
+      if (typeof input.question !== 'string' || !input.question.trim() || input.question.length > MAX_QUESTION_LENGTH) {
+        throw new AppError(`question is required and must be at most ${MAX_QUESTION_LENGTH} characters`, 400);
+      }
+      data.question = input.question.trim();
+    }
+
+    if (input.expectedAnswer !== undefined || !partial) {
+      if (
+        typeof input.expectedAnswer !== 'string' ||
+        !input.expectedAnswer.trim() ||
+        input.expectedAnswer.length > MAX_EXPECTED_ANSWER_LENGTH
+      ) {
+        throw new AppError(
+          `expectedAnswer is required and must be at most ${MAX_EXPECTED_ANSWER_LENGTH} characters`,
+          400
+        );
+      }
+      data.expectedAnswer = input.expectedAnswer.trim();
+    }
+
+    if (input.expectedFacts !== undefined) {
+      if (!isStringArray(input.expectedFacts) || input.expectedFacts.length > MAX_FACTS) {
+        throw new AppError(`expectedFacts must be an array of at most ${MAX_FACTS} non-empty strings`, 400);
+      }
+      data.expectedFacts = input.expectedFacts.map((fact) => fact.trim());
+    }
+
+    if (input.mustCiteSourceIds !== undefined) {
+      if (!isStringArray(input.mustCiteSourceIds)) {
+        throw new AppError('mustCiteSourceIds must be an array of agent source ids', 400);
+      }
+      data.mustCiteSourceIds = Array.from(new Set(input.mustCiteSourceIds));
+    }
+
+    return data;
+  }
+
+  /**
+   * Throw a 400 when a required source is not one of the agent's sources
+   */
+  async assertSourcesBelongToAgent(agentId: string, sourceIds: string[]): Promise<void> {
+    if (sourceIds.length === 0) return;
+
+    const found = await prisma.agentSource.count({ where: { agentId, id: { in: sourceIds } } });
+    if (found !== sourceIds.length) {
+      throw new AppError('mustCiteSourceIds contains sources that do not belong to this agent', 400);
+    }
+  }
+
+  /**
+   * Facts to check for a case: the ones listed on it, or the numbers, codes
+   * and quoted phrases of the expected answer
+   */
+  factsFor(evalCase: Pick<AgentEvalCase, 'expectedAnswer' | 'expectedFacts'>): string[] {
+    const listed = (evalCase.expectedFacts as string[] | null) || [];
+    if (listed.length > 0) return listed;
+
+    const quoted = Array.from(evalCase.expectedAnswer.matchAll(QUOTED_PHRASE), (match) => match[1].trim());
+    const tokens = (evalCase.expectedAnswer.match(FACT_TOKEN) || []).filter((token) => /\p{N}/u.test(token));
+
+    return Array.from(new Set([...quoted, ...tokens].filter(Boolean))).slice(0, MAX_FACTS);
+  }
+
+  /**
+   * Share of facts found in the answer. Facts match case-insensitively on
+   * word boundaries, so "5 days" is not found in "15 days".
+   */
+  scoreFacts(answer: string, facts: string[]): FactScore {
+    if (facts.length === 0) {
+      return { score: null, found: [], missing: [] };
+    }
+
+    const text = normalize(answer);
+    const found: string[] = [];
+    const missing: string[] = [];
+
+    for (const fact of facts) {
+      const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(normalize(fact))}($|[^\\p{L}\\p{N}])`, 'u');
+      (pattern.test(text) ? found : missing).push(fact);
+    }
+
+    return { score: found.length / facts.length, found, missing };
+  }
+
+  /**
+   * Whether every required source was cited; null when the case requires none
+   */
+  citationHit(citations: Citation[], mustCiteSourceIds: string[]): boolean | null {
+    if (mustCiteSourceIds.length === 0) return null;
+
+    const cited = new Set(citations.map((citation) => citation.sourceId));
+    return mustCiteSourceIds.every((sourceId) => cited.has(sourceId));
+  }
+
+  /**
+   * Snapshot of what a run evaluates: the agent's published configuration, a
+   * saved version, or a draft prompt to try before saving it
+   */
+  buildRunConfig(
+    agent: AiAgent,
+    options: { systemPrompt?: string; label?: string; version?: AiAgentVersion } = {}
+  ): EvalRunConfig {
+    const source = options.version ?? agent;
+    const systemPrompt = options.systemPrompt ?? source.systemPrompt;
+    const versionId = options.version?.id ?? agent.publishedVersionId;
+
+    return {
+      label: options.label ?? null,
+      agentVersionId: options.systemPrompt === undefined ? versionId : null,
+      systemPrompt,
+      promptHash: crypto.createHash('sha256').update(systemPrompt).digest('hex').slice(0, 12),
+      temperature: source.temperature,
+      retrievalSettings: knowledgeBaseService.resolveSettings(source.retrievalSettings),
+    };
+  }
+
+  /**
+   * Create a run for a suite and queue it
+   */
+  async startRun(
+    agent: AiAgent,
+    suiteId: string,
+    options: { systemPrompt?: string; label?: string; version?: AiAgentVersion; userId?: string } = {}
+  ): Promise<AgentEvalRun> {
+    const cases = await prisma.agentEvalCase.count({ where: { suiteId } });
+    if (cases === 0) {
+      throw new AppError('Add at least one case to the suite before running it', 400);
+    }
+
+    await aiUsageService.assertWithinBudget(agent.organizationId);
+
+    const run = await prisma.agentEvalRun.create({
+      data: {
+        organizationId: agent.organizationId,
+        suiteId,
+        agentId: agent.id,
+        config: this.buildRunConfig(agent, options) as unknown as Prisma.InputJsonValue,
+        triggeredBy: options.userId,
+      },
+    });
+
+    await evaluationQueue.add({ runId: run.id });
+
+    return run;
+  }
+
+  /**
+   * Answer and score every case of a queued run. Returns null when the run
+   * was already picked up or no longer exists.
+   */
+  async run(runId: string): Promise<EvalRunSummary | null> {
+    const claimed = await prisma.agentEvalRun.updateMany({
+      where: { id: runId, status: 'queued' },
+      data: { status: 'running', startedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const run = await prisma.agentEvalRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: { suite: { include: { cases: { orderBy: { createdAt: 'asc' } } } } },
+    });
+
+    try {
+      const agent = await prisma.aiAgent.findUniqueOrThrow({ where: { id: run.agentId } });
+      const organization = await prisma.organization.findUnique({
+        where: { id: run.organizationId },
+        select: { settings: true },
+      });
+      const compliance = (organization?.settings as any)?.compliance;
+      const config = run.config as unknown as EvalRunConfig;
+
+      const results: AgentEvalResult[] = [];
+      for (const evalCase of run.suite.cases) {
+        results.push(await this.evaluateCase(run, agent, evalCase, config, compliance));
+      }
+
+      const summary = this.summarize(results);
+
+      await prisma.agentEvalRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'completed',
+          completedAt: new Date(),
+          summary: summary as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      logger.info(
+        `Evaluation run ${run.id} of suite ${run.suiteId}: ${summary.passed}/${summary.cases} passed, ${summary.errors} errors`
+      );
+
+      return summary;
+    } catch (error) {
+      await prisma.agentEvalRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          completedAt: new Date(),
+          error: error instanceof Error ? error.message : 'Evaluation failed',
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Averages over a run's results. Cases that errored count as failed and
+   * are left out of the score averages.
+   */
+  summarize(results: Pick<
+    AgentEvalResult,
+    'passed' | 'error' | 'factScore' | 'judgeScore' | 'citationHit' | 'grounding' | 'details'
+  >[]): EvalRunSummary {
+    const scored = results.filter((result) => !result.error);
+    const citationCases = scored.filter((result) => result.citationHit !== null);
+    const passed = results.filter((result) => result.passed).length;
+
+    return {
+      cases: results.length,
+      passed,
+      errors: results.length - scored.length,
+      passRate: results.length ? passed / results.length : 0,
+      avgFactScore: average(scored.map((result) => result.factScore)),
+      avgJudgeScore: average(scored.map((result) => result.judgeScore)),
+      citationHitRate: citationCases.length
+        ? citationCases.filter((result) => result.citationHit).length / citationCases.length
+        : null,
+      avgGroundingScore: average(scored.map((result) => (result.grounding as any)?.score ?? null)),
+      avgLatencyMs: average(scored.map((result) => (result.details as any)?.latencyMs ?? null)),
+      totalTokens: results.reduce((sum, result) => sum + ((result.details as any)?.totalTokens || 0), 0),
+    };
+  }
+
+  /**
+   * Case-by-case comparison of two runs of the same suite
+   */
+  compare(
+    base: AgentEvalRun & { results: AgentEvalResult[] },
+    candidate: AgentEvalRun & { results: AgentEvalResult[] },
+    cases: Pick<AgentEvalCase, 'id' | 'question'>[]
+  ) {
+    const baseSummary = base.summary as unknown as Partial<EvalRunSummary>;
+    const candidateSummary = candidate.summary as unknown as Partial<EvalRunSummary>;
+    const baseConfig = base.config as unknown as EvalRunConfig;
+    const candidateConfig = candidate.config as unknown as EvalRunConfig;
+
+    const pick = (result: AgentEvalResult | undefined) =>
+      result
+        ? {
+            passed: result.passed,
+            factScore: result.factScore,
+            judgeScore: result.judgeScore,
+            citationHit: result.citationHit,
+            answer: result.answer,
+          }
+        : null;
+
+    const byCase = (results: AgentEvalResult[]) => new Map(results.map((result) => [result.caseId, result]));
+    const baseResults = byCase(base.results);
+    const candidateResults = byCase(candidate.results);
+
+    const comparisons: EvalCaseComparison[] = cases.map((evalCase) => {
+      const before = pick(baseResults.get(evalCase.id));
+      const after = pick(candidateResults.get(evalCase.id));
+
+      let change: EvalCaseComparison['change'] = 'unchanged';
+      if (before && after) {
+        if (before.passed !== after.passed) {
+          change = after.passed ? 'improved' : 'regressed';
+        } else if (before.judgeScore !== null && after.judgeScore !== null && before.judgeScore !== after.judgeScore) {
+          change = after.judgeScore > before.judgeScore ? 'improved' : 'regressed';
+        }
+      }
+
+      return { caseId: evalCase.id, question: evalCase.question, base: before, candidate: after, change };
+    });
+
+    const delta = (key: keyof EvalRunSummary) => {
+      const before = baseSummary[key];
+      const after = candidateSummary[key];
+      return typeof before === 'number' && typeof after === 'number' ? after - before : null;
+    };
+
+    return {
+      base: {
+        id: base.id,
+        createdAt: base.createdAt,
+        label: baseConfig.label,
+        agentVersionId: baseConfig.agentVersionId ?? null,
+        promptHash: baseConfig.promptHash,
+        summary: baseSummary,
+      },
+      candidate: {
+        id: candidate.id,
+        createdAt: candidate.createdAt,
+        label: candidateConfig.label,
+        agentVersionId: candidateConfig.agentVersionId ?? null,
+        promptHash: candidateConfig.promptHash,
+        summary: candidateSummary,
+      },
+      promptChanged: baseConfig.promptHash !== candidateConfig.promptHash,
+      delta: {
+        passRate: delta('passRate'),
+        avgFactScore: delta('avgFactScore'),
+        avgJudgeScore: delta('avgJudgeScore'),
+        citationHitRate: delta('citationHitRate'),
+        avgGroundingScore: delta('avgGroundingScore'),
+      },
+      improved: comparisons.filter((comparison) => comparison.change === 'improved').length,
+      regressed: comparisons.filter((comparison) => comparison.change === 'regressed').length,
+      cases: comparisons,
+    };
+  }
+
+  private async evaluateCase(
+    run: AgentEvalRun,
+    agent: AiAgent,
+    evalCase: AgentEvalCase,
+    config: EvalRunConfig,
+    compliance: any
+  ): Promise<AgentEvalResult> {
+    const startedAt = Date.now();
+    const mustCite = (evalCase.mustCiteSourceIds as string[] | null) || [];
+
+    try {
+      const embedding = await this.embedQuestion(run, agent, evalCase.question, compliance);
+      const chunks = await knowledgeBaseService.retrieve(
+        { ...agent, retrievalSettings: config.retrievalSettings },
+        { text: evalCase.question, embedding: embedding ?? undefined },
+        { userId: run.triggeredBy ?? undefined }
+      );
+
+      const provider = createComplianceProvider(compliance, { temperature: config.temperature });
+      const response = await provider.generateResponse([
+        { role: 'system', content: groundingService.buildSystemPrompt(config.systemPrompt, chunks) },
+        { role: 'user', content: evalCase.question },
+      ]);
+      await this.recordCall(run, response, 'answer');
+      const latencyMs = Date.now() - startedAt;
+
+      const { message, citations, grounding } = groundingService.groundAnswer(response.content, chunks);
+      const facts = this.scoreFacts(message, this.factsFor(evalCase));
+      const citationHit = this.citationHit(citations, mustCite);
+      const { verdict, usage: judgeUsage } = await this.judge(run, compliance, evalCase, message);
+
+      // A case with nothing scorable (no facts, no required source, unreadable verdict) does not pass
+      const passed =
+        (facts.score !== null || citationHit !== null || verdict.score !== null) &&
+        (facts.score === null || facts.score === 1) &&
+        citationHit !== false &&
+        (verdict.score === null || verdict.score >= PASS_JUDGE_SCORE);
+
+      return await prisma.agentEvalResult.create({
+        data: {
+          runId: run.id,
+          caseId: evalCase.id,
+          answer: message,
+          citations: citations as unknown as Prisma.InputJsonValue,
+          grounding: grounding as unknown as Prisma.InputJsonValue,
+          factScore: facts.score,
+          judgeScore: verdict.score,
+          judgeReason: verdict.reason,
+          citationHit,
+          passed,
+          details: {
+            factsFound: facts.found,
+            factsMissing: facts.missing,
+            retrieval: embedding ? 'hybrid' : 'keyword',
+            retrievedSourceIds: Array.from(new Set(chunks.map((chunk) => chunk.sourceId))),
+            provider: response.provider,
+            model: response.model,
+            latencyMs,
+            totalTokens: (response.usage?.totalTokens || 0) + (judgeUsage?.totalTokens || 0),
+          },
+        },
+      });
+    } catch (error) {
+      logger.error(`Evaluation run ${run.id} failed on case ${evalCase.id}:`, error);
+
+      return prisma.agentEvalResult.create({
+        data: {
+          runId: run.id,
+          caseId: evalCase.id,
+          answer: '',
+          citationHit: mustCite.length ? false : null,
+          error: error instanceof Error ? error.message : 'Evaluation failed',
+          details: { latencyMs: Date.now() - startedAt },
+        },
+      });
+    }
+  }
+
+  /**
+   * Query embedding for hybrid retrieval. Embeddings come from Gemini, so
+   * when the organization's chain excludes Gemini (e.g. local-only) or the
+   * call fails, retrieval falls back to keyword search alone.
+   */
+  private async embedQuestion(run: AgentEvalRun, agent: AiAgent, question: string, compliance: any) {
+    if (!process.env.GEMINI_API_KEY || !getProviderChain(compliance).includes('gemini')) {
+      return null;
+    }
+
+    try {
+      const embedding = await geminiService.generateQueryEmbedding(question);
+
+      await aiUsageService.record(run.organizationId, {
+        feature: 'embedding',
+        provider: 'gemini',
+        model: 'text-embedding-004',
+        usage: { promptTokens: aiUsageService.estimateTokens(question), completionTokens: 0, totalTokens: 0 },
+        metadata: { agentId: agent.id, purpose: 'evaluation', evalRunId: run.id },
+      });
+
+      await auditService.recordAICall(run.organizationId, {
+        feature: 'embedding',
+        provider: 'gemini',
+        model: 'text-embedding-004',
+        userId: run.triggeredBy ?? undefined,
+        agentId: agent.id,
+        purpose: 'evaluation',
+      });
+
+      return embedding;
+    } catch (error) {
+      logger.warn(`Evaluation run ${run.id}: query embedding failed, using keyword retrieval only`);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the provider to rate the answer against the expected one from 1 to 5
+   */
+  private async judge(
+    run: AgentEvalRun,
+    compliance: any,
+    evalCase: AgentEvalCase,
+    answer: string
+  ): Promise<{ verdict: JudgeVerdict; usage?: AIResponse['usage'] }> {
+    const provider: AIProvider = createComplianceProvider(compliance, { temperature: 0 });
+
+    const response = await provider.generateResponse(
+      [
+        {
+          role: 'user',
+          content: `You are grading a customer support answer against a reference answer.
+Rate how well the answer gives the same information as the reference, from 1 (wrong or missing) to 5 (fully correct and complete). Extra helpful detail is fine; contradicting the reference is not. Ignore citation markers such as [1].
+
+Question:
+${evalCase.question}
+
+Reference answer:
+${evalCase.expectedAnswer}
+
+Answer to grade:
+${answer}
+
+Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
+{ "score": number, "reason": "one sentence" }`,
+        },
+      ],
+      { temperature: 0, maxTokens: 256 }
+    );
+
+    await this.recordCall(run, response, 'judge');
+
+    try {
+      const parsed = parseJson(response.content);
+      const score = Number(parsed.score);
+
+      if (!Number.isFinite(score) || score < 1 || score > 5) {
+        throw new Error(`score out of range: ${parsed.score}`);
+      }
+
+      return {
+        verdict: { score: (score - 1) / 4, reason: typeof parsed.reason === 'string' ? parsed.reason : null },
+        usage: response.usage,
+      };
+    } catch (error) {
+      logger.warn(`Evaluation run ${run.id}: could not read judge verdict for case ${evalCase.id}`);
+      return { verdict: { score: null, reason: null }, usage: response.usage };
+    }
+  }
+
+  private async recordCall(run: AgentEvalRun, response: AIResponse, purpose: 'answer' | 'judge') {
+    await aiUsageService.record(run.organizationId, {
+      feature: 'evaluation',
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      metadata: { agentId: run.agentId, evalRunId: run.id, purpose },
+    });
+
+    await auditService.recordAICall(run.organizationId, {
+      feature: 'evaluation',
+      provider: response.provider,
+      model: response.model,
+      userId: run.triggeredBy ?? undefined,
+      agentId: run.agentId,
+      evalRunId: run.id,
+      purpose,
+      ...(response.fallbackFrom && { fallbackFrom: response.fallbackFrom }),
+    });
+  }
+}
+
+export default new AgentEvaluationService();
@@ -0,0 +1,580 @@
+/**
+ * Agent Tool Service
+ *
+ * Lets the autonomous agent call functions while it works on a ticket: a set
+ * of built-in tools (the customer's past tickets, ticket status, follow-up
+ * tickets, escalation) plus HTTP tools each organization configures. The
+ * agent sees PII tokens, never raw values: tool arguments are rehydrated from
+ * the ticket's vault just before a tool runs, and tool results are tokenized
+ * before they go back to the model. Every invocation is kept (arguments and
+ * results as the model saw them) and logged on the ticket as an internal note.
+ */
+
+import axios from 'axios';
+import { AiTool, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { AIMessage, AIProvider, AIProviderConfig, AIResponse, AIToolCall, AIToolDefinition } from './aiProviders';
+import piiVault from './piiVault';
+import { RedactionOptions } from './piiRedactor';
+import { encryptObject, decryptObject } from './encryption';
+import { onTicketCreated } from './ticketLifecycle';
+import { broadcastTicketEvent } from './broadcast';
+
+export interface ToolContext {
+  organizationId: string;
+  ticketId: string;
+  customerId: string | null;
+  customerEmail: string;
+  redaction: RedactionOptions | null; // null when the organization has PII redaction off
+}
+
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  kind: 'builtin' | 'http';
+  arguments: Record<string, any>; // as the model sent them (tokens, not PII)
+  result?: string; // as the model received it (tokenized)
+  error?: string;
+  durationMs: number;
+  at: string;
+}
+
+export interface ToolRunResult {
+  response: AIResponse; // the final answer, with usage summed over every round
+  invocations: ToolInvocation[];
+  escalation: { reason: string } | null;
+}
+
+export type HttpToolAuthType = 'none' | 'bearer' | 'api_key' | 'basic';
+export const HTTP_TOOL_AUTH_TYPES: HttpToolAuthType[] = ['none', 'bearer', 'api_key', 'basic'];
+export const HTTP_TOOL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface HttpToolInput {
+  name?: string;
+  description?: string;
+  url?: string;
+  parameters?: Record<string, any>;
+  method?: string;
+  headers?: Record<string, string>;
+  authType?: HttpToolAuthType;
+  credentials?: string | null; // encrypted
+  timeoutMs?: number;
+  isActive?: boolean;
+}
+
+interface HttpToolCredentials {
+  token?: string; // bearer, api_key
+  headerName?: string; // api_key, defaults to X-API-Key
+  username?: string; // basic
+  password?: string;
+}
+
+interface ToolRun {
+  context: ToolContext;
+  escalation: { reason: string } | null;
+  followUpsCreated: number;
+}
+
+interface BuiltInTool {
+  definition: AIToolDefinition;
+  execute(args: Record<string, any>, run: ToolRun): Promise<unknown>;
+}
+
+// Model round-trips per ticket before it must answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+// Tool output passed back to the model
+const MAX_RESULT_CHARS = 4000;
+const MAX_FOLLOW_UPS = 1;
+
+const TOOL_NAME = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+const customerTickets = (context: ToolContext): Prisma.TicketWhereInput => ({
+  organizationId: context.organizationId,
+  ...(context.customerId ? { customerId: context.customerId } : { customerEmail: context.customerEmail }),
+});
+
+const BUILT_IN_TOOLS: Record<string, BuiltInTool> = {
+  lookup_customer_tickets: {
+    definition: {
+      name: 'lookup_customer_tickets',
+      description: "List this customer's other tickets, most recent first, to see what they contacted us about before.",
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['open', 'in_progress', 'closed'], description: 'Only tickets with this status' },
+          limit: { type: 'integer', description: 'At most this many tickets (max 10)' },
+        },
+      },
+    },
+    async execute(args, { context }) {
+      const tickets = await prisma.ticket.findMany({
+        where: {
+          ...customerTickets(context),
+          id: { not: context.ticketId },
+          ...(args.status && { status: args.status }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(Math.max(Number(args.limit) || 5, 1), 10),
+        select: { id: true, subject: true, status: true, priority: true, createdAt: true, closedAt: true },
+      });
+
+      return { tickets };
+    },
+  },
+
+  get_ticket_status: {
+    definition: {
+      name: 'get_ticket_status',
+      description:
+        "Status, priority and SLA state of one of this customer's tickets. Leave ticketId out for the current ticket.",
+      parameters: {
+        type: 'object',
+        properties: {
+          ticketId: { type: 'string', description: 'Ticket id from lookup_customer_tickets' },
+        },
+      },
+    },
+    async execute(args, { context }) {
+      const ticket = await prisma.ticket.findFirst({
+        where: { ...customerTickets(context), id: args.ticketId || context.ticketId },
+        select: {
+          id: true,
+          subject: true,
+          status: true,
+          priority: true,
+          assignedTo: true,
+          slaStatus: true,
+          createdAt: true,
+          updatedAt: true,
+          closedAt: true,
+        },
+      });
+
+      if (!ticket) {
+        return { error: 'No ticket with that id for this customer' };
+      }
+
+      const { assignedTo, ...status } = ticket;
+      return { ...status, assignedToTeamMember: !!assignedTo };
+    },
+  },
+
+  create_follow_up_ticket: {
+    definition: {
+      name: 'create_follow_up_ticket',
+      description:
+        'Open a separate ticket for this customer about an issue that needs follow-up work by the team, e.g. a refund to process.',
+      parameters: {
+        type: 'object',
+        properties: {
+          subject: { type: 'string', description: 'Short summary of the follow-up' },
+          details: { type: 'string', description: 'What the team needs to do and why' },
+          priority: { type: 'string', enum: PRIORITIES },
+        },
+        required: ['subject', 'details'],
+      },
+    },
+    async execute(args, run) {
+      if (run.followUpsCreated >= MAX_FOLLOW_UPS) {
+        return { error: 'A follow-up ticket was already created for this ticket' };
+      }
+
+      const { context } = run;
+      const original = await prisma.ticket.findUniqueOrThrow({ where: { id: context.ticketId } });
+
+      const ticket = await prisma.ticket.create({
+        data: {
+          organizationId: context.organizationId,
+          ...(original.sourceId && { sourceId: original.sourceId }),
+          customerName: original.customerName,
+          customerEmail: original.customerEmail,
+          customerId: original.customerId,
+          subject: String(args.subject).slice(0, 255),
+          priority: PRIORITIES.includes(args.priority) ? args.priority : original.priority,
+          status: 'open',
+          metadata: { type: 'support', followUpOf: original.id, createdByAI: true },
+          messages: {
+            create: {
+              senderType: 'system',
+              content: String(args.details),
+              isInternal: true,
+            },
+          },
+        },
+      });
+
+      run.followUpsCreated++;
+
+      await onTicketCreated(ticket.id);
+      await broadcastTicketEvent(context.organizationId, 'ticket_created', ticket.id);
+
+      return { created: true, ticketId: ticket.id };
+    },
+  },
+
+  escalate_to_human: {
+    definition: {
+      name: 'escalate_to_human',
+      description:
+        'Hand the ticket to a human agent instead of replying, e.g. when the customer asks for a person or the issue needs account changes you cannot make.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string', description: 'Why a human needs to take over' },
+        },
+        required: ['reason'],
+      },
+    },
+    async execute(args, run) {
+      run.escalation = { reason: String(args.reason || 'Requested by the AI agent') };
+      return { escalated: true };
+    },
+  },
+};
+
+export const BUILT_IN_TOOL_NAMES = Object.keys(BUILT_IN_TOOLS);
+
+/**
+ * Apply fn to every string inside a JSON value
+ */
+async function mapStrings(value: unknown, fn: (text: string) => Promise<string>): Promise<any> {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return Promise.all(value.map((item) => mapStrings(item, fn)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await mapStrings(item, fn)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+const JSON_TYPES: Record<string, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number',
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  array: (value) => Array.isArray(value),
+  object: (value) => !!value && typeof value === 'object' && !Array.isArray(value),
+};
+
+/**
+ * Check top-level required properties, types and enums. Returns a message for the model, or null.
+ */
+export function validateToolArguments(schema: Record<string, any>, args: Record<string, any>): string | null {
+  for (const name of schema.required || []) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') {
+      return `Missing required argument "${name}"`;
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const property = schema.properties?.[name];
+    if (!property || value === undefined || value === null) continue;
+
+    if (property.type && JSON_TYPES[property.type] && !JSON_TYPES[property.type](value)) {
+      return `Argument "${name}" must be of type ${property.type}`;
+    }
+    if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+      return `Argument "${name}" must be one of: ${property.enum.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+export class AgentToolService {
+  /**
+   * Validate an HTTP tool from a request body. Throws a 400 for bad values.
+   */
+  validateHttpTool(input: Record<string, any>, options: { partial?: boolean } = {}): HttpToolInput {
+    const tool: HttpToolInput = {};
+    const present = (key: string) => input[key] !== undefined || !options.partial;
+
+    if (present('name')) {
+      if (typeof input.name !== 'string' || !TOOL_NAME.test(input.name)) {
+        throw new AppError('name must start with a letter or underscore and contain only letters, digits, _ and - (max 64)', 400);
+      }
+      if (BUILT_IN_TOOL_NAMES.includes(input.name)) {
+        throw new AppError(`${input.name} is a built-in tool`, 400);
+      }
+      tool.name = input.name;
+    }
+
+    if (present('description')) {
+      if (typeof input.description !== 'string' || !input.description.trim()) {
+        throw new AppError('description is required', 400);
+      }
+      tool.description = input.description.trim();
+    }
+
+    if (present('url')) {
+      let url: URL | null = null;
+      try {
+        url = new URL(String(input.url).replace(/\{[^}]+\}/g, 'x'));
+      } catch {
+        // reported below
+      }
+      if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+        throw new AppError('url must be an http(s) URL', 400);
+      }
+      tool.url = input.url;
+    }
+
+    if (input.parameters !== undefined) {
+      if (!input.parameters || typeof input.parameters !== 'object' || input.parameters.type !== 'object') {
+        throw new AppError('parameters must be a JSON Schema with type "object"', 400);
+      }
+      tool.parameters = input.parameters;
+    }
+
+    if (input.method !== undefined) {
+      const method = String(input.method).toUpperCase();
+      if (!HTTP_TOOL_METHODS.includes(method)) {
+        throw new AppError(`method must be one of: ${HTTP_TOOL_METHODS.join(', ')}`, 400);
+      }
+      tool.method = method;
+    }
+
+    if (input.headers !== undefined) {
+      if (
+        !input.headers ||
+        typeof input.headers !== 'object' ||
+        Object.values(input.headers).some((value) => typeof value !== 'string')
+      ) {
+        throw new AppError('headers must be an object of string values', 400);
+      }
+      tool.headers = input.headers;
+    }
+
+    if (input.authType !== undefined) {
+      if (!HTTP_TOOL_AUTH_TYPES.includes(input.authType)) {
+        throw new AppError(`authType must be one of: ${HTTP_TOOL_AUTH_TYPES.join(', ')}`, 400);
+      }
+      tool.authType = input.authType;
+    }
+
+    if (input.credentials !== undefined) {
+      tool.credentials = input.credentials ? encryptObject(input.credentials as HttpToolCredentials) : null;
+    }
+
+    if (input.timeoutMs !== undefined) {
+      if (!Number.isInteger(input.timeoutMs) || input.timeoutMs < 1000 || input.timeoutMs > 30000) {
+        throw new AppError('timeoutMs must be an integer between 1000 and 30000', 400);
+      }
+      tool.timeoutMs = input.timeoutMs;
+    }
+
+    if (input.isActive !== undefined) {
+      tool.isActive = !!input.isActive;
+    }
+
+    return tool;
+  }
+
+  /**
+   * An HTTP tool as returned by the API, without its credentials
+   */
+  toPublic(tool: AiTool) {
+    const { credentials, ...rest } = tool;
+    return { ...rest, hasCredentials: !!credentials };
+  }
+
+  async listHttpTools(organizationId: string, options: { activeOnly?: boolean } = {}): Promise<AiTool[]> {
+    return prisma.aiTool.findMany({
+      where: { organizationId, ...(options.activeOnly && { isActive: true }) },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  builtInDefinitions(): AIToolDefinition[] {
+    return Object.values(BUILT_IN_TOOLS).map((tool) => tool.definition);
+  }
+
+  /**
+   * Call an HTTP tool with real (rehydrated) arguments. {name} placeholders in the URL
+   * are filled from the arguments; the rest go in the query string (GET) or JSON body.
+   */
+  async callHttpTool(tool: AiTool, args: Record<string, any>): Promise<unknown> {
+    const remaining = { ...args };
+    const url = tool.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      const value = remaining[name];
+      delete remaining[name];
+      return encodeURIComponent(value === undefined || value === null ? '' : String(value));
+    });
+
+    const headers: Record<string, string> = { ...((tool.headers as Record<string, string>) || {}) };
+    const credentials: HttpToolCredentials = tool.credentials ? decryptObject(tool.credentials) : {};
+    let auth: { username: string; password: string } | undefined;
+
+    if (tool.authType === 'bearer' && credentials.token) {
+      headers.Authorization = `Bearer ${credentials.token}`;
+    } else if (tool.authType === 'api_key' && credentials.token) {
+      headers[credentials.headerName || 'X-API-Key'] = credentials.token;
+    } else if (tool.authType === 'basic') {
+      auth = { username: credentials.username || '', password: credentials.password || '' };
+    }
+
+    const response = await axios.request({
+      method: tool.method as any,
+      url,
+      headers,
+      auth,
+      timeout: tool.timeoutMs,
+      ...(tool.method === 'GET' ? { params: remaining } : { data: remaining }),
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 400) {
+      return { error: `HTTP ${response.status}`, body: response.data };
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Run one tool call. Failures are returned to the model as an error result
+   * rather than thrown, so it can recover or answer without the tool.
+   */
+  private async invoke(call: AIToolCall, run: ToolRun, httpTools: Map<string, AiTool>): Promise<ToolInvocation> {
+    const started = Date.now();
+    const builtIn = BUILT_IN_TOOLS[call.name];
+    const httpTool = httpTools.get(call.name);
+    const { context } = run;
+
+    const invocation: ToolInvocation = {
+      id: call.id,
+      name: call.name,
+      kind: builtIn ? 'builtin' : 'http',
+      arguments: call.arguments,
+      durationMs: 0,
+      at: new Date().toISOString(),
+    };
+
+    try {
+      if (!builtIn && !httpTool) {
+        throw new Error(`Unknown tool "${call.name}"`);
+      }
+
+      const schema = builtIn ? builtIn.definition.parameters : (httpTool!.parameters as Record<string, any>);
+      const invalid = validateToolArguments(schema, call.arguments);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+
+      // The model refers to customer details by token; tools need the real values
+      const args = context.redaction
+        ? await mapStrings(call.arguments, async (text) => (await piiVault.rehydrate(context.ticketId, text)).text)
+        : call.arguments;
+
+      const output = builtIn ? await builtIn.execute(args, run) : await this.callHttpTool(httpTool!, args);
+
+      let result = typeof output === 'string' ? output : JSON.stringify(output);
+      if (result.length > MAX_RESULT_CHARS) {
+        result = `${result.slice(0, MAX_RESULT_CHARS)}… (truncated)`;
+      }
+
+      invocation.result = context.redaction
+        ? (await piiVault.tokenize(context.ticketId, context.organizationId, result, context.redaction)).text
+        : result;
+    } catch (error) {
+      invocation.error = error instanceof Error ? error.message : 'Tool failed';
+      logger.warn(`Tool ${call.name} failed for ticket ${context.ticketId}: ${invocation.error}`);
+    }
+
+    invocation.durationMs = Date.now() - started;
+    return invocation;
+  }
+
+  /**
+   * Generate a response, running the tools the model asks for and feeding
+   * their results back until it answers (or runs out of rounds)
+   */
+  async run(
+    provider: AIProvider,
+    messages: AIMessage[],
+    config: Partial<AIProviderConfig>,
+    context: ToolContext
+  ): Promise<ToolRunResult> {
+    const httpTools = new Map(
+      (await this.listHttpTools(context.organizationId, { activeOnly: true })).map((tool) => [tool.name, tool])
+    );
+    const tools: AIToolDefinition[] = [
+      ...this.builtInDefinitions(),
+      ...Array.from(httpTools.values()).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as Record<string, any>,
+      })),
+    ];
+
+    const run: ToolRun = { context, escalation: null, followUpsCreated: 0 };
+    const invocations: ToolInvocation[] = [];
+    const history = [...messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for (let round = 0; ; round++) {
+      if (round === MAX_TOOL_ROUNDS) {
+        history.push({ role: 'user', content: 'Tool limit reached. Answer now with the results you already have.' });
+      }
+
+      const response = await provider.generateResponse(history, { ...config, tools });
+
+      usage.promptTokens += response.usage?.promptTokens || 0;
+      usage.completionTokens += response.usage?.completionTokens || 0;
+      usage.totalTokens += response.usage?.totalTokens || 0;
+
+      // Escalation ends the run: the ticket goes to a person whatever the model says next
+      if (!response.toolCalls?.length || round === MAX_TOOL_ROUNDS || run.escalation) {
+        return { response: { ...response, usage }, invocations, escalation: run.escalation };
+      }
+
+      history.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        const invocation = await this.invoke(call, run, httpTools);
+        invocations.push(invocation);
+
+        history.push({
+          role: 'tool',
+          toolCallId: call.id,
+          toolName: call.name,
+          content: invocation.error ? JSON.stringify({ error: invocation.error }) : invocation.result!,
+        });
+      }
+
+      if (run.escalation) {
+        return { response: { ...response, usage }, invocations, escalation: run.escalation };
+      }
+    }
+  }
+
+  /**
+   * Record the tools used on a ticket as an internal note
+   */
+  async logInvocations(ticketId: string, invocations: ToolInvocation[], escalation: { reason: string } | null) {
+    if (invocations.length === 0) return;
+
+    const lines = invocations.map(
+      (invocation) =>
+        `- ${invocation.name}(${JSON.stringify(invocation.arguments)})${invocation.error ? ` failed: ${invocation.error}` : ''}`
+    );
+
+    await prisma.ticketMessage.create({
+      data: {
+        ticketId,
+        senderType: 'system',
+        content: `AI agent used ${invocations.length} tool call${invocations.length === 1 ? '' : 's'}:\n${lines.join('\n')}${
+          escalation ? `\n\nEscalated to a human: ${escalation.reason}` : ''
+        }`,
+        isInternal: true,
+        metadata: { toolInvocations: invocations, ...(escalation && { escalation }) } as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+}
+
+export default new AgentToolService();
@@ -0,0 +1,139 @@
+/**
+ * Agent Training Service
+ *
+ * Turns an agent's knowledge sources into embedded chunks. Sources are parsed
+ * to Markdown, split by the structure-aware chunker, and compared with the
+ * chunks already stored by content hash: only new or changed chunks are
+ * embedded, and chunks that disappeared from the source are removed.
+ */
+
+import crypto from 'crypto';
+import { AgentSource, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import geminiService from './geminiService';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import { chunkDocument, DocumentChunk } from './documentChunker';
+import { fetchDocument } from './documentParser';
+
+export interface SourceTrainingResult {
+  sourceId: string;
+  embedded: number;
+  removed: number;
+  unchanged: number;
+}
+
+export class AgentTrainingService {
+  /**
+   * Markdown for a source: websites are fetched, everything else was parsed when it was uploaded
+   */
+  async loadDocument(source: AgentSource): Promise<string> {
+    if (source.sourceType === 'website') {
+      return (await fetchDocument(source.content)).markdown;
+    }
+
+    return source.content;
+  }
+
+  /**
+   * Bring a source's stored chunks in line with its current content
+   */
+  async trainSource(
+    organizationId: string,
+    agentId: string,
+    source: AgentSource,
+    options: { document?: string; userId?: string } = {}
+  ): Promise<SourceTrainingResult> {
+    const document = options.document ?? (await this.loadDocument(source));
+    const chunks = chunkDocument(document);
+
+    const existing = await prisma.agentEmbedding.findMany({
+      where: { sourceId: source.id },
+      select: { id: true, contentHash: true, metadata: true },
+    });
+
+    const stored = new Map(existing.filter((row) => row.contentHash).map((row) => [row.contentHash!, row]));
+
+    // Identical chunks (e.g. a repeated disclaimer) are stored once, at their first position
+    const unique = new Map<string, DocumentChunk>();
+    for (const chunk of chunks) {
+      if (!unique.has(chunk.hash)) unique.set(chunk.hash, chunk);
+    }
+
+    const toEmbed = Array.from(unique.values()).filter((chunk) => !stored.has(chunk.hash));
+    const stale = existing.filter((row) => !row.contentHash || !unique.has(row.contentHash));
+
+    if (toEmbed.length > 0) {
+      // Stop before spending more once the monthly AI budget is used up
+      await aiUsageService.assertWithinBudget(organizationId);
+    }
+
+    for (const chunk of toEmbed) {
+      const embedding = await geminiService.generateEmbedding(chunk.content);
+
+      // Use raw query to insert vector data
+      await prisma.$executeRaw`
+        INSERT INTO agent_embeddings (id, source_id, content, embedding, metadata, content_hash, created_at)
+        VALUES (
+          ${crypto.randomUUID()},
+          ${source.id},
+          ${chunk.content},
+          ${`[${embedding.join(',')}]`}::vector,
+          ${JSON.stringify(chunk.metadata)}::jsonb,
+          ${chunk.hash},
+          NOW()
+        )
+      `;
+    }
+
+    if (stale.length > 0) {
+      await prisma.agentEmbedding.deleteMany({
+        where: { id: { in: stale.map((row) => row.id) } },
+      });
+    }
+
+    // Unchanged chunks may have moved (new chunk index or page)
+    for (const chunk of unique.values()) {
+      const row = stored.get(chunk.hash);
+      if (row && JSON.stringify(row.metadata) !== JSON.stringify(chunk.metadata)) {
+        await prisma.agentEmbedding.update({
+          where: { id: row.id },
+          data: { metadata: chunk.metadata as unknown as Prisma.InputJsonValue },
+        });
+      }
+    }
+
+    if (toEmbed.length > 0) {
+      await aiUsageService.record(organizationId, {
+        feature: 'embedding',
+        provider: 'gemini',
+        model: 'text-embedding-004',
+        usage: {
+          promptTokens: toEmbed.reduce((sum, chunk) => sum + aiUsageService.estimateTokens(chunk.content), 0),
+          completionTokens: 0,
+          totalTokens: 0,
+        },
+        metadata: { agentId, sourceId: source.id, chunks: toEmbed.length },
+      });
+
+      await auditService.recordAICall(organizationId, {
+        feature: 'embedding',
+        provider: 'gemini',
+        model: 'text-embedding-004',
+        userId: options.userId,
+        agentId,
+        sourceId: source.id,
+        chunks: toEmbed.length,
+      });
+    }
+
+    return {
+      sourceId: source.id,
+      embedded: toEmbed.length,
+      removed: stale.length,
+      unchanged: unique.size - toEmbed.length,
+    };
+  }
+}
+
+export default new AgentTrainingService();
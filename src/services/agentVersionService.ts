@@ -0,0 +1,263 @@
+/**
+ * Agent Version Service
+ *
+ * Every change to an agent's answering configuration (system prompt, model,
+ * temperature, retrieval settings) is saved as an immutable, numbered
+ * AiAgentVersion. Publishing a version copies its configuration onto the
+ * agent, which is what chat and autonomous replies read, and records the
+ * version on the agent so each answer can store the version that produced it.
+ * Rolling back publishes an earlier version again; history is never rewritten.
+ */
+
+import { AiAgent, AiAgentVersion, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import auditService from './auditService';
+
+export interface AgentConfig {
+  systemPrompt: string;
+  model: string;
+  temperature: number;
+  retrievalSettings: Record<string, any>;
+}
+
+export interface PromptDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  changes: Partial<Record<keyof AgentConfig, { from: any; to: any }>>;
+  systemPrompt: PromptDiffLine[] | null; // line diff, null when the prompt is unchanged
+}
+
+interface PublishOptions {
+  userId?: string;
+  ipAddress?: string;
+  rollback?: boolean;
+}
+
+// Longer prompts are diffed as a whole replacement rather than line by line
+const MAX_DIFF_LINES = 2000;
+
+export class AgentVersionService {
+  configOf(source: Pick<AiAgent, 'systemPrompt' | 'model' | 'temperature' | 'retrievalSettings'>): AgentConfig {
+    return {
+      systemPrompt: source.systemPrompt,
+      model: source.model,
+      temperature: source.temperature,
+      retrievalSettings: (source.retrievalSettings as Record<string, any>) || {},
+    };
+  }
+
+  /**
+   * Save a new version from the agent's current configuration with the
+   * changes applied, publishing it unless asked not to. Returns the agent
+   * unchanged when nothing versioned differs from the live configuration.
+   */
+  async createVersion(
+    agent: AiAgent,
+    changes: Partial<AgentConfig>,
+    options: PublishOptions & { note?: string; publish?: boolean } = {}
+  ): Promise<{ agent: AiAgent; version: AiAgentVersion | null }> {
+    const current = this.configOf(agent);
+    const config = { ...current, ...changes };
+
+    if (Object.keys(auditService.diff(current, config)).length === 0) {
+      return { agent, version: null };
+    }
+
+    const publish = options.publish !== false;
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const latest = await tx.aiAgentVersion.findFirst({
+          where: { agentId: agent.id },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+
+        const version = await tx.aiAgentVersion.create({
+          data: {
+            agentId: agent.id,
+            organizationId: agent.organizationId,
+            version: (latest?.version || 0) + 1,
+            ...config,
+            retrievalSettings: config.retrievalSettings as Prisma.InputJsonValue,
+            note: options.note,
+            createdBy: options.userId,
+            publishedAt: publish ? new Date() : null,
+          },
+        });
+
+        const updated = publish
+          ? await tx.aiAgent.update({
+              where: { id: agent.id },
+              data: {
+                ...config,
+                retrievalSettings: config.retrievalSettings as Prisma.InputJsonValue,
+                publishedVersionId: version.id,
+              },
+            })
+          : agent;
+
+        return { agent: updated, version };
+      });
+
+      if (publish) {
+        await this.recordPublish(agent, result.version, options);
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new AppError('The agent was changed at the same time; reload and try again', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make a version's configuration the live one
+   */
+  async publish(agent: AiAgent, version: AiAgentVersion, options: PublishOptions = {}): Promise<AiAgent> {
+    if (version.agentId !== agent.id) {
+      throw new AppError('Version not found', 404);
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.aiAgent.update({
+        where: { id: agent.id },
+        data: {
+          ...this.configOf(version),
+          retrievalSettings: version.retrievalSettings as Prisma.InputJsonValue,
+          publishedVersionId: version.id,
+        },
+      }),
+      prisma.aiAgentVersion.update({
+        where: { id: version.id },
+        data: { publishedAt: new Date() },
+      }),
+    ]);
+
+    await this.recordPublish(agent, version, options);
+
+    return updated;
+  }
+
+  /**
+   * Publish the version that was live before the current one, or a given version
+   */
+  async rollback(agent: AiAgent, targetVersion?: number, options: PublishOptions = {}): Promise<AiAgent> {
+    const target =
+      targetVersion !== undefined
+        ? await this.findVersion(agent.id, targetVersion)
+        : await prisma.aiAgentVersion.findFirst({
+            where: {
+              agentId: agent.id,
+              publishedAt: { not: null },
+              ...(agent.publishedVersionId && { id: { not: agent.publishedVersionId } }),
+            },
+            orderBy: { publishedAt: 'desc' },
+          });
+
+    if (!target) {
+      throw new AppError('There is no earlier published version to roll back to', 409);
+    }
+
+    if (target.id === agent.publishedVersionId) {
+      throw new AppError(`Version ${target.version} is already published`, 409);
+    }
+
+    return this.publish(agent, target, { ...options, rollback: true });
+  }
+
+  async findVersion(agentId: string, version: number): Promise<AiAgentVersion> {
+    const found = Number.isInteger(version)
+      ? await prisma.aiAgentVersion.findUnique({ where: { agentId_version: { agentId, version } } })
+      : null;
+
+    if (!found) {
+      throw new AppError('Version not found', 404);
+    }
+
+    return found;
+  }
+
+  /**
+   * Field-by-field changes between two versions, with a line diff of the prompt
+   */
+  diff(from: AiAgentVersion, to: AiAgentVersion): VersionDiff {
+    const changes = auditService.diff(this.configOf(from), this.configOf(to));
+
+    return {
+      from: from.version,
+      to: to.version,
+      changes,
+      systemPrompt: changes.systemPrompt ? this.diffLines(from.systemPrompt, to.systemPrompt) : null,
+    };
+  }
+
+  /**
+   * Line diff from the longest common subsequence of the two texts
+   */
+  diffLines(before: string, after: string): PromptDiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+      return [
+        ...a.map((line) => ({ type: 'removed' as const, line })),
+        ...b.map((line) => ({ type: 'added' as const, line })),
+      ];
+    }
+
+    // lengths[i][j]: LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const lines: PromptDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'unchanged', line: a[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        lines.push({ type: 'removed', line: a[i++] });
+      } else {
+        lines.push({ type: 'added', line: b[j++] });
+      }
+    }
+    while (i < a.length) lines.push({ type: 'removed', line: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', line: b[j++] });
+
+    return lines;
+  }
+
+  private async recordPublish(agent: AiAgent, version: AiAgentVersion, options: PublishOptions) {
+    await auditService.record(agent.organizationId, {
+      action: 'ai_agent.publish',
+      actorId: options.userId,
+      resourceType: 'ai_agent',
+      resourceId: agent.id,
+      metadata: {
+        version: version.version,
+        versionId: version.id,
+        previousVersionId: agent.publishedVersionId,
+        ...(options.rollback && { rollback: true }),
+        changes: auditService.diff(this.configOf(agent), this.configOf(version)),
+      },
+      ipAddress: options.ipAddress,
+    });
+  }
+}
+
+export default new AgentVersionService();
@@ -0,0 +1,314 @@
+/**
+ * AI Draft Service
+ *
+ * Human-in-the-loop approval for autonomous replies. When an organization sets
+ * autonomousAI.approvalMode to 'review', the ticket processor stores the AI
+ * reply here as a pending draft instead of sending it. An agent then approves
+ * it as written, edits and sends it, or rejects it; the outcome feeds the
+ * draft review metrics in /api/autonomous-ai/performance.
+ */
+
+import { AiDraft, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { sendResponseToSource } from './channelRelay';
+import { onAgentReply, onTicketMessage } from './ticketLifecycle';
+import { broadcastTicketEvent } from './broadcast';
+import type { AutoResponseSource } from './autonomousAIService';
+
+// 'superseded' drafts were replaced by a newer draft for the same ticket before anyone reviewed them
+export type DraftStatus = 'pending' | 'approved' | 'edited' | 'rejected' | 'superseded';
+
+export const DRAFT_STATUSES: DraftStatus[] = ['pending', 'approved', 'edited', 'rejected', 'superseded'];
+
+export type ApprovalMode = 'auto' | 'review';
+
+export const APPROVAL_MODES: ApprovalMode[] = ['auto', 'review'];
+
+export interface CreateDraftInput {
+  aiAgentId?: string;
+  content: string;
+  confidence: number;
+  sources?: AutoResponseSource[];
+  metadata?: Record<string, any>;
+}
+
+export interface DraftReviewMetrics {
+  total: number;
+  pending: number;
+  approved: number;
+  edited: number;
+  rejected: number;
+  approvalRate: number; // approved as written, share of reviewed drafts
+  editRate: number;
+  rejectionRate: number;
+  avgConfidence: number | null;
+  avgReviewMinutes: number | null;
+  byAgent: {
+    aiAgentId: string | null;
+    name: string | null;
+    total: number;
+    approved: number;
+    edited: number;
+    rejected: number;
+    approvalRate: number;
+    avgConfidence: number | null;
+  }[];
+}
+
+const ticketSummary = {
+  select: { id: true, subject: true, customerName: true, customerEmail: true, status: true, priority: true },
+};
+
+const rate = (count: number, total: number): number => (total > 0 ? count / total : 0);
+
+export class AIDraftService {
+  /**
+   * Store an AI reply for review. An older pending draft on the same ticket is
+   * superseded, so the queue holds one draft per ticket.
+   */
+  async createDraft(ticketId: string, organizationId: string, input: CreateDraftInput): Promise<AiDraft> {
+    await prisma.aiDraft.updateMany({
+      where: { ticketId, status: 'pending' },
+      data: { status: 'superseded' },
+    });
+
+    return prisma.aiDraft.create({
+      data: {
+        organizationId,
+        ticketId,
+        aiAgentId: input.aiAgentId || null,
+        content: input.content,
+        confidence: input.confidence,
+        sources: (input.sources || []) as unknown as Prisma.InputJsonValue,
+        metadata: input.metadata || {},
+      },
+    });
+  }
+
+  /**
+   * Drafts in the organization's queue, oldest first so the longest-waiting
+   * customer is reviewed first
+   */
+  async list(
+    organizationId: string,
+    filters: { status?: DraftStatus; ticketId?: string },
+    options: { skip?: number; take?: number } = {}
+  ) {
+    const where: Prisma.AiDraftWhereInput = {
+      organizationId,
+      status: filters.status || 'pending',
+      ...(filters.ticketId && { ticketId: filters.ticketId }),
+    };
+
+    const [drafts, total] = await Promise.all([
+      prisma.aiDraft.findMany({
+        where,
+        include: { ticket: ticketSummary },
+        orderBy: { createdAt: filters.status && filters.status !== 'pending' ? 'desc' : 'asc' },
+        skip: options.skip,
+        take: options.take,
+      }),
+      prisma.aiDraft.count({ where }),
+    ]);
+
+    return { drafts, total };
+  }
+
+  private async findDraft(organizationId: string, draftId: string): Promise<AiDraft> {
+    const draft = await prisma.aiDraft.findFirst({
+      where: { id: draftId, organizationId },
+    });
+
+    if (!draft) {
+      throw new AppError('Draft not found', 404);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Claim a pending draft for review. The conditional update makes sure two
+   * agents cannot both send the same draft.
+   */
+  private async claim(draft: AiDraft, data: Prisma.AiDraftUpdateManyMutationInput): Promise<void> {
+    const claimed = await prisma.aiDraft.updateMany({
+      where: { id: draft.id, status: 'pending' },
+      data: { ...data, reviewedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      const current = await prisma.aiDraft.findUnique({ where: { id: draft.id }, select: { status: true } });
+      throw new AppError(`Draft has already been ${current?.status || draft.status}`, 409);
+    }
+  }
+
+  /**
+   * Send a draft to the customer, as written or with the agent's edits, and
+   * resolve the ticket as the autonomous flow would have
+   */
+  async approve(organizationId: string, draftId: string, userId: string, editedContent?: string) {
+    const draft = await this.findDraft(organizationId, draftId);
+    const trimmed = editedContent?.trim();
+    const edited = !!trimmed && trimmed !== draft.content.trim();
+    const status: DraftStatus = edited ? 'edited' : 'approved';
+
+    await this.claim(draft, { status, reviewedBy: userId });
+    const content = edited ? trimmed! : draft.content;
+
+    const message = await prisma.ticketMessage.create({
+      data: {
+        ticketId: draft.ticketId,
+        userId,
+        senderType: 'system',
+        content,
+        isInternal: false,
+        metadata: {
+          ...((draft.metadata as Record<string, any>) || {}),
+          aiDraftId: draft.id,
+          approvedBy: userId,
+          ...(edited && { editedByAgent: true }),
+        },
+      },
+    });
+
+    await onTicketMessage(draft.ticketId, { senderType: 'system' });
+
+    const sent = await sendResponseToSource(draft.ticketId, content, userId);
+
+    if (sent) {
+      await onAgentReply(draft.ticketId);
+    } else {
+      logger.warn(`Failed to send approved AI draft ${draftId} to source for ticket ${draft.ticketId}, but response saved to DB`);
+    }
+
+    await prisma.ticket.update({
+      where: { id: draft.ticketId },
+      data: { status: 'closed', closedAt: new Date() },
+    });
+
+    const updated = await prisma.aiDraft.update({
+      where: { id: draftId },
+      data: { sentContent: content, messageId: message.id },
+    });
+
+    await broadcastTicketEvent(organizationId, 'ticket_updated', draft.ticketId);
+
+    logger.info(`AI draft ${draftId} ${status} by ${userId} for ticket ${draft.ticketId}, sent: ${sent}`);
+
+    return { draft: updated, messageId: message.id, sent };
+  }
+
+  /**
+   * Discard a draft and leave the ticket with the team
+   */
+  async reject(organizationId: string, draftId: string, userId: string, reason?: string) {
+    const draft = await this.findDraft(organizationId, draftId);
+
+    await this.claim(draft, {
+      status: 'rejected',
+      reviewedBy: userId,
+      rejectionReason: reason?.trim() || null,
+    });
+
+    await prisma.ticket.updateMany({
+      where: { id: draft.ticketId, status: 'open' },
+      data: { status: 'in_progress' },
+    });
+
+    await broadcastTicketEvent(organizationId, 'ticket_updated', draft.ticketId);
+
+    logger.info(`AI draft ${draftId} rejected by ${userId} for ticket ${draft.ticketId}`);
+
+    return prisma.aiDraft.findUniqueOrThrow({ where: { id: draftId } });
+  }
+
+  /**
+   * Review outcomes for drafts created in the period, overall and per AI agent
+   */
+  async getReviewMetrics(organizationId: string, createdAt?: Prisma.DateTimeFilter): Promise<DraftReviewMetrics> {
+    const where: Prisma.AiDraftWhereInput = {
+      organizationId,
+      status: { not: 'superseded' },
+      ...(createdAt && { createdAt }),
+    };
+
+    const [byStatus, byAgentStatus, reviewTimes] = await Promise.all([
+      prisma.aiDraft.groupBy({
+        by: ['status'],
+        where,
+        _count: { _all: true },
+        _sum: { confidence: true },
+      }),
+      prisma.aiDraft.groupBy({
+        by: ['aiAgentId', 'status'],
+        where,
+        _count: { _all: true },
+        _sum: { confidence: true },
+      }),
+      prisma.aiDraft.findMany({
+        where: { ...where, reviewedAt: { not: null }, reviewedBy: { not: null } },
+        select: { createdAt: true, reviewedAt: true },
+      }),
+    ]);
+
+    const countOf = (status: DraftStatus) => byStatus.find((row) => row.status === status)?._count._all || 0;
+    const total = byStatus.reduce((sum, row) => sum + row._count._all, 0);
+    const confidenceSum = byStatus.reduce((sum, row) => sum + (row._sum.confidence || 0), 0);
+
+    const approved = countOf('approved');
+    const edited = countOf('edited');
+    const rejected = countOf('rejected');
+    const reviewed = approved + edited + rejected;
+
+    const reviewMinutes = reviewTimes.map((draft) => (draft.reviewedAt!.getTime() - draft.createdAt.getTime()) / 60000);
+
+    // Per-agent breakdown
+    const agents = new Map<string | null, { total: number; confidenceSum: number; counts: Record<string, number> }>();
+    for (const row of byAgentStatus) {
+      const entry = agents.get(row.aiAgentId) || { total: 0, confidenceSum: 0, counts: {} };
+      entry.total += row._count._all;
+      entry.confidenceSum += row._sum.confidence || 0;
+      entry.counts[row.status] = row._count._all;
+      agents.set(row.aiAgentId, entry);
+    }
+
+    const agentIds = Array.from(agents.keys()).filter((id): id is string => !!id);
+    const agentNames = agentIds.length
+      ? await prisma.aiAgent.findMany({ where: { id: { in: agentIds } }, select: { id: true, name: true } })
+      : [];
+
+    const byAgent = Array.from(agents.entries()).map(([aiAgentId, entry]) => {
+      const agentReviewed = (entry.counts.approved || 0) + (entry.counts.edited || 0) + (entry.counts.rejected || 0);
+      return {
+        aiAgentId,
+        name: agentNames.find((agent) => agent.id === aiAgentId)?.name || null,
+        total: entry.total,
+        approved: entry.counts.approved || 0,
+        edited: entry.counts.edited || 0,
+        rejected: entry.counts.rejected || 0,
+        approvalRate: rate(entry.counts.approved || 0, agentReviewed),
+        avgConfidence: entry.total > 0 ? entry.confidenceSum / entry.total : null,
+      };
+    });
+
+    return {
+      total,
+      pending: countOf('pending'),
+      approved,
+      edited,
+      rejected,
+      approvalRate: rate(approved, reviewed),
+      editRate: rate(edited, reviewed),
+      rejectionRate: rate(rejected, reviewed),
+      avgConfidence: total > 0 ? confidenceSum / total : null,
+      avgReviewMinutes: reviewMinutes.length
+        ? reviewMinutes.reduce((sum, minutes) => sum + minutes, 0) / reviewMinutes.length
+        : null,
+      byAgent,
+    };
+  }
+}
+
+export default new AIDraftService();
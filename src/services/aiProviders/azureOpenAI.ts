@@ -8,7 +8,9 @@
  */
 
 import axios from 'axios';
-import { AIProvider, AIProviderConfig, AIMessage, AIResponse } from './index';
+import { AIProvider, AIProviderConfig, AIMessage, AIResponse, AIStreamChunk } from './index';
+import { readLines } from './streamUtils';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './toolUtils';
 import logger from '../../config/logger';
 
 export class AzureOpenAIProvider implements AIProvider {
@@ -40,12 +42,10 @@ export class AzureOpenAIProvider implements AIProvider {
       const response = await axios.post(
         url,
         {
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: toOpenAIMessages(messages),
           temperature: config?.temperature ?? this.temperature,
           max_tokens: config?.maxTokens ?? this.maxTokens,
+          ...(config?.tools?.length && { tools: toOpenAITools(config.tools) }),
         },
         {
           headers: {
@@ -59,9 +59,10 @@ export class AzureOpenAIProvider implements AIProvider {
       const choice = data.choices[0];
 
       return {
-        content: choice.message.content,
+        content: choice.message.content || '', // null when the model only calls tools
         model: data.model,
         provider: 'azure-openai',
+        toolCalls: fromOpenAIToolCalls(choice.message.tool_calls),
         usage: {
           promptTokens: data.usage?.prompt_tokens || 0,
           completionTokens: data.usage?.completion_tokens || 0,
@@ -77,6 +78,64 @@ export class AzureOpenAIProvider implements AIProvider {
     }
   }
 
+  async *streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncGenerator<AIStreamChunk> {
+    let model = config?.deploymentName || this.deploymentName;
+    let usage: AIResponse['usage'];
+
+    try {
+      const url = `${this.endpoint}/openai/deployments/${config?.deploymentName || this.deploymentName}/chat/completions?api-version=${this.apiVersion}`;
+
+      const response = await axios.post(
+        url,
+        {
+          messages: toOpenAIMessages(messages),
+          temperature: config?.temperature ?? this.temperature,
+          max_tokens: config?.maxTokens ?? this.maxTokens,
+          stream: true,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'api-key': this.apiKey,
+          },
+          responseType: 'stream',
+        }
+      );
+
+      // Server-sent events: "data: {json}" lines terminated by "data: [DONE]"
+      for await (const line of readLines(response.data)) {
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') break;
+
+        const data = JSON.parse(payload);
+        model = data.model || model;
+
+        if (data.usage) {
+          usage = {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0,
+          };
+        }
+
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield { content: delta, done: false };
+        }
+      }
+
+      yield { content: '', done: true, model, usage, provider: 'azure-openai' };
+    } catch (error) {
+      logger.error('Azure OpenAI streaming API error:', error);
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Azure OpenAI API error: ${error.message}`);
+      }
+      throw new Error(`Azure OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     if (!this.apiKey || !this.endpoint) {
       return false;
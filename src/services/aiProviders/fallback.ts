@@ -0,0 +1,204 @@
+/**
+ * Fallback Provider Chain
+ *
+ * Wraps an ordered list of providers. Each request goes to the first healthy
+ * provider and moves on to the next one when it fails. A per-provider circuit
+ * breaker stops sending traffic to a provider after repeated failures; once
+ * the cooldown has passed, isAvailable() is used as a probe before it is
+ * trusted again.
+ */
+
+import { AIProvider, AIProviderConfig, AIProviderType, AIMessage, AIResponse, AIStreamChunk } from './index';
+import logger from '../../config/logger';
+
+export interface ProviderChainEntry {
+  key: string; // identifies the provider instance (type + endpoint/deployment) for the circuit breaker
+  provider: AIProvider;
+}
+
+interface CircuitState {
+  failures: number;
+  openedUntil: number | null;
+  lastError?: string;
+}
+
+export interface CircuitStatus {
+  key: string;
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openedUntil: Date | null;
+  lastError?: string;
+}
+
+// Consecutive failures before a provider is taken out of rotation
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60 * 1000;
+
+// Shared across requests so every ticket benefits from what earlier ones learned
+const circuits = new Map<string, CircuitState>();
+
+const getCircuit = (key: string): CircuitState => {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { failures: 0, openedUntil: null };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+};
+
+export function getCircuitStatus(key: string): CircuitStatus {
+  const circuit = getCircuit(key);
+  const now = Date.now();
+
+  return {
+    key,
+    state: circuit.openedUntil === null ? 'closed' : circuit.openedUntil > now ? 'open' : 'half-open',
+    failures: circuit.failures,
+    openedUntil: circuit.openedUntil ? new Date(circuit.openedUntil) : null,
+    lastError: circuit.lastError,
+  };
+}
+
+export class AllProvidersFailedError extends Error {
+  constructor(public readonly attempts: { provider: AIProviderType; error: string }[]) {
+    super(`All AI providers failed: ${attempts.map((a) => `${a.provider} (${a.error})`).join('; ')}`);
+    this.name = 'AllProvidersFailedError';
+  }
+}
+
+export class FallbackProvider implements AIProvider {
+  readonly type: AIProviderType;
+
+  constructor(private readonly chain: ProviderChainEntry[]) {
+    if (chain.length === 0) {
+      throw new Error('Provider chain must contain at least one provider');
+    }
+    this.type = chain[0].provider.type;
+  }
+
+  /**
+   * Decide whether a provider may receive this request
+   */
+  private async canUse(entry: ProviderChainEntry): Promise<boolean> {
+    const circuit = getCircuit(entry.key);
+
+    if (circuit.openedUntil === null) {
+      return true;
+    }
+
+    if (circuit.openedUntil > Date.now()) {
+      return false;
+    }
+
+    // Half-open: probe before sending real traffic
+    const available = await entry.provider.isAvailable().catch(() => false);
+    if (!available) {
+      circuit.openedUntil = Date.now() + COOLDOWN_MS;
+      logger.warn(`AI provider ${entry.key} still unavailable, circuit stays open`);
+    }
+    return available;
+  }
+
+  private recordSuccess(entry: ProviderChainEntry): void {
+    const circuit = getCircuit(entry.key);
+    if (circuit.openedUntil !== null) {
+      logger.info(`AI provider ${entry.key} recovered, circuit closed`);
+    }
+    circuit.failures = 0;
+    circuit.openedUntil = null;
+    circuit.lastError = undefined;
+  }
+
+  private recordFailure(entry: ProviderChainEntry, error: unknown): void {
+    const circuit = getCircuit(entry.key);
+    circuit.failures += 1;
+    circuit.lastError = error instanceof Error ? error.message : String(error);
+
+    if (circuit.failures >= FAILURE_THRESHOLD || circuit.openedUntil !== null) {
+      circuit.openedUntil = Date.now() + COOLDOWN_MS;
+      logger.warn(`AI provider ${entry.key} failed ${circuit.failures} times, circuit opened for ${COOLDOWN_MS / 1000}s`);
+    }
+  }
+
+  async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
+    const attempts: { provider: AIProviderType; error: string }[] = [];
+
+    for (const entry of this.chain) {
+      if (!(await this.canUse(entry))) {
+        attempts.push({ provider: entry.provider.type, error: 'circuit open' });
+        continue;
+      }
+
+      try {
+        const response = await entry.provider.generateResponse(messages, config);
+        this.recordSuccess(entry);
+
+        return {
+          ...response,
+          ...(attempts.length > 0 && { fallbackFrom: attempts.map((a) => a.provider) }),
+        };
+      } catch (error) {
+        this.recordFailure(entry, error);
+        attempts.push({ provider: entry.provider.type, error: error instanceof Error ? error.message : 'Unknown error' });
+        logger.warn(`AI provider ${entry.key} failed, trying next provider in chain`);
+      }
+    }
+
+    throw new AllProvidersFailedError(attempts);
+  }
+
+  /**
+   * Streams from the first provider that starts answering. Once tokens have
+   * been sent a failure can no longer be retried elsewhere and is rethrown.
+   */
+  async *streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncGenerator<AIStreamChunk> {
+    const attempts: { provider: AIProviderType; error: string }[] = [];
+
+    for (const entry of this.chain) {
+      if (!(await this.canUse(entry))) {
+        attempts.push({ provider: entry.provider.type, error: 'circuit open' });
+        continue;
+      }
+
+      let started = false;
+
+      try {
+        for await (const chunk of entry.provider.streamResponse(messages, config)) {
+          started = true;
+
+          if (chunk.done) {
+            this.recordSuccess(entry);
+            yield {
+              ...chunk,
+              provider: chunk.provider || entry.provider.type,
+              ...(attempts.length > 0 && { fallbackFrom: attempts.map((a) => a.provider) }),
+            };
+          } else {
+            yield chunk;
+          }
+        }
+        return;
+      } catch (error) {
+        this.recordFailure(entry, error);
+
+        if (started) {
+          throw error;
+        }
+
+        attempts.push({ provider: entry.provider.type, error: error instanceof Error ? error.message : 'Unknown error' });
+        logger.warn(`AI provider ${entry.key} failed to stream, trying next provider in chain`);
+      }
+    }
+
+    throw new AllProvidersFailedError(attempts);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const entry of this.chain) {
+      if (await entry.provider.isAvailable().catch(() => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
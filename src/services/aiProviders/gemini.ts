@@ -2,8 +2,9 @@
  * Google Gemini AI Provider
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIProvider, AIProviderConfig, AIMessage, AIResponse } from './index';
+import { Content, FunctionDeclaration, GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { AIProvider, AIProviderConfig, AIMessage, AIResponse, AIStreamChunk } from './index';
+import { parseToolArguments, toGeminiSchema, toolCallId } from './toolUtils';
 import logger from '../../config/logger';
 
 export class GeminiProvider implements AIProvider {
@@ -25,46 +26,127 @@ export class GeminiProvider implements AIProvider {
     this.maxTokens = config.maxTokens ?? 2048;
   }
 
-  async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
-    try {
-      const model = this.client.getGenerativeModel({
-        model: config?.model || this.model,
-        generationConfig: {
-          temperature: config?.temperature ?? this.temperature,
-          maxOutputTokens: config?.maxTokens ?? this.maxTokens,
-        },
-      });
+  private getModel(config?: Partial<AIProviderConfig>) {
+    return this.client.getGenerativeModel({
+      model: config?.model || this.model,
+      generationConfig: {
+        temperature: config?.temperature ?? this.temperature,
+        maxOutputTokens: config?.maxTokens ?? this.maxTokens,
+      },
+    });
+  }
 
-      // Convert messages to Gemini format
-      const systemMessage = messages.find(m => m.role === 'system');
-      const conversationMessages = messages.filter(m => m.role !== 'system');
+  /**
+   * Convert messages to a single Gemini prompt
+   */
+  private buildPrompt(messages: AIMessage[]): string {
+    const systemMessage = messages.find(m => m.role === 'system');
+    const conversationMessages = messages.filter(m => m.role !== 'system');
 
-      // Build the prompt
-      let prompt = '';
-      if (systemMessage) {
-        prompt = `${systemMessage.content}\n\n`;
+    let prompt = '';
+    if (systemMessage) {
+      prompt = `${systemMessage.content}\n\n`;
+    }
+
+    for (const msg of conversationMessages) {
+      if (msg.role === 'user') {
+        prompt += `User: ${msg.content}\n`;
+      } else if (msg.role === 'assistant') {
+        prompt += `Assistant: ${msg.content}\n`;
       }
+    }
+
+    return prompt;
+  }
 
-      for (const msg of conversationMessages) {
-        if (msg.role === 'user') {
-          prompt += `User: ${msg.content}\n`;
-        } else if (msg.role === 'assistant') {
-          prompt += `Assistant: ${msg.content}\n`;
+  /**
+   * Structured contents for tool-calling requests: the system prompt becomes
+   * the system instruction and tool turns become function call/response parts
+   */
+  private buildContents(messages: AIMessage[]): { systemInstruction?: string; contents: Content[] } {
+    const systemInstruction = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const contents: Content[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'model' : msg.role === 'tool' ? 'function' : 'user';
+      const parts: Part[] = [];
+
+      if (msg.role === 'tool') {
+        parts.push({ functionResponse: { name: msg.toolName || '', response: { result: msg.content } } });
+      } else {
+        if (msg.content) parts.push({ text: msg.content });
+        for (const call of msg.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
         }
       }
 
-      const result = await model.generateContent(prompt);
+      // Results of several calls from one turn go back together
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return { systemInstruction: systemInstruction || undefined, contents };
+  }
+
+  private async generateWithTools(messages: AIMessage[], config: Partial<AIProviderConfig>) {
+    const { systemInstruction, contents } = this.buildContents(messages);
+    const functionDeclarations: FunctionDeclaration[] = (config.tools || []).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      // Gemini rejects an object schema without properties
+      ...(Object.keys(tool.parameters?.properties || {}).length > 0 && {
+        parameters: toGeminiSchema(tool.parameters) as FunctionDeclaration['parameters'],
+      }),
+    }));
+
+    const model = this.client.getGenerativeModel({
+      model: config.model || this.model,
+      generationConfig: {
+        temperature: config.temperature ?? this.temperature,
+        maxOutputTokens: config.maxTokens ?? this.maxTokens,
+      },
+      ...(systemInstruction && { systemInstruction }),
+      ...(functionDeclarations.length > 0 && { tools: [{ functionDeclarations }] }),
+    });
+
+    return model.generateContent({ contents });
+  }
+
+  async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
+    try {
+      const usesTools = !!config?.tools?.length || messages.some(m => m.role === 'tool' || m.toolCalls?.length);
+      const result = usesTools
+        ? await this.generateWithTools(messages, config || {})
+        : await this.getModel(config).generateContent(this.buildPrompt(messages));
       const response = result.response;
       const text = response.text();
+      const functionCalls = response.functionCalls();
+      const usage = response.usageMetadata;
 
       return {
         content: text,
         model: config?.model || this.model,
         provider: 'gemini',
+        ...(functionCalls?.length && {
+          toolCalls: functionCalls.map((call, index) => ({
+            id: toolCallId(index),
+            name: call.name,
+            arguments: parseToolArguments(call.args),
+          })),
+        }),
         usage: {
-          promptTokens: 0, // Gemini doesn't provide token counts in the same way
-          completionTokens: 0,
-          totalTokens: 0,
+          promptTokens: usage?.promptTokenCount || 0,
+          completionTokens: usage?.candidatesTokenCount || 0,
+          totalTokens: usage?.totalTokenCount || 0,
         },
       };
     } catch (error) {
@@ -73,6 +155,38 @@ export class GeminiProvider implements AIProvider {
     }
   }
 
+  async *streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncGenerator<AIStreamChunk> {
+    try {
+      const model = this.getModel(config);
+      const result = await model.generateContentStream(this.buildPrompt(messages));
+
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield { content: text, done: false };
+        }
+      }
+
+      const response = await result.response;
+      const usage = response.usageMetadata;
+
+      yield {
+        content: '',
+        done: true,
+        model: config?.model || this.model,
+        provider: 'gemini',
+        usage: {
+          promptTokens: usage?.promptTokenCount || 0,
+          completionTokens: usage?.candidatesTokenCount || 0,
+          totalTokens: usage?.totalTokenCount || 0,
+        },
+      };
+    } catch (error) {
+      logger.error('Gemini streaming API error:', error);
+      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const model = this.client.getGenerativeModel({ model: this.model });
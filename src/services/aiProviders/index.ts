@@ -17,11 +17,28 @@ export interface AIProviderConfig {
   deploymentName?: string; // For Azure
   temperature?: number;
   maxTokens?: number;
+  tools?: AIToolDefinition[]; // functions the model may call on this request
+}
+
+// A function the model may call; parameters is a JSON Schema object
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
 }
 
 export interface AIMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: AIToolCall[]; // assistant turn that asked for tools
+  toolCallId?: string; // tool turn: the call this is the result of
+  toolName?: string;
 }
 
 export interface AIResponse {
@@ -33,11 +50,23 @@ export interface AIResponse {
   };
   model: string;
   provider: AIProviderType;
+  fallbackFrom?: AIProviderType[]; // providers in the chain that failed before this one answered
+  toolCalls?: AIToolCall[]; // set when the model wants tool results before answering
+}
+
+export interface AIStreamChunk {
+  content: string; // text generated since the previous chunk
+  done: boolean;
+  usage?: AIResponse['usage']; // reported on the final chunk when the provider supplies it
+  model?: string;
+  provider?: AIProviderType; // set on the final chunk
+  fallbackFrom?: AIProviderType[];
 }
 
 export interface AIProvider {
   readonly type: AIProviderType;
   generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse>;
+  streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncIterable<AIStreamChunk>;
   isAvailable(): Promise<boolean>;
 }
 
@@ -50,6 +79,9 @@ export { LocalProvider } from './local';
 import { GeminiProvider } from './gemini';
 import { AzureOpenAIProvider } from './azureOpenAI';
 import { LocalProvider } from './local';
+import { FallbackProvider, CircuitStatus, getCircuitStatus } from './fallback';
+
+export { FallbackProvider, AllProvidersFailedError } from './fallback';
 
 export function createAIProvider(config: AIProviderConfig): AIProvider {
   switch (config.type) {
@@ -64,6 +96,75 @@ export function createAIProvider(config: AIProviderConfig): AIProvider {
   }
 }
 
+export const AI_PROVIDER_TYPES: AIProviderType[] = ['gemini', 'azure-openai', 'local'];
+
+// Build the config for one provider from an organization's compliance settings
+function buildComplianceConfig(
+  providerType: AIProviderType,
+  complianceSettings: any,
+  overrides: Partial<AIProviderConfig>
+): AIProviderConfig {
+  return {
+    apiKey: providerType === 'gemini' ? process.env.GEMINI_API_KEY :
+            providerType === 'azure-openai' ? complianceSettings?.azureOpenAIKey : undefined,
+    endpoint: providerType === 'azure-openai' ? complianceSettings?.azureOpenAIEndpoint :
+              providerType === 'local' ? complianceSettings?.localModelEndpoint : undefined,
+    deploymentName: complianceSettings?.azureOpenAIDeployment,
+    model: providerType === 'local' ? complianceSettings?.localModelName : undefined,
+    temperature: 0.3,
+    ...overrides,
+    type: providerType,
+  };
+}
+
+// Ordered providers an organization allows, with forbidden providers removed
+export function getProviderChain(complianceSettings: any): AIProviderType[] {
+  const forbidden: AIProviderType[] = complianceSettings?.forbiddenProviders || [];
+  const configured: AIProviderType[] = complianceSettings?.providerChain?.length
+    ? complianceSettings.providerChain
+    : [complianceSettings?.aiProvider || 'gemini'];
+
+  return Array.from(new Set(configured)).filter(
+    (type) => AI_PROVIDER_TYPES.includes(type) && !forbidden.includes(type)
+  );
+}
+
+// Identifies a provider instance for the fallback circuit breaker
+export function getProviderKey(config: AIProviderConfig): string {
+  return [config.type, config.endpoint || '', config.deploymentName || config.model || ''].join('|');
+}
+
+// Provider selected by an organization's compliance settings
+// With more than one provider in the chain, requests fail over in order
+export function createComplianceProvider(
+  complianceSettings: any,
+  overrides: Partial<AIProviderConfig> = {}
+): AIProvider {
+  const chain = getProviderChain(complianceSettings);
+
+  if (chain.length === 0) {
+    throw new Error('No AI provider is allowed by the organization\'s compliance settings');
+  }
+
+  const configs = chain.map((type) => buildComplianceConfig(type, complianceSettings, overrides));
+
+  if (configs.length === 1) {
+    return createAIProvider(configs[0]);
+  }
+
+  return new FallbackProvider(
+    configs.map((config) => ({ key: getProviderKey(config), provider: createAIProvider(config) }))
+  );
+}
+
+// Circuit breaker state for each provider in an organization's chain
+export function getProviderChainHealth(complianceSettings: any): (CircuitStatus & { provider: AIProviderType })[] {
+  return getProviderChain(complianceSettings).map((type) => ({
+    provider: type,
+    ...getCircuitStatus(getProviderKey(buildComplianceConfig(type, complianceSettings, {}))),
+  }));
+}
+
 // Default provider based on environment
 export function getDefaultProvider(): AIProvider {
   // Check which provider is configured
@@ -10,7 +10,9 @@
  */
 
 import axios from 'axios';
-import { AIProvider, AIProviderConfig, AIMessage, AIResponse } from './index';
+import { AIProvider, AIProviderConfig, AIMessage, AIResponse, AIStreamChunk } from './index';
+import { readLines } from './streamUtils';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './toolUtils';
 import logger from '../../config/logger';
 
 export class LocalProvider implements AIProvider {
@@ -36,11 +38,9 @@ export class LocalProvider implements AIProvider {
         `${this.baseUrl}/api/chat`,
         {
           model,
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: toOpenAIMessages(messages, { argumentsAsObject: true }),
           stream: false,
+          ...(config?.tools?.length && { tools: toOpenAITools(config.tools) }),
           options: {
             temperature: config?.temperature ?? this.temperature,
             num_predict: config?.maxTokens ?? this.maxTokens,
@@ -60,6 +60,7 @@ export class LocalProvider implements AIProvider {
         content: data.message?.content || '',
         model,
         provider: 'local',
+        toolCalls: fromOpenAIToolCalls(data.message?.tool_calls),
         usage: {
           promptTokens: data.prompt_eval_count || 0,
           completionTokens: data.eval_count || 0,
@@ -78,6 +79,69 @@ export class LocalProvider implements AIProvider {
     }
   }
 
+  async *streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncGenerator<AIStreamChunk> {
+    const model = config?.model || this.model;
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/api/chat`,
+        {
+          model,
+          messages: toOpenAIMessages(messages, { argumentsAsObject: true }),
+          stream: true,
+          options: {
+            temperature: config?.temperature ?? this.temperature,
+            num_predict: config?.maxTokens ?? this.maxTokens,
+          },
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          responseType: 'stream',
+          timeout: 120000, // time to first byte - local models can be slow
+        }
+      );
+
+      // Ollama streams newline-delimited JSON objects, the last one has done: true
+      for await (const line of readLines(response.data)) {
+        const data = JSON.parse(line);
+
+        if (data.error) {
+          throw new Error(data.error);
+        }
+
+        if (data.message?.content) {
+          yield { content: data.message.content, done: false };
+        }
+
+        if (data.done) {
+          yield {
+            content: '',
+            done: true,
+            model,
+            provider: 'local',
+            usage: {
+              promptTokens: data.prompt_eval_count || 0,
+              completionTokens: data.eval_count || 0,
+              totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+            },
+          };
+          return;
+        }
+      }
+    } catch (error) {
+      logger.error('Local AI (Ollama) streaming error:', error);
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNREFUSED') {
+          throw new Error('Local AI server (Ollama) is not running. Please start Ollama first.');
+        }
+        throw new Error(`Local AI error: ${error.message}`);
+      }
+      throw new Error(`Local AI error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const response = await axios.get(`${this.baseUrl}/api/tags`, {
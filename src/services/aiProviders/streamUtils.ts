@@ -0,0 +1,30 @@
+/**
+ * Helpers for consuming streamed HTTP responses from AI providers
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Yield complete lines from a byte stream (SSE and NDJSON bodies are line-delimited)
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk.toString('utf8');
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line.trim()) {
+        yield line;
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Helpers for converting tool definitions and tool-call turns between
+ * providers. Azure OpenAI and Ollama share the OpenAI chat format; Gemini
+ * has its own function declarations and content parts.
+ */
+
+import { AIMessage, AIToolCall, AIToolDefinition } from './index';
+
+/**
+ * Tool calls the model made without an id get one, so results can be matched to them
+ */
+export function toolCallId(index: number): string {
+  return `call_${Date.now().toString(36)}_${index}`;
+}
+
+/**
+ * Arguments arrive as a JSON string (OpenAI) or an object (Ollama, Gemini)
+ */
+export function parseToolArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function toOpenAITools(tools: AIToolDefinition[]) {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Messages in the OpenAI chat format. Ollama takes arguments as an object
+ * rather than a JSON string.
+ */
+export function toOpenAIMessages(messages: AIMessage[], options: { argumentsAsObject?: boolean } = {}) {
+  return messages.map((m) => {
+    if (m.role === 'tool') {
+      return { role: 'tool', content: m.content, tool_call_id: m.toolCallId, name: m.toolName };
+    }
+
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: options.argumentsAsObject ? call.arguments : JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: m.role, content: m.content };
+  });
+}
+
+export function fromOpenAIToolCalls(toolCalls: any[] | undefined): AIToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+
+  return toolCalls.map((call, index) => ({
+    id: call.id || toolCallId(index),
+    name: call.function?.name,
+    arguments: parseToolArguments(call.function?.arguments),
+  }));
+}
+
+// Gemini accepts a subset of OpenAPI 3.0 schema keywords
+const GEMINI_SCHEMA_KEYS = new Set([
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+]);
+
+/**
+ * JSON Schema with the keywords Gemini rejects (additionalProperties, $schema, ...) removed
+ */
+export function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) continue;
+
+    if (key === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (key === 'items') {
+      result.items = toGeminiSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,227 @@
+/**
+ * AI Usage Service
+ *
+ * Meters every AI call by organization and billing period: tokens, provider,
+ * model and an estimated cost. Totals roll up into usage_tracking so monthly
+ * AI budgets from the subscription plan's features can be enforced.
+ *
+ * Plan features:
+ *   ai_monthly_token_budget - total tokens per month, -1 or absent for unlimited
+ *   ai_monthly_cost_budget  - estimated USD per month, -1 or absent for unlimited
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import meteringService from './meteringService';
+
+export type AIUsageFeature = 'auto_response' | 'recurring_issues' | 'agent_chat' | 'embedding' | 'rerank' | 'evaluation' | 'classification' | 'summary';
+
+export interface AIUsageInput {
+  feature: AIUsageFeature;
+  provider: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  metadata?: Record<string, any>;
+}
+
+export interface AIBudgetStatus {
+  period: string;
+  tokensUsed: number;
+  costUsed: number;
+  tokenBudget: number | null; // null means unlimited
+  costBudget: number | null;
+  exceeded: boolean;
+}
+
+// USD per million tokens; the first matching prefix wins
+const MODEL_PRICING: { provider: string; modelPrefix: string; input: number; output: number }[] = [
+  { provider: 'gemini', modelPrefix: 'text-embedding', input: 0.025, output: 0 },
+  { provider: 'gemini', modelPrefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { provider: 'gemini', modelPrefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { provider: 'gemini', modelPrefix: 'gemini-pro', input: 0.5, output: 1.5 },
+  { provider: 'gemini', modelPrefix: '', input: 1.25, output: 5 },
+  { provider: 'azure-openai', modelPrefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { provider: 'azure-openai', modelPrefix: 'gpt-4o', input: 2.5, output: 10 },
+  { provider: 'azure-openai', modelPrefix: 'gpt-35', input: 0.5, output: 1.5 },
+  { provider: 'azure-openai', modelPrefix: '', input: 10, output: 30 },
+];
+
+export class AIUsageService {
+  getCurrentPeriod(): string {
+    return new Date().toISOString().slice(0, 7); // YYYY-MM
+  }
+
+  /**
+   * Rough token count for providers that do not report usage (embeddings)
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Estimated cost in USD; local models are free
+   */
+  estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = MODEL_PRICING.find(
+      (price) => price.provider === provider && model.toLowerCase().startsWith(price.modelPrefix)
+    );
+
+    if (!pricing) {
+      return 0;
+    }
+
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Record one AI call. Failures are logged and never break the AI flow.
+   */
+  async record(organizationId: string, input: AIUsageInput): Promise<void> {
+    try {
+      const promptTokens = input.usage?.promptTokens || 0;
+      const completionTokens = input.usage?.completionTokens || 0;
+      const totalTokens = input.usage?.totalTokens || promptTokens + completionTokens;
+      const estimatedCost = this.estimateCost(input.provider, input.model, promptTokens, completionTokens);
+      const period = this.getCurrentPeriod();
+
+      await prisma.aiUsageRecord.create({
+        data: {
+          organizationId,
+          period,
+          feature: input.feature,
+          provider: input.provider,
+          model: input.model,
+          promptTokens,
+          completionTokens,
+          totalTokens,
+          estimatedCost,
+          metadata: input.metadata || {},
+        },
+      });
+
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { subscriptionId: true },
+      });
+
+      if (!organization?.subscriptionId) {
+        return;
+      }
+
+      // A new month's row must start with the real channel/form/agent/teammate counts
+      await meteringService.ensurePeriod(organizationId, organization.subscriptionId, period);
+
+      // Increment in place so concurrent calls do not overwrite each other
+      await prisma.usageTracking.update({
+        where: {
+          subscriptionId_period: {
+            subscriptionId: organization.subscriptionId,
+            period,
+          },
+        },
+        data: {
+          aiTokensUsed: { increment: totalTokens },
+          aiCostUsed: { increment: estimatedCost },
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record AI usage for organization ${organizationId}:`, error);
+    }
+  }
+
+  /**
+   * Current period usage against the plan's monthly AI budgets
+   */
+  async getBudgetStatus(organizationId: string): Promise<AIBudgetStatus> {
+    const period = this.getCurrentPeriod();
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        subscription: {
+          include: {
+            plan: true,
+            usageTracking: { where: { period } },
+          },
+        },
+      },
+    });
+
+    const features = (organization?.subscription?.plan.features as any) || {};
+    const usage = organization?.subscription?.usageTracking[0];
+
+    const toBudget = (value: unknown): number | null =>
+      typeof value === 'number' && value >= 0 ? value : null;
+
+    const tokenBudget = toBudget(features.ai_monthly_token_budget);
+    const costBudget = toBudget(features.ai_monthly_cost_budget);
+    const tokensUsed = usage?.aiTokensUsed || 0;
+    const costUsed = Number(usage?.aiCostUsed || 0);
+
+    return {
+      period,
+      tokensUsed,
+      costUsed,
+      tokenBudget,
+      costBudget,
+      exceeded: (tokenBudget !== null && tokensUsed >= tokenBudget) || (costBudget !== null && costUsed >= costBudget),
+    };
+  }
+
+  /**
+   * Throw when the organization has used up its monthly AI budget
+   */
+  async assertWithinBudget(organizationId: string): Promise<void> {
+    const status = await this.getBudgetStatus(organizationId);
+
+    if (status.exceeded) {
+      throw new AppError('Monthly AI budget exceeded for this organization', 403);
+    }
+  }
+
+  /**
+   * Usage for a period broken down by feature, provider and model
+   */
+  async getUsageSummary(organizationId: string, period: string = this.getCurrentPeriod()) {
+    const grouped = await prisma.aiUsageRecord.groupBy({
+      by: ['feature', 'provider', 'model'],
+      where: { organizationId, period },
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+        totalTokens: true,
+        estimatedCost: true,
+      },
+      _count: { _all: true },
+    });
+
+    const breakdown = grouped.map((row) => ({
+      feature: row.feature,
+      provider: row.provider,
+      model: row.model,
+      calls: row._count._all,
+      promptTokens: row._sum.promptTokens || 0,
+      completionTokens: row._sum.completionTokens || 0,
+      totalTokens: row._sum.totalTokens || 0,
+      estimatedCost: Number(row._sum.estimatedCost || 0),
+    }));
+
+    const budget = await this.getBudgetStatus(organizationId);
+
+    return {
+      period,
+      totalTokens: breakdown.reduce((sum, row) => sum + row.totalTokens, 0),
+      estimatedCost: breakdown.reduce((sum, row) => sum + row.estimatedCost, 0),
+      calls: breakdown.reduce((sum, row) => sum + row.calls, 0),
+      breakdown,
+      budget: period === budget.period ? budget : null,
+    };
+  }
+}
+
+export default new AIUsageService();
@@ -0,0 +1,241 @@
+/**
+ * Analytics Snapshot Service
+ *
+ * Pre-aggregates ticket metrics per organization and period (day, week,
+ * month) - overall, per channel and per assigned agent - so dashboards read a
+ * handful of rows instead of grouping raw tickets on every request. Periods
+ * are UTC; weeks start on Monday.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { analyticsQueue } from '../config/queue';
+
+export type SnapshotGranularity = 'day' | 'week' | 'month';
+export type SnapshotDimension = 'all' | 'channel' | 'agent';
+
+export const SNAPSHOT_GRANULARITIES: SnapshotGranularity[] = ['day', 'week', 'month'];
+export const SNAPSHOT_DIMENSIONS: SnapshotDimension[] = ['all', 'channel', 'agent'];
+
+// Upper bound for backfills, including those queued for gaps found on read
+export const MAX_BACKFILL_PERIODS = 400;
+
+const CURRENT_PERIOD_TTL_MS = 5 * 60 * 1000;
+
+export class AnalyticsSnapshotService {
+  /**
+   * Start of the period containing the given date
+   */
+  getPeriodStart(granularity: SnapshotGranularity, date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    if (granularity === 'week') {
+      const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    } else if (granularity === 'month') {
+      start.setUTCDate(1);
+    }
+
+    return start;
+  }
+
+  /**
+   * Shift a period start by a number of periods (negative to go back)
+   */
+  addPeriods(granularity: SnapshotGranularity, periodStart: Date, count: number): Date {
+    const next = new Date(periodStart);
+
+    if (granularity === 'day') {
+      next.setUTCDate(next.getUTCDate() + count);
+    } else if (granularity === 'week') {
+      next.setUTCDate(next.getUTCDate() + count * 7);
+    } else {
+      next.setUTCMonth(next.getUTCMonth() + count);
+    }
+
+    return next;
+  }
+
+  /**
+   * Compute and store all snapshots for one period, replacing earlier ones
+   * Returns the number of snapshot rows written.
+   */
+  async computePeriod(organizationId: string, granularity: SnapshotGranularity, periodStart: Date): Promise<number> {
+    const periodEnd = this.addPeriods(granularity, periodStart, 1);
+
+    const rows = (await prisma.$queryRaw`
+      SELECT
+        CASE
+          WHEN GROUPING(t.channel) = 0 THEN 'channel'
+          WHEN GROUPING(t.agent) = 0 THEN 'agent'
+          ELSE 'all'
+        END AS dimension,
+        COALESCE(t.channel, t.agent, '') AS dimension_value,
+        COUNT(t.id)::int AS total_tickets,
+        COUNT(t.id) FILTER (WHERE t.status = 'open')::int AS open_tickets,
+        COUNT(t.id) FILTER (WHERE t.status = 'in_progress')::int AS in_progress_tickets,
+        COUNT(t.id) FILTER (WHERE t.status = 'closed')::int AS closed_tickets,
+        COUNT(t.id) FILTER (WHERE t.status = 'closed' AND t.assigned_to IS NULL)::int AS ai_resolved_tickets,
+        AVG(EXTRACT(EPOCH FROM (t.closed_at - t.created_at)) / 60)
+          FILTER (WHERE t.status = 'closed' AND t.closed_at IS NOT NULL)::float8 AS avg_resolution_minutes
+      FROM (
+        SELECT
+          id,
+          status,
+          assigned_to,
+          created_at,
+          closed_at,
+          COALESCE(metadata->>'source', 'internal') AS channel,
+          COALESCE(assigned_to::text, 'unassigned') AS agent
+        FROM tickets
+        WHERE organization_id = ${organizationId}
+          AND created_at >= ${periodStart}
+          AND created_at < ${periodEnd}
+      ) t
+      GROUP BY GROUPING SETS ((), (t.channel), (t.agent))
+    `) as any[];
+
+    await prisma.$transaction([
+      prisma.analyticsSnapshot.deleteMany({
+        where: { organizationId, granularity, periodStart },
+      }),
+      prisma.analyticsSnapshot.createMany({
+        data: rows.map((row) => ({
+          organizationId,
+          granularity,
+          periodStart,
+          periodEnd,
+          dimension: row.dimension,
+          dimensionValue: row.dimension_value,
+          totalTickets: row.total_tickets,
+          openTickets: row.open_tickets,
+          inProgressTickets: row.in_progress_tickets,
+          closedTickets: row.closed_tickets,
+          aiResolvedTickets: row.ai_resolved_tickets,
+          avgResolutionMinutes: row.avg_resolution_minutes === null ? null : Number(row.avg_resolution_minutes),
+        })),
+      }),
+    ]);
+
+    return rows.length;
+  }
+
+  /**
+   * Recompute the last N completed periods (oldest first)
+   */
+  async backfill(organizationId: string, granularity: SnapshotGranularity, periods: number): Promise<number> {
+    const count = Math.min(Math.max(periods, 1), MAX_BACKFILL_PERIODS);
+    const currentStart = this.getPeriodStart(granularity, new Date());
+    let written = 0;
+
+    for (let i = count; i >= 1; i--) {
+      written += await this.computePeriod(organizationId, granularity, this.addPeriods(granularity, currentStart, -i));
+    }
+
+    logger.info(`Backfilled ${count} ${granularity} analytics periods for organization ${organizationId}`);
+    return written;
+  }
+
+  /**
+   * Queue a background backfill when completed periods in the range have no
+   * snapshot yet. Reads never aggregate past periods themselves, so a first
+   * long-range request answers with what exists and fills in on a later one.
+   */
+  async queueGaps(organizationId: string, granularity: SnapshotGranularity, from: Date, to: Date): Promise<number> {
+    const currentStart = this.getPeriodStart(granularity, new Date());
+    const existing = await prisma.analyticsSnapshot.findMany({
+      where: {
+        organizationId,
+        granularity,
+        dimension: 'all',
+        periodStart: { gte: this.getPeriodStart(granularity, from), lte: to },
+      },
+      select: { periodStart: true },
+    });
+
+    const known = new Set(existing.map((snapshot) => snapshot.periodStart.getTime()));
+    let oldestMissing: Date | null = null;
+    let missing = 0;
+
+    for (
+      let periodStart = this.getPeriodStart(granularity, from);
+      periodStart < currentStart && periodStart <= to;
+      periodStart = this.addPeriods(granularity, periodStart, 1)
+    ) {
+      if (!known.has(periodStart.getTime())) {
+        oldestMissing = oldestMissing || periodStart;
+        missing++;
+      }
+    }
+
+    if (!oldestMissing) {
+      return 0;
+    }
+
+    // A backfill covers the last N completed periods, so reach back to the oldest gap
+    let periods = 0;
+    for (let periodStart = oldestMissing; periodStart < currentStart; periodStart = this.addPeriods(granularity, periodStart, 1)) {
+      periods++;
+    }
+
+    // The job ID keeps reloads of the same dashboard from queueing the same backfill again
+    try {
+      await analyticsQueue.add(
+        { organizationId, type: 'backfill', granularity, periods: Math.min(periods, MAX_BACKFILL_PERIODS) },
+        { jobId: `gaps:${organizationId}:${granularity}:${currentStart.toISOString()}:${periods}` }
+      );
+    } catch (error) {
+      logger.warn(`Could not queue analytics backfill for organization ${organizationId}:`, error);
+    }
+
+    return missing;
+  }
+
+  /**
+   * Snapshot rows for a range, including the current (incomplete) period computed live.
+   * Missing past periods are queued rather than computed in the request.
+   */
+  async getSeries(
+    organizationId: string,
+    options: {
+      granularity: SnapshotGranularity;
+      from: Date;
+      to: Date;
+      dimension?: SnapshotDimension;
+      dimensionValue?: string;
+    }
+  ) {
+    const dimension = options.dimension || 'all';
+
+    await this.queueGaps(organizationId, options.granularity, options.from, options.to);
+
+    const currentStart = this.getPeriodStart(options.granularity, new Date());
+    if (options.to >= currentStart) {
+      // The current period is still changing; refresh it unless it was computed moments ago
+      const current = await prisma.analyticsSnapshot.findFirst({
+        where: { organizationId, granularity: options.granularity, periodStart: currentStart, dimension: 'all' },
+        select: { computedAt: true },
+      });
+
+      if (!current || Date.now() - current.computedAt.getTime() > CURRENT_PERIOD_TTL_MS) {
+        await this.computePeriod(organizationId, options.granularity, currentStart);
+      }
+    }
+
+    return prisma.analyticsSnapshot.findMany({
+      where: {
+        organizationId,
+        granularity: options.granularity,
+        dimension,
+        ...(options.dimensionValue !== undefined && { dimensionValue: options.dimensionValue }),
+        periodStart: {
+          gte: this.getPeriodStart(options.granularity, options.from),
+          lte: options.to,
+        },
+      },
+      orderBy: [{ periodStart: 'asc' }, { dimensionValue: 'asc' }],
+    });
+  }
+}
+
+export default new AnalyticsSnapshotService();
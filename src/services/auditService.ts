@@ -0,0 +1,229 @@
+/**
+ * Audit Service
+ *
+ * Append-only compliance log of AI processing and admin actions, stored in
+ * audit_events so it can be filtered and exported for regulators. The table
+ * rejects updates and deletes at the database level.
+ *
+ * AI calls are only recorded while the organization's
+ * compliance.auditLoggingEnabled is on (the default); admin actions are always
+ * recorded.
+ */
+
+import { AuditEvent, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export type AuditAction =
+  | 'ai.call'
+  | 'settings.update'
+  | 'member.role_change'
+  | 'member.remove'
+  | 'legal_hold.update'
+  | 'data.export'
+  | 'ai_agent.publish';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'ai.call',
+  'settings.update',
+  'member.role_change',
+  'member.remove',
+  'legal_hold.update',
+  'data.export',
+  'ai_agent.publish',
+];
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actorId?: string | null; // user ID; system actions have none
+  resourceType?: string;
+  resourceId?: string;
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+}
+
+export interface AICallAudit {
+  feature: string;
+  provider: string;
+  model: string;
+  ticketId?: string;
+  userId?: string; // requesting user, when a person triggered the call
+  redactionCount?: number;
+  fallbackFrom?: string[];
+  [key: string]: any;
+}
+
+export interface AuditEventFilters {
+  action?: string;
+  actorId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Upper bound for a single export
+export const MAX_EXPORT_EVENTS = 50000;
+
+const CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'action',
+  'actor_type',
+  'actor_id',
+  'resource_type',
+  'resource_id',
+  'ip_address',
+  'metadata',
+] as const;
+
+const csvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class AuditService {
+  /**
+   * Append an event. Failures are logged and never break the audited action.
+   */
+  async record(organizationId: string, input: AuditEventInput): Promise<void> {
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          organizationId,
+          action: input.action,
+          actorType: input.actorId ? 'user' : 'system',
+          actorId: input.actorId || null,
+          resourceType: input.resourceType,
+          resourceId: input.resourceId,
+          metadata: input.metadata || {},
+          ipAddress: input.ipAddress,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record audit event ${input.action} for organization ${organizationId}:`, error);
+    }
+  }
+
+  /**
+   * Record one AI provider call if the organization has audit logging enabled
+   */
+  async recordAICall(organizationId: string, call: AICallAudit): Promise<void> {
+    try {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { settings: true },
+      });
+
+      if ((organization?.settings as any)?.compliance?.auditLoggingEnabled === false) {
+        return;
+      }
+    } catch (error) {
+      logger.error(`Failed to read audit settings for organization ${organizationId}:`, error);
+    }
+
+    const { userId, ticketId, ...details } = call;
+
+    await this.record(organizationId, {
+      action: 'ai.call',
+      actorId: userId,
+      resourceType: ticketId ? 'ticket' : undefined,
+      resourceId: ticketId,
+      metadata: { ...details, ...(ticketId && { ticketId }) },
+    });
+  }
+
+  /**
+   * Fields that differ between two settings objects, as { field: { from, to } }
+   */
+  diff(before: Record<string, any> = {}, after: Record<string, any> = {}): Record<string, { from: any; to: any }> {
+    const changes: Record<string, { from: any; to: any }> = {};
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+      }
+    }
+
+    return changes;
+  }
+
+  private buildWhere(organizationId: string, filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+    return {
+      organizationId,
+      ...(filters.action && { action: filters.action }),
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.resourceType && { resourceType: filters.resourceType }),
+      ...(filters.resourceId && { resourceId: filters.resourceId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Events matching the filters, newest first
+   */
+  async list(organizationId: string, filters: AuditEventFilters, options: { skip?: number; take?: number } = {}) {
+    const where = this.buildWhere(organizationId, filters);
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: options.skip,
+        take: options.take,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * All events matching the filters in chronological order, for export.
+   * Refuses rather than truncates when there are more than MAX_EXPORT_EVENTS.
+   */
+  async export(organizationId: string, filters: AuditEventFilters): Promise<AuditEvent[]> {
+    const where = this.buildWhere(organizationId, filters);
+    const total = await prisma.auditEvent.count({ where });
+
+    if (total > MAX_EXPORT_EVENTS) {
+      throw new AppError(
+        `${total} events match; an export is limited to ${MAX_EXPORT_EVENTS}. Narrow the date range and export in parts.`,
+        413
+      );
+    }
+
+    return prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  toCsv(events: AuditEvent[]): string {
+    const rows = events.map((event) =>
+      [
+        event.id,
+        event.createdAt.toISOString(),
+        event.action,
+        event.actorType,
+        event.actorId,
+        event.resourceType,
+        event.resourceId,
+        event.ipAddress,
+        JSON.stringify(event.metadata),
+      ]
+        .map(csvField)
+        .join(',')
+    );
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+}
+
+export default new AuditService();
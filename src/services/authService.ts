@@ -117,6 +117,7 @@ export class AuthService {
           data: {
             subscriptionId: subscription.id,
             period: currentPeriod,
+            teammatesUsed: 1, // the owner
           },
         });
 
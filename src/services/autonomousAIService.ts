@@ -2,10 +2,17 @@ import prisma from '../config/database';
 import genAI from '../config/gemini';
 import logger from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
-import { RedactionPipeline } from 'openred';
-
-const piiPipeline = new RedactionPipeline();
-import { createAIProvider, AIProvider, AIProviderType } from './aiProviders';
+import { createComplianceProvider, AIProvider, AIProviderType } from './aiProviders';
+import routingService, { RoutingDecision } from './routingService';
+import ticketEmbeddingService, { SimilarTicket } from './ticketEmbeddingService';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import piiVault from './piiVault';
+import piiRedactor, { CustomPIIPattern } from './piiRedactor';
+import { PIIPackId } from './piiPatternPacks';
+import knowledgeBaseService, { KnowledgeChunk } from './knowledgeBaseService';
+import groundingService, { Citation, CITATION_INSTRUCTIONS, GroundingResult } from './groundingService';
+import agentToolService, { ToolInvocation } from './agentToolService';
 
 interface AutoResponseResult {
   shouldRespond: boolean;
@@ -13,19 +20,44 @@ interface AutoResponseResult {
   confidence: number;
   shouldAssignToAgent: boolean;
   assignedAgentId?: string;
+  routing?: RoutingDecision | null;
   piiRedacted?: boolean;
   redactionCount?: number;
+  provider?: AIProviderType; // provider that produced the analysis
+  model?: string;
+  fallbackFrom?: AIProviderType[];
+  agentId?: string; // AI agent whose prompt produced the reply
+  agentVersionId?: string; // published AiAgentVersion of that agent at the time
+  sources?: AutoResponseSource[];
+  requiresApproval?: boolean; // approvalMode 'review': hold the reply as a draft for an agent
+  citations?: Citation[]; // knowledge base chunks the reply is based on
+  grounding?: GroundingResult;
+  toolInvocations?: ToolInvocation[]; // tools the agent called (toolsEnabled)
+  escalationReason?: string; // the agent called escalate_to_human
+}
+
+export interface AutoResponseSource {
+  type: 'similar_ticket';
+  ticketId: string;
+  subject: string;
+  similarity: number;
 }
 
 interface AIComplianceSettings {
   piiRedactionEnabled: boolean;
+  piiPacks?: PIIPackId[]; // country pattern packs, defaults to ['ng']
+  customPiiPatterns?: CustomPIIPattern[];
+  neverRehydrate?: string[]; // PII types masked in AI replies in addition to CARD_NUM and BVN
   aiProvider: AIProviderType;
+  providerChain?: AIProviderType[]; // ordered fallback chain, defaults to [aiProvider]
+  forbiddenProviders?: AIProviderType[]; // never used, even as a fallback
   azureOpenAIEndpoint?: string;
   azureOpenAIDeployment?: string;
   localModelEndpoint?: string;
   localModelName?: string;
   auditLoggingEnabled: boolean;
   dataRetentionDays: number;
+  retentionAction?: 'anonymize' | 'delete'; // what data retention does with expired records
 }
 
 interface RecurringIssue {
@@ -41,18 +73,7 @@ export class AutonomousAIService {
    * Get AI provider based on compliance settings
    */
   private getAIProvider(complianceSettings: any): AIProvider {
-    const providerType = complianceSettings.aiProvider || 'gemini';
-
-    return createAIProvider({
-      type: providerType,
-      apiKey: providerType === 'gemini' ? process.env.GEMINI_API_KEY :
-              providerType === 'azure-openai' ? complianceSettings.azureOpenAIKey : undefined,
-      endpoint: providerType === 'azure-openai' ? complianceSettings.azureOpenAIEndpoint :
-                providerType === 'local' ? complianceSettings.localModelEndpoint : undefined,
-      deploymentName: complianceSettings.azureOpenAIDeployment,
-      model: providerType === 'local' ? complianceSettings.localModelName : undefined,
-      temperature: 0.3,
-    });
+    return createComplianceProvider(complianceSettings);
   }
 
   /**
@@ -143,27 +164,91 @@ export class AutonomousAIService {
         };
       }
 
+      // Over the monthly AI budget: leave the ticket to the team
+      const budget = await aiUsageService.getBudgetStatus(organizationId);
+      if (budget.exceeded) {
+        logger.warn(`Monthly AI budget exceeded for organization ${organizationId}, escalating ticket ${ticketId}`);
+        const routing = await routingService.selectAgent(ticketId, 'ai_escalation');
+
+        return {
+          shouldRespond: false,
+          confidence: 0,
+          shouldAssignToAgent: true,
+          assignedAgentId: routing?.assignedTo || undefined,
+          routing,
+        };
+      }
+
       // Prepare context from ticket messages
       const rawCustomerMessage = ticket.messages[0]?.content || ticket.subject;
 
-      // Apply PII redaction if enabled (default: enabled for compliance)
+      // Tokenize PII if enabled (default: enabled for compliance)
+      // Tokens are kept in the ticket's vault so the reply can be rehydrated before it is sent
       let customerMessage = rawCustomerMessage;
-      let redactionResult = null;
+      let subject = ticket.subject;
+      let redactionCount = 0;
 
       if (complianceSettings.piiRedactionEnabled !== false) {
-        redactionResult = piiPipeline.redact(rawCustomerMessage);
-        customerMessage = redactionResult.text;
+        const redactionOptions = piiRedactor.optionsFromCompliance(complianceSettings);
+        const tokenized = await piiVault.tokenize(ticketId, organizationId, rawCustomerMessage, redactionOptions);
+        customerMessage = tokenized.text;
+        redactionCount = tokenized.tokenCount;
 
-        if (redactionResult.stats.totalDetected > 0) {
-          logger.info(`PII Redaction applied: ${redactionResult.stats.totalDetected} items redacted`, {
+        // The subject goes into the retrieval query, which re-ranking sends to the provider
+        subject = (await piiVault.tokenize(ticketId, organizationId, ticket.subject, redactionOptions)).text;
+
+        if (redactionCount > 0) {
+          logger.info(`PII Redaction applied: ${redactionCount} items redacted`, {
             ticketId,
-            types: Object.keys(redactionResult.stats.byType),
+            types: tokenized.types,
           });
         }
       }
 
+      // Previously resolved tickets that are semantically similar, with the reply that resolved them
+      let similarTickets: SimilarTicket[] = [];
+      try {
+        similarTickets = await ticketEmbeddingService.findSimilar(ticketId, organizationId, {
+          limit: 3,
+          minSimilarity: 0.6,
+          withResolution: true,
+        });
+      } catch (error) {
+        logger.warn(`Similar ticket lookup failed for ticket ${ticketId}, continuing without it:`, error);
+      }
+
+      // These are other customers' tickets: subjects and replies are redacted before they reach the provider
+      const redactSimilar = (text: string) =>
+        complianceSettings.piiRedactionEnabled !== false
+          ? piiRedactor.redact(text, piiRedactor.optionsFromCompliance(complianceSettings)).redactedText
+          : text;
+
+      const similarResolutions = similarTickets.map((similar) =>
+        redactSimilar(similar.resolution || 'No reply recorded')
+      );
+
+      const similarTicketsContext = similarTickets.length
+        ? similarTickets
+            .map((similar, index) =>
+              `${index + 1}. ${redactSimilar(similar.subject)} (similarity ${similar.similarity.toFixed(2)})\nResolution: ${similarResolutions[index]}`
+            )
+            .join('\n\n')
+        : 'None found.';
+
+      // Knowledge base passages relevant to the ticket (hybrid search), cited in the reply
+      let knowledgeChunks: KnowledgeChunk[] = [];
+      try {
+        knowledgeChunks = await knowledgeBaseService.retrieve(agent, {
+          text: `${subject}\n${customerMessage}`,
+          ticketId,
+        });
+      } catch (error) {
+        logger.warn(`Knowledge base lookup failed for ticket ${ticketId}, continuing without it:`, error);
+      }
+
       // Get AI provider based on settings
       const aiProvider = this.getAIProvider(complianceSettings);
+      const toolsEnabled = aiSettings.toolsEnabled === true;
 
       // Use Google Gemini to analyze if AI can handle this
       const analysisPrompt = `
@@ -178,9 +263,21 @@ Your task is to determine:
 Customer Issue:
 ${customerMessage}
 
+Customer details are replaced with placeholders such as [ACCT_NUM_1] or [EMAIL_1].
+If your solution needs to mention one of them, copy the placeholder exactly as written.
+
 Previous similar tickets you've handled successfully:
-${agent.sources.slice(0, 5).map(s => s.content).join('\n')}
+${similarTicketsContext}
+
+Knowledge base:
+${groundingService.buildContext(knowledgeChunks)}
 
+${CITATION_INSTRUCTIONS}
+${toolsEnabled ? `
+You can call tools to check this customer's other tickets, look up ticket status or account details,
+open a follow-up ticket for work the team must do, or escalate to a human. Call tools before giving
+your final answer; pass customer details to tools as the placeholders you were given.
+` : ''}
 Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
 {
   "canHandle": boolean,
@@ -190,20 +287,67 @@ Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
 `;
 
       // Use AI provider for analysis (supports Gemini, Azure OpenAI, or Local)
-      const aiResponse = await aiProvider.generateResponse([
-        { role: 'user', content: analysisPrompt }
-      ], { temperature: 0.3, maxTokens: 1024 });
+      // With tools enabled the model may look things up or act before it answers
+      let toolInvocations: ToolInvocation[] = [];
+      let escalation: { reason: string } | null = null;
+      let aiResponse;
+
+      if (toolsEnabled) {
+        const toolRun = await agentToolService.run(
+          aiProvider,
+          [{ role: 'user', content: analysisPrompt }],
+          { temperature: 0.3, maxTokens: 1024 },
+          {
+            organizationId,
+            ticketId,
+            customerId: ticket.customerId,
+            customerEmail: ticket.customerEmail,
+            redaction:
+              complianceSettings.piiRedactionEnabled !== false
+                ? piiRedactor.optionsFromCompliance(complianceSettings)
+                : null,
+          }
+        );
+        aiResponse = toolRun.response;
+        toolInvocations = toolRun.invocations;
+        escalation = toolRun.escalation;
+
+        await agentToolService.logInvocations(ticketId, toolInvocations, escalation);
+      } else {
+        aiResponse = await aiProvider.generateResponse([
+          { role: 'user', content: analysisPrompt }
+        ], { temperature: 0.3, maxTokens: 1024 });
+      }
 
       const responseText = aiResponse.content.trim();
 
+      await aiUsageService.record(organizationId, {
+        feature: 'auto_response',
+        provider: aiResponse.provider,
+        model: aiResponse.model,
+        usage: aiResponse.usage,
+        metadata: { ticketId, ...(toolInvocations.length && { toolCalls: toolInvocations.length }) },
+      });
+
       // Log AI usage for compliance audit
       if (complianceSettings.auditLoggingEnabled !== false) {
         logger.info('AI Provider used for ticket analysis', {
           ticketId,
           provider: aiResponse.provider,
           model: aiResponse.model,
-          piiRedacted: redactionResult ? redactionResult.stats.totalDetected > 0 : false,
-          redactionCount: redactionResult?.stats.totalDetected || 0,
+          fallbackFrom: aiResponse.fallbackFrom,
+          piiRedacted: redactionCount > 0,
+          redactionCount,
+        });
+
+        await auditService.recordAICall(organizationId, {
+          feature: 'auto_response',
+          provider: aiResponse.provider,
+          model: aiResponse.model,
+          ticketId,
+          redactionCount,
+          ...(aiResponse.fallbackFrom && { fallbackFrom: aiResponse.fallbackFrom }),
+          ...(toolInvocations.length && { toolCalls: toolInvocations.map((invocation) => invocation.name) }),
         });
       }
 
@@ -213,38 +357,77 @@ Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
         .replace(/```\n?/g, '')
         .trim();
 
-      const result = JSON.parse(cleanedResponse);
+      // An escalation has no answer to parse
+      const result = escalation ? { canHandle: false, confidence: 0 } : JSON.parse(cleanedResponse);
+
+      if (escalation) {
+        logger.info(`Ticket ${ticketId} escalated by the AI agent: ${escalation.reason}`);
+      }
+
+      // Check the solution against what was retrieved: weakly supported answers lose confidence,
+      // unsupported ones are not sent at all
+      let citations: Citation[] = [];
+      let grounding: GroundingResult | undefined;
+
+      if (result.canHandle && result.solution) {
+        const { supportingPassages, ...check } = groundingService.checkGrounding(result.solution, [
+          ...knowledgeChunks.map((chunk) => chunk.content),
+          ...similarResolutions,
+        ]);
+        grounding = check;
+        citations = groundingService.extractCitations(result.solution, knowledgeChunks, supportingPassages);
+        result.confidence = groundingService.adjustConfidence(result.confidence, grounding);
+
+        if (grounding.refused) {
+          logger.info(`Ticket ${ticketId} AI solution not supported by retrieved context, escalating`, grounding);
+          result.canHandle = false;
+        }
+      }
 
       // Check if confidence meets threshold
       if (result.canHandle && result.confidence >= aiSettings.confidenceThreshold) {
         return {
           shouldRespond: true,
-          response: result.solution,
+          response: groundingService.formatForCustomer(result.solution, citations),
           confidence: result.confidence,
           shouldAssignToAgent: false,
-          piiRedacted: redactionResult ? redactionResult.stats.totalDetected > 0 : false,
-          redactionCount: redactionResult?.stats.totalDetected || 0,
+          piiRedacted: redactionCount > 0,
+          redactionCount,
+          provider: aiResponse.provider,
+          model: aiResponse.model,
+          fallbackFrom: aiResponse.fallbackFrom,
+          agentId: agent.id,
+          agentVersionId: agent.publishedVersionId ?? undefined,
+          sources: similarTickets.map((similar) => ({
+            type: 'similar_ticket' as const,
+            ticketId: similar.id,
+            subject: similar.subject,
+            similarity: similar.similarity,
+          })),
+          requiresApproval: aiSettings.approvalMode === 'review',
+          citations,
+          grounding,
+          ...(toolInvocations.length && { toolInvocations }),
         };
       }
 
-      // If AI can't handle it, find best team member to assign
-      const teamMembers = await prisma.organizationMember.findMany({
-        where: {
-          organizationId,
-          status: 'active',
-        },
-        include: {
-          user: true,
-        },
-      });
+      // If AI can't handle it, find best team member to assign using the routing rules
+      const routing = await routingService.selectAgent(ticketId, 'ai_escalation');
 
       return {
         shouldRespond: false,
         confidence: result.confidence,
         shouldAssignToAgent: true,
-        assignedAgentId: teamMembers[0]?.userId, // Simple round-robin for now
-        piiRedacted: redactionResult ? redactionResult.stats.totalDetected > 0 : false,
-        redactionCount: redactionResult?.stats.totalDetected || 0,
+        assignedAgentId: routing?.assignedTo || undefined,
+        routing,
+        piiRedacted: redactionCount > 0,
+        redactionCount,
+        provider: aiResponse.provider,
+        model: aiResponse.model,
+        fallbackFrom: aiResponse.fallbackFrom,
+        grounding,
+        ...(toolInvocations.length && { toolInvocations }),
+        ...(escalation && { escalationReason: escalation.reason }),
       };
     } catch (error) {
       logger.error('Error processing ticket with autonomous AI:', error);
@@ -281,6 +464,11 @@ Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
         return []; // Not enough data
       }
 
+      if ((await aiUsageService.getBudgetStatus(organizationId)).exceeded) {
+        logger.warn(`Monthly AI budget exceeded for organization ${organizationId}, skipping recurring issue detection`);
+        return [];
+      }
+
       // Use AI to cluster similar issues
       const ticketDescriptions = tickets.map((t, idx) => ({
         id: t.id,
@@ -322,6 +510,26 @@ Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
       });
 
       const clusteringGeminiResult = await clusteringModel.generateContent(clusteringPrompt);
+      const clusteringUsage = clusteringGeminiResult.response.usageMetadata;
+
+      await aiUsageService.record(organizationId, {
+        feature: 'recurring_issues',
+        provider: 'gemini',
+        model: 'gemini-pro',
+        usage: {
+          promptTokens: clusteringUsage?.promptTokenCount || 0,
+          completionTokens: clusteringUsage?.candidatesTokenCount || 0,
+          totalTokens: clusteringUsage?.totalTokenCount || 0,
+        },
+        metadata: { ticketCount: tickets.length },
+      });
+
+      await auditService.recordAICall(organizationId, {
+        feature: 'recurring_issues',
+        provider: 'gemini',
+        model: 'gemini-pro',
+        ticketCount: tickets.length,
+      });
       const clusteringResponseText = clusteringGeminiResult.response.text().trim();
 
       // Clean response if it contains markdown code blocks
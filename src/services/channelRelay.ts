@@ -2,8 +2,9 @@
  * Channel Relay Service
  *
  * Sends agent responses back to the original source platform (Slack, Gmail, etc.)
- * Only called when a human agent explicitly sends a reply — AI draft responses
- * stay internal until an agent approves and sends them.
+ * Called when a human agent sends a reply or approves an AI draft, and for
+ * autonomous AI replies when the organization's approvalMode is 'auto'. In
+ * 'review' mode AI replies stay internal as drafts until an agent approves them.
  */
 
 import prisma from '../config/database';
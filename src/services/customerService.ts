@@ -0,0 +1,207 @@
+/**
+ * Customer Service
+ *
+ * Unifies the people behind tickets across channels. Each customer has any
+ * number of identities (email, phone, Slack ID, Telegram username, ...), and
+ * every new ticket is linked to the customer owning one of its identities, so
+ * the same person writing on Slack, Telegram and Gmail shows up once.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+
+export type IdentityType = 'email' | 'phone' | 'slack' | 'telegram' | 'discord' | 'instagram' | 'x' | 'teams' | 'widget';
+
+export const IDENTITY_TYPES: IdentityType[] = ['email', 'phone', 'slack', 'telegram', 'discord', 'instagram', 'x', 'teams', 'widget'];
+
+export interface CustomerIdentityInput {
+  type: IdentityType;
+  value: string;
+}
+
+// Placeholder addresses generated by channel webhooks are not real emails
+const SYNTHETIC_EMAIL_PATTERN = /@([a-z]+\.local|widget\.reedeck\.com)$/i;
+
+export class CustomerService {
+  /**
+   * Normalize an identity value so the same handle always matches
+   */
+  normalizeIdentity(type: IdentityType, value: string): string {
+    const trimmed = String(value).trim();
+
+    if (type === 'phone') {
+      return trimmed.replace(/[^\d]/g, '');
+    }
+
+    if (type === 'telegram' || type === 'instagram' || type === 'x') {
+      return trimmed.replace(/^@/, '').toLowerCase();
+    }
+
+    return trimmed.toLowerCase();
+  }
+
+  /**
+   * Derive identities from what channel webhooks store on the ticket itself
+   */
+  private getTicketIdentities(ticket: { customerEmail: string; metadata: any }): CustomerIdentityInput[] {
+    const identities: CustomerIdentityInput[] = [];
+    const metadata = ticket.metadata || {};
+
+    if (ticket.customerEmail && !SYNTHETIC_EMAIL_PATTERN.test(ticket.customerEmail)) {
+      identities.push({ type: 'email', value: ticket.customerEmail });
+    }
+
+    if (metadata.slackUserId) identities.push({ type: 'slack', value: metadata.slackUserId });
+    if (metadata.telegramUsername) {
+      identities.push({ type: 'telegram', value: metadata.telegramUsername });
+    } else if (metadata.telegramUserId) {
+      identities.push({ type: 'telegram', value: metadata.telegramUserId });
+    }
+    if (metadata.discordUserId) identities.push({ type: 'discord', value: metadata.discordUserId });
+    if (metadata.visitorId) identities.push({ type: 'widget', value: metadata.visitorId });
+
+    return identities;
+  }
+
+  /**
+   * Link a ticket to the customer owning one of its identities, creating the customer if needed
+   */
+  async linkTicket(ticketId: string, extraIdentities: CustomerIdentityInput[] = []): Promise<string | null> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: {
+        id: true,
+        organizationId: true,
+        customerId: true,
+        customerName: true,
+        customerEmail: true,
+        customerAvatarUrl: true,
+        metadata: true,
+      },
+    });
+
+    if (!ticket || ticket.customerId) {
+      return ticket?.customerId || null;
+    }
+
+    const identities = [...this.getTicketIdentities(ticket), ...extraIdentities]
+      .filter((identity) => identity.value)
+      .map((identity) => ({ type: identity.type, value: this.normalizeIdentity(identity.type, identity.value) }))
+      .filter((identity, index, all) =>
+        identity.value && all.findIndex((i) => i.type === identity.type && i.value === identity.value) === index
+      );
+
+    const existing = identities.length
+      ? await prisma.customerIdentity.findMany({
+          where: {
+            organizationId: ticket.organizationId,
+            OR: identities.map((identity) => ({ type: identity.type, value: identity.value })),
+          },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+    // Identities owned by several customers are left for an agent to merge manually
+    const customerId =
+      existing[0]?.customerId ||
+      (
+        await prisma.customer.create({
+          data: {
+            organizationId: ticket.organizationId,
+            name: ticket.customerName,
+            email: identities.find((i) => i.type === 'email')?.value || null,
+            phone: identities.find((i) => i.type === 'phone')?.value || null,
+            avatarUrl: ticket.customerAvatarUrl,
+          },
+        })
+      ).id;
+
+    const known = new Set(existing.map((identity) => `${identity.type}:${identity.value}`));
+    const newIdentities = identities.filter((identity) => !known.has(`${identity.type}:${identity.value}`));
+
+    if (newIdentities.length > 0) {
+      await prisma.customerIdentity.createMany({
+        data: newIdentities.map((identity) => ({
+          organizationId: ticket.organizationId,
+          customerId,
+          type: identity.type,
+          value: identity.value,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    await prisma.ticket.update({
+      where: { id: ticketId },
+      data: { customerId },
+    });
+
+    return customerId;
+  }
+
+  /**
+   * Merge source customers into the target: identities and tickets move, sources are removed
+   */
+  async merge(organizationId: string, targetId: string, sourceIds: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.customerIdentity.updateMany({
+        where: { organizationId, customerId: { in: sourceIds } },
+        data: { customerId: targetId },
+      }),
+      prisma.ticket.updateMany({
+        where: { organizationId, customerId: { in: sourceIds } },
+        data: { customerId: targetId },
+      }),
+      prisma.customer.deleteMany({
+        where: { organizationId, id: { in: sourceIds } },
+      }),
+    ]);
+
+    logger.info(`Merged customers ${sourceIds.join(', ')} into ${targetId}`);
+  }
+
+  /**
+   * Split identities (and optionally tickets) off a customer into a new customer
+   */
+  async split(
+    organizationId: string,
+    customerId: string,
+    identityIds: string[],
+    ticketIds: string[],
+    name?: string
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const identities = await tx.customerIdentity.findMany({
+        where: { organizationId, customerId, id: { in: identityIds } },
+      });
+
+      const customer = await tx.customer.create({
+        data: {
+          organizationId,
+          name: name || identities[0]?.value || null,
+          email: identities.find((i) => i.type === 'email')?.value || null,
+          phone: identities.find((i) => i.type === 'phone')?.value || null,
+        },
+      });
+
+      await tx.customerIdentity.updateMany({
+        where: { organizationId, customerId, id: { in: identityIds } },
+        data: { customerId: customer.id },
+      });
+
+      if (ticketIds.length > 0) {
+        await tx.ticket.updateMany({
+          where: { organizationId, customerId, id: { in: ticketIds } },
+          data: { customerId: customer.id },
+        });
+      }
+
+      return tx.customer.findUnique({
+        where: { id: customer.id },
+        include: { identities: true },
+      });
+    });
+  }
+}
+
+export default new CustomerService();
@@ -10,6 +10,7 @@ import logger from '../config/logger';
 import { DiscordIntegration } from './integrations/discord';
 import { isOrganizationMember } from './teamMemberFilter';
 import { broadcastTicketEvent } from './broadcast';
+import { onTicketCreated, onTicketMessage } from './ticketLifecycle';
 
 interface DiscordMessage {
   id: string;
@@ -132,6 +133,7 @@ export async function processDiscordMessage(
           metadata: { discordMessageId: message.id },
         },
       });
+      await onTicketMessage(existingTicket.id, { senderType: 'customer' });
 
       // Update ticket metadata with latest message ID so replies target the newest message
       const existingMeta = (existingTicket.metadata as any) || {};
@@ -192,6 +194,8 @@ export async function processDiscordMessage(
       });
       logger.info('[DISCORD] Ticket created:', ticket.id);
 
+      await onTicketCreated(ticket.id);
+
       // Broadcast realtime event for dashboard
       await broadcastTicketEvent(sourceConnection.organizationId, 'ticket_created', ticket.id);
 
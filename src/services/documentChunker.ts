@@ -0,0 +1,259 @@
+/**
+ * Document Chunker
+ *
+ * Splits Markdown (as produced by the document parser) into chunks for
+ * embedding. Chunks never straddle a heading, tables are split by rows with
+ * the header repeated, and consecutive chunks within a section overlap so a
+ * sentence cut at a boundary is still found. Every chunk starts with its
+ * heading path and carries its section, page and a content hash, so
+ * re-training only re-embeds chunks whose text changed.
+ */
+
+import crypto from 'crypto';
+
+export interface ChunkMetadata {
+  chunkIndex: number;
+  section: string | null; // nearest heading
+  headings: string[]; // heading path from the top of the document
+  page: number | null; // page the chunk starts on (PDF)
+  pageEnd?: number;
+  kind: 'text' | 'table';
+}
+
+export interface DocumentChunk {
+  content: string; // heading path and text, as embedded
+  hash: string;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlap?: number; // characters carried over from the previous chunk in the same section
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'page'; page: number }
+  | { type: 'table'; lines: string[] }
+  | { type: 'text'; text: string };
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP = 150;
+
+const PAGE_MARKER = /^<!--\s*page:\s*(\d+)\s*-->$/;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+export const hashContent = (content: string): string => crypto.createHash('sha256').update(content).digest('hex');
+
+function toBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let table: string[] = [];
+  let fence: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'text', text: paragraph.join('\n') });
+    if (table.length) blocks.push({ type: 'table', lines: table });
+    paragraph = [];
+    table = [];
+  };
+
+  for (const raw of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const line = raw.trimEnd();
+
+    // Code blocks are kept verbatim as one text block
+    if (fence) {
+      fence.push(line);
+      if (line.trim().startsWith('```')) {
+        blocks.push({ type: 'text', text: fence.join('\n') });
+        fence = null;
+      }
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      flush();
+      fence = [line];
+      continue;
+    }
+
+    const page = line.trim().match(PAGE_MARKER);
+    const heading = line.match(HEADING);
+
+    if (page) {
+      flush();
+      blocks.push({ type: 'page', page: Number(page[1]) });
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (line.trim().startsWith('|')) {
+      if (paragraph.length) flush();
+      table.push(line.trim());
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      if (table.length) flush();
+      paragraph.push(line);
+    }
+  }
+
+  if (fence) blocks.push({ type: 'text', text: fence.join('\n') });
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split text longer than the limit at sentence ends, then at spaces
+ */
+function splitText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of text.match(/[^.!?\n]+[.!?]*[\s]*|\n+/g) || [text]) {
+    if (current && (current + sentence).length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+
+    if (sentence.length > maxChars) {
+      const words = sentence.split(/\s+/);
+      for (const word of words) {
+        if (current && (current + ' ' + word).length > maxChars) {
+          pieces.push(current.trim());
+          current = '';
+        }
+        current += (current ? ' ' : '') + word;
+      }
+    } else {
+      current += sentence;
+    }
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * The end of a chunk, starting at a sentence or word boundary
+ */
+function tail(text: string, length: number): string {
+  if (length <= 0 || text.length <= length) return length <= 0 ? '' : text;
+
+  const slice = text.slice(-length);
+  const sentenceStart = slice.search(/[.!?]\s+\S/);
+  if (sentenceStart !== -1) {
+    return slice.slice(sentenceStart + 1).trim();
+  }
+
+  const wordStart = slice.indexOf(' ');
+  return wordStart === -1 ? slice : slice.slice(wordStart + 1);
+}
+
+/**
+ * Table rows grouped so each group fits the limit, each with the header rows repeated
+ */
+function splitTable(lines: string[], maxChars: number): string[] {
+  const hasHeader = lines.length > 1 && /^\|\s*:?-{3,}/.test(lines[1]);
+  const header = hasHeader ? lines.slice(0, 2) : [];
+  const rows = hasHeader ? lines.slice(2) : lines;
+  const headerSize = header.join('\n').length;
+
+  const groups: string[] = [];
+  let group: string[] = [];
+  let size = headerSize;
+
+  for (const row of rows) {
+    if (group.length && size + row.length + 1 > maxChars) {
+      groups.push([...header, ...group].join('\n'));
+      group = [];
+      size = headerSize;
+    }
+    group.push(row);
+    size += row.length + 1;
+  }
+
+  if (group.length || groups.length === 0) {
+    groups.push([...header, ...group].join('\n'));
+  }
+
+  return groups;
+}
+
+export function chunkDocument(markdown: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(maxChars / 2));
+
+  const chunks: DocumentChunk[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let page: number | null = null;
+
+  let parts: string[] = [];
+  let partsPage: number | null = null;
+
+  const emit = (body: string, kind: ChunkMetadata['kind'], startPage: number | null) => {
+    const path = headings.map((heading) => heading.text);
+    const content = (path.length ? `${path.join(' > ')}\n\n` : '') + body;
+
+    chunks.push({
+      content,
+      hash: hashContent(content),
+      metadata: {
+        chunkIndex: chunks.length,
+        section: path[path.length - 1] || null,
+        headings: path,
+        page: startPage,
+        ...(startPage !== null && page !== null && page !== startPage && { pageEnd: page }),
+        kind,
+      },
+    });
+  };
+
+  const flush = (carryOver = false) => {
+    const body = parts.join('\n\n').trim();
+    parts = [];
+
+    if (!body) return;
+    emit(body, 'text', partsPage);
+
+    // The next chunk in the same section repeats the end of this one
+    const carried = carryOver ? tail(body, overlap) : '';
+    if (carried) parts.push(carried);
+    partsPage = page;
+  };
+
+  const size = () => parts.reduce((total, part) => total + part.length + 2, 0);
+
+  for (const block of toBlocks(markdown)) {
+    if (block.type === 'page') {
+      page = block.page;
+      if (!parts.length) partsPage = page;
+    } else if (block.type === 'heading') {
+      flush();
+      while (headings.length && headings[headings.length - 1].level >= block.level) {
+        headings.pop();
+      }
+      headings.push({ level: block.level, text: block.text });
+      partsPage = page;
+    } else if (block.type === 'table') {
+      flush();
+      for (const group of splitTable(block.lines, maxChars)) {
+        emit(group, 'table', page);
+      }
+      partsPage = page;
+    } else {
+      for (const piece of splitText(block.text, maxChars - overlap)) {
+        if (!parts.length) partsPage = page;
+        if (parts.length && size() + piece.length > maxChars) {
+          flush(true);
+        }
+        parts.push(piece);
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
@@ -0,0 +1,317 @@
+/**
+ * Document Parser
+ *
+ * Converts uploaded knowledge base documents (PDF, DOCX, XLSX, CSV, Markdown,
+ * HTML, plain text) into Markdown so headings and tables survive into
+ * chunking. PDF page boundaries are kept as <!-- page: n --> markers, which
+ * the chunker turns into per-chunk page numbers.
+ */
+
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+import { PDFParse } from 'pdf-parse';
+import { AppError } from '../middleware/errorHandler';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'markdown' | 'html' | 'text';
+
+export interface ParsedDocument {
+  format: DocumentFormat;
+  markdown: string;
+  pageCount?: number;
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+export const pageMarker = (page: number): string => `<!-- page: ${page} -->`;
+
+/**
+ * Format from the file extension, falling back to the MIME type
+ */
+export function detectFormat(fileName?: string, mimeType?: string): DocumentFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension];
+  }
+
+  const mime = mimeType?.split(';')[0].trim().toLowerCase();
+  return (mime && MIME_FORMATS[mime]) || null;
+}
+
+const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+
+/**
+ * Markdown table; the first row is the header
+ */
+export function toMarkdownTable(rows: string[][]): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  if (rows.length === 0 || width === 0) return '';
+
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => escapeCell(row[i] || ''));
+  const [header, ...body] = rows.map(pad);
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * HTML to Markdown, keeping headings, lists, tables and code blocks
+ */
+export function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, nav, footer, header, iframe, svg, form').remove();
+
+  const blocks: string[] = [];
+  const text = (el: any) => $(el).text().replace(/\s+/g, ' ').trim();
+
+  const walk = (el: any) => {
+    $(el)
+      .children()
+      .each((_, child) => {
+        const tag = (child as any).tagName?.toLowerCase();
+
+        if (/^h[1-6]$/.test(tag)) {
+          const content = text(child);
+          if (content) blocks.push(`${'#'.repeat(Number(tag[1]))} ${content}`);
+        } else if (tag === 'p' || tag === 'blockquote') {
+          const content = text(child);
+          if (content) blocks.push(content);
+        } else if (tag === 'ul' || tag === 'ol') {
+          const items = $(child)
+            .children('li')
+            .toArray()
+            .map((li, i) => `${tag === 'ol' ? `${i + 1}.` : '-'} ${text(li)}`)
+            .filter((item) => item.trim().length > 2);
+          if (items.length) blocks.push(items.join('\n'));
+        } else if (tag === 'table') {
+          const rows = $(child)
+            .find('tr')
+            .toArray()
+            .map((tr) => $(tr).children('th, td').toArray().map((cell) => text(cell)));
+          const table = toMarkdownTable(rows.filter((cells) => cells.length));
+          if (table) blocks.push(table);
+        } else if (tag === 'pre') {
+          blocks.push('```\n' + $(child).text().trim() + '\n```');
+        } else if ($(child).children().length) {
+          walk(child);
+        } else {
+          const content = text(child);
+          if (content) blocks.push(content);
+        }
+      });
+  };
+
+  walk($('body').length ? $('body') : $.root());
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * PDF text has no structure; short standalone lines without closing
+ * punctuation are treated as headings
+ */
+const looksLikeHeading = (line: string, next?: string): boolean =>
+  line.length >= 3 &&
+  line.length <= 80 &&
+  !/[.,;:!?]$/.test(line) &&
+  !line.includes('\t') &&
+  /^[\p{Lu}\d]/u.test(line) &&
+  (next === undefined || next.length > line.length);
+
+async function parsePdf(buffer: Buffer): Promise<ParsedDocument> {
+  const parser = new PDFParse({ data: buffer });
+
+  try {
+    const result = await parser.getText({ cellSeparator: '\t' });
+
+    const pages = result.pages.map((page) => {
+      const lines = page.text.split('\n').map((line) => line.trim()).filter(Boolean);
+      const out: string[] = [];
+      let paragraph: string[] = [];
+      let table: string[][] = [];
+
+      const flush = () => {
+        if (paragraph.length) out.push(paragraph.join(' '));
+        if (table.length > 1) out.push(toMarkdownTable(table));
+        else if (table.length === 1) out.push(table[0].join(' '));
+        paragraph = [];
+        table = [];
+      };
+
+      lines.forEach((line, i) => {
+        // Cells on one baseline are tab-separated; consecutive rows of them form a table
+        if (line.includes('\t')) {
+          if (paragraph.length) flush();
+          table.push(line.split('\t'));
+        } else if (looksLikeHeading(line, lines[i + 1])) {
+          flush();
+          out.push(`## ${line}`);
+        } else {
+          if (table.length) flush();
+          paragraph.push(line);
+        }
+      });
+      flush();
+
+      return `${pageMarker(page.num)}\n${out.join('\n\n')}`;
+    });
+
+    return { format: 'pdf', markdown: pages.join('\n\n'), pageCount: result.total };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function parseXlsx(buffer: Buffer): Promise<ParsedDocument> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheets: string[] = [];
+  workbook.eachSheet((sheet) => {
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      rows.push(values.map((value) => (value === null || value === undefined ? '' : cellText(value))));
+    });
+
+    if (rows.length) {
+      sheets.push(`## ${sheet.name}\n\n${toMarkdownTable(rows)}`);
+    }
+  });
+
+  return { format: 'xlsx', markdown: sheets.join('\n\n') };
+}
+
+// Formula, rich text and hyperlink cells are objects
+const cellText = (value: any): string => {
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value !== 'object') return String(value);
+  if ('result' in value) return cellText(value.result ?? '');
+  if ('richText' in value) return value.richText.map((part: any) => part.text).join('');
+  if ('text' in value) return String(value.text);
+  return '';
+};
+
+/**
+ * Parse a document into Markdown. Throws a 400 for unsupported or unreadable files.
+ */
+export async function parseDocument(
+  input: Buffer | string,
+  options: { fileName?: string; mimeType?: string; format?: DocumentFormat } = {}
+): Promise<ParsedDocument> {
+  const format = options.format || detectFormat(options.fileName, options.mimeType) || 'text';
+  const buffer = typeof input === 'string' ? Buffer.from(input, 'utf8') : input;
+  const asText = () => buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+  try {
+    switch (format) {
+      case 'pdf':
+        return await parsePdf(buffer);
+      case 'docx': {
+        const { value } = await mammoth.convertToHtml({ buffer });
+        return { format, markdown: htmlToMarkdown(value) };
+      }
+      case 'xlsx':
+        return await parseXlsx(buffer);
+      case 'csv':
+        return { format, markdown: toMarkdownTable(parseCsv(asText())) };
+      case 'html':
+        return { format, markdown: htmlToMarkdown(asText()) };
+      case 'markdown':
+      case 'text':
+        return { format, markdown: asText().replace(/\r\n/g, '\n') };
+    }
+  } catch (error) {
+    throw new AppError(
+      `Could not read ${options.fileName || 'document'} as ${format}: ${error instanceof Error ? error.message : 'unknown error'}`,
+      400
+    );
+  }
+}
+
+/**
+ * Download a web page or hosted document and parse it by its content type
+ */
+export async function fetchDocument(url: string): Promise<ParsedDocument> {
+  let response;
+  try {
+    response = await axios.get(url, { responseType: 'arraybuffer', timeout: 30000, maxContentLength: 20 * 1024 * 1024 });
+  } catch (error) {
+    throw new AppError(`Failed to fetch ${url}`, 400);
+  }
+
+  const format = detectFormat(undefined, response.headers['content-type']) || detectFormat(new URL(url).pathname) || 'html';
+
+  return parseDocument(Buffer.from(response.data), { fileName: url, format });
+}
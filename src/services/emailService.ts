@@ -1,5 +1,14 @@
 import { resend } from '../config/resend';
 
+// Customer-supplied text (names, ticket subjects) must not become markup in staff email
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 interface InvitationEmailParams {
   toEmail: string;
   organizationName: string;
@@ -138,3 +147,150 @@ export async function sendWelcomeEmail({
     throw error;
   }
 }
+
+interface TicketAssignedEmailParams {
+  toEmail: string;
+  firstName?: string | null;
+  organizationName: string;
+  ticketId: string;
+  ticketSubject: string;
+  customerName: string;
+  priority: string;
+}
+
+export async function sendTicketAssignedEmail({
+  toEmail,
+  firstName,
+  organizationName,
+  ticketId,
+  ticketSubject,
+  customerName,
+  priority,
+}: TicketAssignedEmailParams) {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const ticketUrl = `${frontendUrl}/tickets/${ticketId}`;
+  const subjectLine = ticketSubject.replace(/[\r\n]+/g, ' ');
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.RESEND_FROM_EMAIL || 'noreply@reedeck.com',
+      to: toEmail,
+      subject: `New ticket assigned: ${subjectLine}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Ticket Assigned</title>
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+              <h1 style="margin: 0 0 20px 0; color: #4D40E6; font-size: 24px;">A ticket has been assigned to you</h1>
+              <p style="margin: 0 0 15px 0; font-size: 16px;">
+                Hello ${escapeHtml(firstName || 'there')},
+              </p>
+              <p style="margin: 0 0 15px 0; font-size: 16px;">
+                <strong>${escapeHtml(customerName)}</strong> needs help in <strong>${escapeHtml(organizationName)}</strong>:
+              </p>
+              <p style="margin: 0 0 25px 0; font-size: 16px; color: #666;">
+                ${escapeHtml(ticketSubject)} (priority: ${escapeHtml(priority)})
+              </p>
+              <a href="${ticketUrl}" style="display: inline-block; background-color: #4D40E6; color: #ffffff; text-decoration: none; padding: 12px 30px; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Ticket
+              </a>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error('Failed to send ticket assigned email:', error);
+      throw new Error(`Failed to send ticket assigned email: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error sending ticket assigned email:', error);
+    throw error;
+  }
+}
+
+interface UsageLimitEmailParams {
+  toEmail: string;
+  firstName?: string | null;
+  organizationName: string;
+  feature: string;
+  used: number;
+  limit: number;
+  threshold: number; // percent of the plan limit that was reached
+  planName: string;
+  overageAllowed: boolean;
+}
+
+export async function sendUsageLimitEmail({
+  toEmail,
+  firstName,
+  organizationName,
+  feature,
+  used,
+  limit,
+  threshold,
+  planName,
+  overageAllowed,
+}: UsageLimitEmailParams) {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const billingUrl = `${frontendUrl}/settings`;
+  const reachedLimit = threshold >= 100;
+  const consequence = !reachedLimit
+    ? 'You can keep working as usual, but you may want to upgrade before you reach the limit.'
+    : overageAllowed
+      ? 'Your plan allows overage, so service continues and additional usage will be billed.'
+      : 'New usage is blocked until the next billing period or until you upgrade your plan.';
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.RESEND_FROM_EMAIL || 'noreply@reedeck.com',
+      to: toEmail,
+      subject: `${organizationName} has used ${threshold}% of its ${feature} limit`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Usage Limit</title>
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+              <h1 style="margin: 0 0 20px 0; color: #4D40E6; font-size: 24px;">${reachedLimit ? 'Plan limit reached' : 'Approaching your plan limit'}</h1>
+              <p style="margin: 0 0 15px 0; font-size: 16px;">
+                Hello ${firstName || 'there'},
+              </p>
+              <p style="margin: 0 0 15px 0; font-size: 16px;">
+                <strong>${organizationName}</strong> has used <strong>${used} of ${limit}</strong> ${feature} included in the ${planName} plan.
+              </p>
+              <p style="margin: 0 0 25px 0; font-size: 16px; color: #666;">
+                ${consequence}
+              </p>
+              <a href="${billingUrl}" style="display: inline-block; background-color: #4D40E6; color: #ffffff; text-decoration: none; padding: 12px 30px; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                Manage Plan
+              </a>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error('Failed to send usage limit email:', error);
+      throw new Error(`Failed to send usage limit email: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error sending usage limit email:', error);
+    throw error;
+  }
+}
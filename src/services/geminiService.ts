@@ -1,8 +1,6 @@
 import { TaskType } from '@google/generative-ai';
 import { AppError } from '../middleware/errorHandler';
 import genAI from '../config/gemini';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
 
 export class GeminiService {
   private model: any;
@@ -55,7 +53,7 @@ export class GeminiService {
     history: { role: 'user' | 'model' | 'assistant'; parts: string }[],
     message: string,
     temperature: number = 0.7
-  ): Promise<string> {
+  ): Promise<{ text: string; model: string; usage: { promptTokens: number; completionTokens: number; totalTokens: number } }> {
     try {
       const chat = this.model.startChat({
         history: [
@@ -75,65 +73,22 @@ export class GeminiService {
 
       const result = await chat.sendMessage(message);
       const response = result.response;
-      return response.text();
+      const usage = response.usageMetadata;
+
+      return {
+        text: response.text(),
+        model: 'gemini-1.5-pro',
+        usage: {
+          promptTokens: usage?.promptTokenCount || 0,
+          completionTokens: usage?.candidatesTokenCount || 0,
+          totalTokens: usage?.totalTokenCount || 0,
+        },
+      };
     } catch (error) {
       console.error('Error generating chat response:', error);
       throw new AppError('Failed to generate chat response', 500);
     }
   }
-
-
-  /**
-   * Fetch and clean text content from a URL
-   */
-  async processUrl(url: string): Promise<string> {
-    try {
-      const response = await axios.get(url);
-      const html = response.data;
-      const $ = cheerio.load(html);
-
-      // Remove script types, styles, and other non-content elements
-      $('script').remove();
-      $('style').remove();
-      $('nav').remove();
-      $('footer').remove();
-      $('header').remove();
-
-      // Get text
-      const text = $('body').text();
-      
-      // Clean up whitespace
-      return text.replace(/\s+/g, ' ').trim();
-    } catch (error) {
-      console.error('Error fetching URL:', error);
-      throw new AppError('Failed to process website source', 400);
-    }
-  }
-
-  /**
-   * Chunk text into smaller segments for embedding
-   */
-  chunkText(text: string, maxChunkSize: number = 1000): string[] {
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    // Split by sentences (rough approximation)
-    const sentences = text.match(/[^.!?]+[.!?]+|\s+/g) || [text];
-
-    for (const sentence of sentences) {
-      if ((currentChunk + sentence).length > maxChunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = '';
-      }
-      currentChunk += sentence;
-    }
-
-    if (currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
-    }
-
-    return chunks;
-  }
 }
 
 export default new GeminiService();
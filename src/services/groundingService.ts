@@ -0,0 +1,244 @@
+/**
+ * Grounding Service
+ *
+ * Turns retrieved knowledge base chunks into numbered prompt context, reads the
+ * [n] citation markers back out of the answer, and checks how much of the
+ * answer is actually supported by what was retrieved. The check is lexical:
+ * a sentence counts as supported when most of its content words appear in a
+ * single retrieved passage. Answers with little support get a lower confidence
+ * or are replaced with a refusal.
+ */
+
+import type { KnowledgeChunk } from './knowledgeBaseService';
+
+export interface Citation {
+  index: number; // the [n] marker used in the answer
+  sourceId: string;
+  chunkId: string;
+  sourceType: string;
+  title: string;
+  url: string | null;
+  section: string | null;
+  page: number | null;
+  snippet: string;
+  similarity: number;
+  inferred?: boolean; // not marked by the model, matched by the grounding check
+}
+
+export interface GroundingResult {
+  score: number; // share of checked sentences supported by a retrieved passage
+  grounded: boolean;
+  checkedSentences: number;
+  supportedSentences: number;
+  refused: boolean;
+}
+
+// At least half the factual sentences must be supported to call an answer grounded
+const GROUNDED_MIN_SCORE = 0.5;
+// Below this the answer is replaced with a refusal
+const REFUSE_BELOW_SCORE = 0.2;
+// Share of a sentence's content words that must appear in one passage
+const SENTENCE_SUPPORT_RATIO = 0.5;
+// Shorter sentences (greetings, sign-offs) are not checked
+const MIN_CONTENT_WORDS = 4;
+
+const SNIPPET_LENGTH = 200;
+
+export const REFUSAL_MESSAGE =
+  "I couldn't find that in our knowledge base, so I'd rather not guess. A member of our team can help with this.";
+
+export const CITATION_INSTRUCTIONS = `Each context passage is numbered like [1]. After every statement that uses a passage, cite it with its number, e.g. "Refunds take 5 days [2]." Only cite passages you actually used. If the context does not contain the answer, say so instead of guessing.`;
+
+export const STOPWORDS = new Set(
+  (
+    'the and for are but not you your yours with this that these those from have has had was were will would ' +
+    'can could should shall may might must our ours they them their there here what when where which who whom ' +
+    'why how all any both each few more most other some such than too very just into onto over under again ' +
+    'then once about above below also been being does did doing done its his her hers him she he we us let ' +
+    'please thank thanks hello dear regards sure okay able get got make made need needs want'
+  ).split(' ')
+);
+
+// [1], [1, 3] or [1][2]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// PII placeholders such as [EMAIL_1]
+const PII_PLACEHOLDER = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().replace(CITATION_MARKER, ' ').match(/[a-z0-9]+/g) || [])
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word));
+
+const splitSentences = (text: string): string[] =>
+  text
+    .replace(PII_PLACEHOLDER, ' ')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+export class GroundingService {
+  /**
+   * Numbered context block for the prompt
+   */
+  buildContext(chunks: KnowledgeChunk[]): string {
+    if (chunks.length === 0) {
+      return 'No relevant knowledge base passages were found.';
+    }
+
+    return chunks.map((chunk, i) => `[${i + 1}] (${chunk.title})\n${chunk.content}`).join('\n---\n');
+  }
+
+  /**
+   * System prompt for answering from the knowledge base: the agent's own
+   * instructions followed by the citation rules and the numbered context
+   */
+  buildSystemPrompt(instructions: string, chunks: KnowledgeChunk[]): string {
+    return `
+${instructions}
+
+You have access to the following knowledge base connection. Use it to answer the user's questions. 
+If the answer is not in the context, say you don't know, but try to be helpful based on the context provided.
+${CITATION_INSTRUCTIONS}
+
+Context:
+${this.buildContext(chunks)}
+`;
+  }
+
+  /**
+   * Check an answer against the retrieved evidence. Evidence is the chunk
+   * contents plus any other context the model was given (e.g. resolutions of
+   * similar tickets). Returns the index of the passage supporting each
+   * supported sentence so unmarked citations can be inferred.
+   */
+  checkGrounding(answer: string, evidence: string[]): GroundingResult & { supportingPassages: number[] } {
+    const passages = evidence.map((text) => new Set(contentWords(text)));
+    const supportingPassages = new Set<number>();
+    let checkedSentences = 0;
+    let supportedSentences = 0;
+
+    for (const sentence of splitSentences(answer)) {
+      const words = contentWords(sentence);
+      if (words.length < MIN_CONTENT_WORDS) continue;
+
+      checkedSentences++;
+
+      let best = -1;
+      let bestRatio = 0;
+      passages.forEach((passage, i) => {
+        const ratio = words.filter((word) => passage.has(word)).length / words.length;
+        if (ratio > bestRatio) {
+          best = i;
+          bestRatio = ratio;
+        }
+      });
+
+      if (bestRatio >= SENTENCE_SUPPORT_RATIO) {
+        supportedSentences++;
+        supportingPassages.add(best);
+      }
+    }
+
+    // Nothing factual to check (e.g. a short greeting)
+    const score = checkedSentences === 0 ? 1 : supportedSentences / checkedSentences;
+
+    return {
+      score,
+      grounded: score >= GROUNDED_MIN_SCORE,
+      checkedSentences,
+      supportedSentences,
+      refused: score < REFUSE_BELOW_SCORE,
+      supportingPassages: Array.from(supportingPassages).sort((a, b) => a - b),
+    };
+  }
+
+  /**
+   * Citations for the chunks the answer marked with [n], falling back to the
+   * chunks the grounding check matched when the model left no markers
+   */
+  extractCitations(answer: string, chunks: KnowledgeChunk[], supportingPassages: number[] = []): Citation[] {
+    const marked = new Set<number>();
+    for (const match of answer.matchAll(CITATION_MARKER)) {
+      for (const number of match[1].split(',')) {
+        const index = Number(number.trim());
+        if (index >= 1 && index <= chunks.length) {
+          marked.add(index);
+        }
+      }
+    }
+
+    const inferred = marked.size === 0;
+    const indexes = inferred
+      ? supportingPassages.filter((i) => i < chunks.length).map((i) => i + 1)
+      : Array.from(marked).sort((a, b) => a - b);
+
+    return indexes.map((index) => {
+      const chunk = chunks[index - 1];
+      return {
+        index,
+        sourceId: chunk.sourceId,
+        chunkId: chunk.id,
+        sourceType: chunk.sourceType,
+        title: chunk.title,
+        url: chunk.url,
+        section: chunk.section,
+        page: chunk.page,
+        snippet: chunk.content.length > SNIPPET_LENGTH ? `${chunk.content.slice(0, SNIPPET_LENGTH)}…` : chunk.content,
+        similarity: chunk.similarity,
+        ...(inferred && { inferred: true }),
+      };
+    });
+  }
+
+  /**
+   * Cite the knowledge base chunks behind an answer and check it is supported
+   * by them. Unsupported answers are replaced with a refusal.
+   */
+  groundAnswer(answer: string, chunks: KnowledgeChunk[]): { message: string; citations: Citation[]; grounding: GroundingResult } {
+    const { supportingPassages, ...grounding } = this.checkGrounding(
+      answer,
+      chunks.map((chunk) => chunk.content)
+    );
+
+    if (grounding.refused) {
+      return { message: REFUSAL_MESSAGE, citations: [], grounding };
+    }
+
+    return {
+      message: answer,
+      citations: this.extractCitations(answer, chunks, supportingPassages),
+      grounding,
+    };
+  }
+
+  /**
+   * Scale confidence by how well the answer is supported: a fully supported
+   * answer keeps its confidence, an unsupported one loses half of it
+   */
+  adjustConfidence(confidence: number, grounding: GroundingResult): number {
+    return confidence * (0.5 + grounding.score / 2);
+  }
+
+  /**
+   * Answer text for channels without citation UI: markers removed and linked
+   * sources listed at the end
+   */
+  formatForCustomer(answer: string, citations: Citation[]): string {
+    const text = answer.replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '').trim();
+    const links = Array.from(
+      new Map(citations.filter((citation) => citation.url).map((citation) => [citation.url, citation])).values()
+    );
+
+    if (links.length === 0) {
+      return text;
+    }
+
+    const lines = links.map((citation) =>
+      citation.title === citation.url ? `- ${citation.url}` : `- ${citation.title}: ${citation.url}`
+    );
+
+    return `${text}\n\nSources:\n${lines.join('\n')}`;
+  }
+}
+
+export default new GroundingService();
@@ -0,0 +1,399 @@
+/**
+ * Knowledge Base Service
+ *
+ * Retrieves the agent_embeddings chunks most relevant to a question, together
+ * with the AgentSource each chunk came from, so answers can cite where their
+ * information was found.
+ *
+ * Retrieval is hybrid: a vector search catches paraphrases, a Postgres
+ * full-text search catches exact product names, error codes and account types
+ * that embeddings tend to blur. The two rankings are merged with reciprocal
+ * rank fusion and can optionally be re-ranked by the organization's AI
+ * provider. Each agent tunes top-k, minimum similarity and re-ranking in
+ * ai_agents.retrieval_settings.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { createComplianceProvider } from './aiProviders';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import { STOPWORDS } from './groundingService';
+
+export interface RetrievalSettings {
+  topK: number;
+  minSimilarity: number; // vector hits below this are dropped; keyword hits are kept regardless
+  rerank: boolean;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  topK: 5,
+  minSimilarity: 0.3,
+  rerank: false,
+};
+
+export const MAX_TOP_K = 20;
+
+export interface RetrievalQuery {
+  text: string; // used for keyword search and re-ranking
+  embedding?: number[];
+  ticketId?: string; // use the ticket's stored embedding instead of a query embedding
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  sourceId: string;
+  content: string;
+  similarity: number;
+  sourceType: string;
+  title: string;
+  url: string | null;
+  section: string | null; // heading the chunk sits under
+  page: number | null;
+  vectorRank: number | null;
+  keywordRank: number | null;
+  keywordScore: number | null;
+  fusedScore: number;
+  rerankScore?: number;
+}
+
+export interface RetrievalTrace {
+  settings: RetrievalSettings;
+  keywordTerms: string[];
+  vector: KnowledgeChunk[];
+  keyword: KnowledgeChunk[];
+  fused: KnowledgeChunk[];
+  reranked: boolean;
+  chunks: KnowledgeChunk[];
+}
+
+interface ChunkRow {
+  id: string;
+  source_id: string;
+  content: string;
+  similarity: number | null;
+  keyword_score?: number | null;
+  source_type: string;
+  source_url: string | null;
+  source_metadata: Record<string, any> | null;
+  chunk_metadata: Record<string, any> | null;
+}
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+// Each search returns this many times top-k candidates before fusion
+const CANDIDATE_MULTIPLIER = 4;
+const MAX_KEYWORD_TERMS = 20;
+const RERANK_SNIPPET_LENGTH = 600;
+// Tokens such as [EMAIL_1] left in redacted ticket text
+const PII_PLACEHOLDER = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+export class KnowledgeBaseService {
+  /**
+   * An agent's stored retrieval settings over the defaults, with request overrides on top
+   */
+  resolveSettings(stored: unknown, overrides: Partial<RetrievalSettings> = {}): RetrievalSettings {
+    return {
+      ...DEFAULT_RETRIEVAL_SETTINGS,
+      ...((stored && typeof stored === 'object' ? stored : {}) as Partial<RetrievalSettings>),
+      ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+    };
+  }
+
+  /**
+   * Validate a partial settings update, throwing a 400 on the first bad value
+   */
+  validateSettings(input: Record<string, any>): Partial<RetrievalSettings> {
+    const settings: Partial<RetrievalSettings> = {};
+
+    if (input.topK !== undefined) {
+      if (!Number.isInteger(input.topK) || input.topK < 1 || input.topK > MAX_TOP_K) {
+        throw new AppError(`topK must be an integer between 1 and ${MAX_TOP_K}`, 400);
+      }
+      settings.topK = input.topK;
+    }
+
+    if (input.minSimilarity !== undefined) {
+      if (typeof input.minSimilarity !== 'number' || input.minSimilarity < 0 || input.minSimilarity > 1) {
+        throw new AppError('minSimilarity must be a number between 0 and 1', 400);
+      }
+      settings.minSimilarity = input.minSimilarity;
+    }
+
+    if (input.rerank !== undefined) {
+      if (typeof input.rerank !== 'boolean') {
+        throw new AppError('rerank must be a boolean', 400);
+      }
+      settings.rerank = input.rerank;
+    }
+
+    return settings;
+  }
+
+  /**
+   * Chunks to put in front of the model for a question
+   */
+  async retrieve(
+    agent: { id: string; organizationId: string; retrievalSettings: unknown },
+    query: RetrievalQuery,
+    options: { userId?: string } = {}
+  ): Promise<KnowledgeChunk[]> {
+    return (await this.retrieveWithTrace(agent, query, options)).chunks;
+  }
+
+  /**
+   * Retrieve and keep every intermediate ranking, for the debug endpoint
+   */
+  async retrieveWithTrace(
+    agent: { id: string; organizationId: string; retrievalSettings: unknown },
+    query: RetrievalQuery,
+    options: { userId?: string; overrides?: Partial<RetrievalSettings> } = {}
+  ): Promise<RetrievalTrace> {
+    const settings = this.resolveSettings(agent.retrievalSettings, options.overrides);
+    const candidates = settings.topK * CANDIDATE_MULTIPLIER;
+
+    const vectorExpr = query.embedding
+      ? Prisma.sql`${`[${query.embedding.join(',')}]`}::vector`
+      : query.ticketId
+        ? Prisma.sql`(SELECT embedding FROM ticket_embeddings WHERE ticket_id = ${query.ticketId})`
+        : null;
+
+    const keywordTerms = this.keywordTerms(query.text);
+
+    const [vectorRows, keywordRows] = await Promise.all([
+      vectorExpr ? this.vectorSearch(agent.id, vectorExpr, candidates) : Promise.resolve([]),
+      keywordTerms.length ? this.keywordSearch(agent.id, keywordTerms, vectorExpr, candidates) : Promise.resolve([]),
+    ]);
+
+    const vector = vectorRows
+      .filter((row) => row.similarity !== null && Number(row.similarity) >= settings.minSimilarity)
+      .map((row, i) => this.toChunk(row, { vectorRank: i + 1 }));
+    const keyword = keywordRows.map((row, i) => this.toChunk(row, { keywordRank: i + 1 }));
+
+    const fused = this.fuse(vector, keyword);
+    let chunks = fused.slice(0, settings.topK);
+    let reranked = false;
+
+    if (settings.rerank && fused.length > 1) {
+      const result = await this.rerank(agent, query, fused.slice(0, settings.topK * 2), options.userId);
+      if (result) {
+        chunks = result.slice(0, settings.topK);
+        reranked = true;
+      }
+    }
+
+    return { settings, keywordTerms, vector, keyword, fused, reranked, chunks };
+  }
+
+  /**
+   * Distinctive words of the query: stopwords and PII placeholders dropped,
+   * codes such as "ERR-504" or "v2.1" kept whole
+   */
+  private keywordTerms(text: string): string[] {
+    const tokens = text
+      .replace(PII_PLACEHOLDER, ' ')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || [];
+    const terms = tokens.filter((token) => /\d/.test(token) || (token.length >= 3 && !STOPWORDS.has(token)));
+
+    return Array.from(new Set(terms)).slice(0, MAX_KEYWORD_TERMS);
+  }
+
+  private async vectorSearch(agentId: string, vectorExpr: Prisma.Sql, limit: number): Promise<ChunkRow[]> {
+    return (await prisma.$queryRaw`
+      SELECT
+        e.id,
+        e.source_id,
+        e.content,
+        1 - (e.embedding <=> ${vectorExpr}) AS similarity,
+        s.source_type,
+        CASE WHEN s.source_type = 'website' THEN s.content END AS source_url,
+        s.metadata AS source_metadata,
+        e.metadata AS chunk_metadata
+      FROM agent_embeddings e
+      JOIN agent_sources s ON s.id = e.source_id
+      WHERE s.agent_id = ${agentId}
+        AND e.embedding IS NOT NULL
+      ORDER BY e.embedding <=> ${vectorExpr}
+      LIMIT ${limit}
+    `) as ChunkRow[];
+  }
+
+  /**
+   * Chunks containing any of the terms, ranked by cover density
+   */
+  private async keywordSearch(
+    agentId: string,
+    terms: string[],
+    vectorExpr: Prisma.Sql | null,
+    limit: number
+  ): Promise<ChunkRow[]> {
+    const tsQuery = Prisma.join(
+      terms.map((term) => Prisma.sql`plainto_tsquery('simple', ${term})`),
+      ' || '
+    );
+    const similarity = vectorExpr ? Prisma.sql`1 - (e.embedding <=> ${vectorExpr})` : Prisma.sql`NULL::float8`;
+
+    return (await prisma.$queryRaw`
+      SELECT
+        e.id,
+        e.source_id,
+        e.content,
+        ${similarity} AS similarity,
+        ts_rank_cd(e.search_vector, q.query) AS keyword_score,
+        s.source_type,
+        CASE WHEN s.source_type = 'website' THEN s.content END AS source_url,
+        s.metadata AS source_metadata,
+        e.metadata AS chunk_metadata
+      FROM agent_embeddings e
+      JOIN agent_sources s ON s.id = e.source_id
+      CROSS JOIN (SELECT (${tsQuery}) AS query) q
+      WHERE s.agent_id = ${agentId}
+        AND e.search_vector @@ q.query
+      ORDER BY keyword_score DESC
+      LIMIT ${limit}
+    `) as ChunkRow[];
+  }
+
+  /**
+   * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every chunk it ranks
+   */
+  private fuse(vector: KnowledgeChunk[], keyword: KnowledgeChunk[]): KnowledgeChunk[] {
+    const merged = new Map<string, KnowledgeChunk>();
+
+    for (const chunk of vector) {
+      merged.set(chunk.id, { ...chunk, fusedScore: 1 / (RRF_K + chunk.vectorRank!) });
+    }
+
+    for (const chunk of keyword) {
+      const score = 1 / (RRF_K + chunk.keywordRank!);
+      const existing = merged.get(chunk.id);
+
+      if (existing) {
+        existing.keywordRank = chunk.keywordRank;
+        existing.keywordScore = chunk.keywordScore;
+        existing.fusedScore += score;
+      } else {
+        merged.set(chunk.id, { ...chunk, fusedScore: score });
+      }
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+  }
+
+  /**
+   * Ask the organization's AI provider to score each candidate's relevance
+   * Returns null (keep the fused order) when the budget is used up or the call fails.
+   */
+  private async rerank(
+    agent: { id: string; organizationId: string },
+    query: RetrievalQuery,
+    candidates: KnowledgeChunk[],
+    userId?: string
+  ): Promise<KnowledgeChunk[] | null> {
+    const organizationId = agent.organizationId;
+
+    try {
+      if ((await aiUsageService.getBudgetStatus(organizationId)).exceeded) {
+        return null;
+      }
+
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { settings: true },
+      });
+      const provider = createComplianceProvider((organization?.settings as any)?.compliance, { temperature: 0 });
+
+      const passages = candidates
+        .map((chunk, i) => `[${i + 1}] ${chunk.content.slice(0, RERANK_SNIPPET_LENGTH)}`)
+        .join('\n\n');
+
+      const response = await provider.generateResponse(
+        [
+          {
+            role: 'user',
+            content: `Rate how well each passage helps answer the question, from 0 (irrelevant) to 10 (answers it directly).
+
+Question:
+${query.text}
+
+Passages:
+${passages}
+
+Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
+[{ "passage": number, "score": number }]`,
+          },
+        ],
+        { temperature: 0, maxTokens: 512 }
+      );
+
+      await aiUsageService.record(organizationId, {
+        feature: 'rerank',
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage,
+        metadata: { agentId: agent.id, candidates: candidates.length, ...(query.ticketId && { ticketId: query.ticketId }) },
+      });
+
+      await auditService.recordAICall(organizationId, {
+        feature: 'rerank',
+        provider: response.provider,
+        model: response.model,
+        userId,
+        ticketId: query.ticketId,
+        agentId: agent.id,
+        ...(response.fallbackFrom && { fallbackFrom: response.fallbackFrom }),
+      });
+
+      const scores = JSON.parse(response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()) as {
+        passage: number;
+        score: number;
+      }[];
+
+      const scored = candidates.map((chunk, i) => ({
+        ...chunk,
+        rerankScore: Number(scores.find((entry) => entry.passage === i + 1)?.score ?? 0),
+      }));
+
+      // Ties keep the fused order
+      return scored
+        .map((chunk, i) => ({ chunk, i }))
+        .sort((a, b) => b.chunk.rerankScore - a.chunk.rerankScore || a.i - b.i)
+        .map(({ chunk }) => chunk);
+    } catch (error) {
+      logger.warn(`Re-ranking failed for agent ${agent.id}, keeping fused order:`, error);
+      return null;
+    }
+  }
+
+  private toChunk(row: ChunkRow, ranks: { vectorRank?: number; keywordRank?: number }): KnowledgeChunk {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      content: row.content,
+      similarity: row.similarity === null ? 0 : Number(row.similarity),
+      sourceType: row.source_type,
+      title: this.sourceTitle(row),
+      url: row.source_url || row.source_metadata?.url || null,
+      section: row.chunk_metadata?.section || null,
+      page: row.chunk_metadata?.page ?? null,
+      vectorRank: ranks.vectorRank ?? null,
+      keywordRank: ranks.keywordRank ?? null,
+      keywordScore: row.keyword_score === undefined || row.keyword_score === null ? null : Number(row.keyword_score),
+      fusedScore: 0,
+    };
+  }
+
+  /**
+   * Human-readable name for a source: an explicit title, the file name, the
+   * page URL, or the source type as a last resort
+   */
+  private sourceTitle(row: ChunkRow): string {
+    const metadata = row.source_metadata || {};
+    return metadata.title || metadata.fileName || row.source_url || `${row.source_type} source`;
+  }
+}
+
+export default new KnowledgeBaseService();
@@ -0,0 +1,338 @@
+/**
+ * Metering Service
+ *
+ * Keeps usage_tracking in step with what organizations actually use, so the
+ * plan limits checked by checkSubscriptionLimits mean something. Messages are
+ * counted per billing period; channels, forms, AI agents and teammates are
+ * running totals that carry into each new period.
+ *
+ * Admins are warned when a counter crosses 80% and 100% of its plan limit.
+ * What happens past 100% depends on the plan's overage mode
+ * (features.overage_mode): 'block' (default) rejects new usage, 'allow' lets
+ * it continue and reports the overage for billing. The mode can also be set
+ * per feature, e.g. { "messages": "allow", "teammates": "block" }.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { emailQueue } from '../config/queue';
+
+export type MeteredFeature = 'messages' | 'channels' | 'forms' | 'aiAgents' | 'teammates';
+export type OverageMode = 'block' | 'allow';
+
+export const METERED_FEATURES: MeteredFeature[] = ['messages', 'channels', 'forms', 'aiAgents', 'teammates'];
+
+export interface FeatureUsage {
+  used: number;
+  limit: number; // -1 means unlimited
+  percent: number | null;
+  status: 'ok' | 'warning' | 'limit_reached' | 'overage';
+  overageMode: OverageMode;
+  overage: number;
+}
+
+export interface LimitCheck {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  plan: string;
+  overageMode: OverageMode;
+}
+
+const COLUMNS: Record<MeteredFeature, 'messagesUsed' | 'channelsUsed' | 'formsUsed' | 'aiAgentsUsed' | 'teammatesUsed'> = {
+  messages: 'messagesUsed',
+  channels: 'channelsUsed',
+  forms: 'formsUsed',
+  aiAgents: 'aiAgentsUsed',
+  teammates: 'teammatesUsed',
+};
+
+// Running totals seeded from real counts at the start of each period
+const GAUGE_FEATURES: MeteredFeature[] = ['channels', 'forms', 'aiAgents', 'teammates'];
+
+const WARNING_THRESHOLDS = [80, 100];
+
+const FEATURE_LABELS: Record<MeteredFeature, string> = {
+  messages: 'messages',
+  channels: 'channels',
+  forms: 'forms',
+  aiAgents: 'AI agents',
+  teammates: 'teammates',
+};
+
+type PlanLimits = {
+  name: string;
+  channelsLimit: number;
+  messagesLimit: number;
+  formsLimit: number;
+  aiAgentsLimit: number;
+  teammatesLimit: number;
+  features: any;
+};
+
+export class MeteringService {
+  getCurrentPeriod(): string {
+    return new Date().toISOString().slice(0, 7); // YYYY-MM
+  }
+
+  getLimit(plan: PlanLimits, feature: MeteredFeature): number {
+    const limits: Record<MeteredFeature, number> = {
+      messages: plan.messagesLimit,
+      channels: plan.channelsLimit,
+      forms: plan.formsLimit,
+      aiAgents: plan.aiAgentsLimit,
+      teammates: plan.teammatesLimit,
+    };
+    return limits[feature];
+  }
+
+  getOverageMode(plan: PlanLimits, feature: MeteredFeature): OverageMode {
+    const setting = plan.features?.overage_mode;
+    const mode = typeof setting === 'object' && setting !== null ? setting[feature] : setting;
+    return mode === 'allow' ? 'allow' : 'block';
+  }
+
+  private async getSubscription(organizationId: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        name: true,
+        subscription: { include: { plan: true } },
+      },
+    });
+
+    return organization?.subscription ? { organizationName: organization.name, ...organization.subscription } : null;
+  }
+
+  /**
+   * Make sure the period has a usage row. New rows start with the real
+   * channel/form/agent/teammate counts. Returns true if this call created it.
+   * AI usage recording goes through here too, so no row starts from zero.
+   */
+  async ensurePeriod(organizationId: string, subscriptionId: string, period: string): Promise<boolean> {
+    const existing = await prisma.usageTracking.findUnique({
+      where: { subscriptionId_period: { subscriptionId, period } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return false;
+    }
+
+    const [channelsUsed, formsUsed, aiAgentsUsed, teammatesUsed] = await Promise.all([
+      prisma.sourceConnection.count({ where: { organizationId, isActive: true } }),
+      prisma.form.count({ where: { organizationId } }),
+      prisma.aiAgent.count({ where: { organizationId } }),
+      prisma.organizationMember.count({ where: { organizationId } }),
+    ]);
+
+    try {
+      await prisma.usageTracking.create({
+        data: { subscriptionId, period, channelsUsed, formsUsed, aiAgentsUsed, teammatesUsed },
+      });
+      return true;
+    } catch (error: any) {
+      // Another request created the row first
+      if (error?.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically add to a usage counter and warn when a threshold is crossed
+   * Never throws: metering must not fail the request that caused the usage.
+   */
+  async increment(organizationId: string, feature: MeteredFeature, amount: number = 1): Promise<void> {
+    if (amount <= 0) return;
+
+    try {
+      const subscription = await this.getSubscription(organizationId);
+      if (!subscription) return;
+
+      const period = this.getCurrentPeriod();
+      const created = await this.ensurePeriod(organizationId, subscription.id, period);
+      const column = COLUMNS[feature];
+
+      // A freshly seeded gauge already counts the item that triggered this call
+      const usage =
+        created && GAUGE_FEATURES.includes(feature)
+          ? await prisma.usageTracking.findUniqueOrThrow({
+              where: { subscriptionId_period: { subscriptionId: subscription.id, period } },
+            })
+          : await prisma.usageTracking.update({
+              where: { subscriptionId_period: { subscriptionId: subscription.id, period } },
+              data: { [column]: { increment: amount } },
+            });
+
+      const used = usage[column];
+      const limit = this.getLimit(subscription.plan, feature);
+
+      if (limit <= 0) return;
+
+      const before = used - amount;
+      for (const threshold of WARNING_THRESHOLDS) {
+        const mark = (limit * threshold) / 100;
+        if (before < mark && used >= mark) {
+          await this.warn(organizationId, subscription, usage.id, feature, threshold, used, limit);
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to meter ${feature} for organization ${organizationId}:`, error);
+    }
+  }
+
+  /**
+   * Release a running total when the item is removed (channels, forms, agents, teammates)
+   */
+  async decrement(organizationId: string, feature: MeteredFeature, amount: number = 1): Promise<void> {
+    if (!GAUGE_FEATURES.includes(feature) || amount <= 0) return;
+
+    try {
+      const subscription = await this.getSubscription(organizationId);
+      if (!subscription) return;
+
+      const column = COLUMNS[feature];
+
+      await prisma.usageTracking.updateMany({
+        where: {
+          subscriptionId: subscription.id,
+          period: this.getCurrentPeriod(),
+          [column]: { gte: amount },
+        },
+        data: { [column]: { decrement: amount } },
+      });
+    } catch (error) {
+      logger.error(`Failed to release ${feature} usage for organization ${organizationId}:`, error);
+    }
+  }
+
+  /**
+   * Count messages stored on a ticket against its organization
+   */
+  async recordTicketMessages(ticketId: string, amount: number = 1): Promise<void> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { organizationId: true },
+    });
+
+    if (ticket) {
+      await this.increment(ticket.organizationId, 'messages', amount);
+    }
+  }
+
+  /**
+   * Record the warning on the usage row and email the organization's admins
+   */
+  private async warn(
+    organizationId: string,
+    subscription: NonNullable<Awaited<ReturnType<MeteringService['getSubscription']>>>,
+    usageId: string,
+    feature: MeteredFeature,
+    threshold: number,
+    used: number,
+    limit: number
+  ): Promise<void> {
+    const overageMode = this.getOverageMode(subscription.plan, feature);
+
+    await prisma.$executeRaw`
+      UPDATE usage_tracking
+      SET limit_warnings = jsonb_set(
+        COALESCE(limit_warnings, '{}'::jsonb),
+        ARRAY[${feature}],
+        COALESCE(limit_warnings->${feature}, '{}'::jsonb) || jsonb_build_object(${String(threshold)}::text, ${new Date().toISOString()}::text)
+      )
+      WHERE id = ${usageId}
+    `;
+
+    logger.warn(`Organization ${organizationId} reached ${threshold}% of its ${feature} limit (${used}/${limit})`);
+
+    const admins = await prisma.organizationMember.findMany({
+      where: { organizationId, role: 'admin' },
+      include: { user: { select: { email: true, firstName: true } } },
+    });
+
+    for (const admin of admins) {
+      await emailQueue.add({
+        type: 'usage_limit',
+        data: {
+          toEmail: admin.user.email,
+          firstName: admin.user.firstName,
+          organizationName: subscription.organizationName,
+          feature: FEATURE_LABELS[feature],
+          used,
+          limit,
+          threshold,
+          planName: subscription.plan.name,
+          overageAllowed: overageMode === 'allow',
+        },
+      });
+    }
+  }
+
+  /**
+   * Whether one more unit of a feature may be used under the plan
+   */
+  async checkLimit(organizationId: string, feature: MeteredFeature): Promise<LimitCheck | null> {
+    const subscription = await this.getSubscription(organizationId);
+    if (!subscription) return null;
+
+    const period = this.getCurrentPeriod();
+    await this.ensurePeriod(organizationId, subscription.id, period);
+
+    const usage = await prisma.usageTracking.findUnique({
+      where: { subscriptionId_period: { subscriptionId: subscription.id, period } },
+    });
+
+    const used = usage?.[COLUMNS[feature]] || 0;
+    const limit = this.getLimit(subscription.plan, feature);
+    const overageMode = this.getOverageMode(subscription.plan, feature);
+
+    return {
+      allowed: limit === -1 || used < limit || overageMode === 'allow',
+      used,
+      limit,
+      plan: subscription.plan.name,
+      overageMode,
+    };
+  }
+
+  /**
+   * Usage of every metered feature for the current period
+   */
+  async getUsageStatus(organizationId: string): Promise<Record<MeteredFeature, FeatureUsage> | null> {
+    const subscription = await this.getSubscription(organizationId);
+    if (!subscription) return null;
+
+    const usage = await prisma.usageTracking.findUnique({
+      where: { subscriptionId_period: { subscriptionId: subscription.id, period: this.getCurrentPeriod() } },
+    });
+
+    const status = {} as Record<MeteredFeature, FeatureUsage>;
+
+    for (const feature of METERED_FEATURES) {
+      const used = usage?.[COLUMNS[feature]] || 0;
+      const limit = this.getLimit(subscription.plan, feature);
+      const overageMode = this.getOverageMode(subscription.plan, feature);
+      const percent = limit > 0 ? Math.round((used / limit) * 1000) / 10 : null;
+
+      status[feature] = {
+        used,
+        limit,
+        percent,
+        status:
+          percent === null || percent < 80 ? 'ok'
+          : used > limit ? 'overage'
+          : percent >= 100 ? 'limit_reached'
+          : 'warning',
+        overageMode,
+        overage: limit > 0 ? Math.max(used - limit, 0) : 0,
+      };
+    }
+
+    return status;
+  }
+}
+
+export default new MeteringService();
@@ -0,0 +1,289 @@
+/**
+ * PII Pattern Packs
+ *
+ * Country and region specific PII formats, selectable per organization via
+ * compliance.piiPacks. Patterns that are easy to confuse with ordinary numbers
+ * are backed by a checksum (Luhn, NUBAN check digit, IBAN mod-97) or need a
+ * nearby keyword such as "account" or "ID number" before they are redacted.
+ */
+
+import type { PIIType } from './piiRedactor';
+
+export type PIIPackId = 'ng' | 'gh' | 'ke' | 'za' | 'eu' | 'us';
+
+export interface PIIPattern {
+  type: PIIType;
+  pattern: RegExp;
+  tokenPrefix: string;
+  // Extra check on a match; text and index allow looking at the surrounding context
+  validate?: (match: string, text: string, index: number) => boolean;
+}
+
+export interface PIIPatternPack {
+  id: PIIPackId;
+  name: string;
+  patterns: PIIPattern[];
+  detectNames?: boolean; // run the Nigerian name dictionary and title detection
+}
+
+// Used when an organization has not chosen any packs
+export const DEFAULT_PII_PACKS: PIIPackId[] = ['ng'];
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Luhn checksum used by card numbers and South African ID numbers
+ */
+export function isValidLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 2) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * CBN NUBAN check digit for a 10-digit account number at a 3-digit bank code
+ */
+export function isValidNuban(accountNumber: string, bankCode: string): boolean {
+  const digits = `${bankCode}${accountNumber}`;
+  if (!/^\d{13}$/.test(digits)) return false;
+
+  const weights = [3, 7, 3, 3, 7, 3, 3, 7, 3, 3, 7, 3];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return checkDigit === Number(digits[12]);
+}
+
+/**
+ * ISO 13616 IBAN validation (mod-97 == 1)
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /[A-Z]/.test(char) ? char.charCodeAt(0) - 55 : Number(char);
+    remainder = Number(`${remainder}${value}`) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Whether a keyword pattern appears shortly before the match
+ */
+const precededBy = (keywords: RegExp, window = 40) => (_match: string, text: string, index: number): boolean =>
+  keywords.test(text.slice(Math.max(0, index - window), index));
+
+// Major Nigerian banks and their CBN codes, used to check NUBAN numbers when the bank is named
+const NIGERIAN_BANK_CODES: { pattern: RegExp; code: string }[] = [
+  { pattern: /\baccess\b/i, code: '044' },
+  { pattern: /\bciti\s?bank\b/i, code: '023' },
+  { pattern: /\becobank\b/i, code: '050' },
+  { pattern: /\bfidelity\b/i, code: '070' },
+  { pattern: /\bfirst\s?bank\b/i, code: '011' },
+  { pattern: /\bfcmb\b|first city monument/i, code: '214' },
+  { pattern: /\bgt\s?bank\b|\bguaranty trust\b|\bgtco\b/i, code: '058' },
+  { pattern: /\bheritage\b/i, code: '030' },
+  { pattern: /\bjaiz\b/i, code: '301' },
+  { pattern: /\bkeystone\b/i, code: '082' },
+  { pattern: /\bpolaris\b/i, code: '076' },
+  { pattern: /\bprovidus\b/i, code: '101' },
+  { pattern: /\bstanbic\b/i, code: '221' },
+  { pattern: /\bstandard chartered\b/i, code: '068' },
+  { pattern: /\bsterling\b/i, code: '232' },
+  { pattern: /\bunion bank\b/i, code: '032' },
+  { pattern: /\buba\b|\bunited bank for africa\b/i, code: '033' },
+  { pattern: /\bunity bank\b/i, code: '215' },
+  { pattern: /\bwema\b|\balat\b/i, code: '035' },
+  { pattern: /\bzenith\b/i, code: '057' },
+];
+
+// "account number is", "acct no:", "A/C" ... directly before the number
+const ACCOUNT_KEYWORDS = /(?:\baccount|\bacct|\ba\/c|\bacc|\bnuban)(?:\s*(?:no\.?|number|num|#))?\s*(?:is|:|-)?\s*$/i;
+
+/**
+ * A 10-digit number is only an account number if it is introduced as one, or
+ * passes the NUBAN check digit for a bank named in the same text
+ */
+const isLikelyNuban = (match: string, text: string, index: number): boolean => {
+  if (precededBy(ACCOUNT_KEYWORDS)(match, text, index)) {
+    return true;
+  }
+
+  return NIGERIAN_BANK_CODES.some((bank) => bank.pattern.test(text) && isValidNuban(match, bank.code));
+};
+
+/**
+ * South African ID: YYMMDD birth date, then 7 digits ending in a Luhn check digit
+ */
+const isValidSouthAfricanId = (match: string): boolean => {
+  const month = Number(match.slice(2, 4));
+  const day = Number(match.slice(4, 6));
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 && isValidLuhn(match);
+};
+
+// Patterns every organization gets, whatever packs it selects
+export const COMMON_PII_PATTERNS: PIIPattern[] = [
+  // Email addresses
+  {
+    type: 'EMAIL',
+    pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
+    tokenPrefix: 'EMAIL',
+  },
+  // Card numbers (13-19 digits, possibly with spaces/dashes) that pass the Luhn check
+  {
+    type: 'CARD_NUM',
+    pattern: /\b(?:\d[ -]*?){13,19}\b/g,
+    tokenPrefix: 'CARD_NUM',
+    validate: (match) => isValidLuhn(match),
+  },
+  // Date of birth patterns (DD/MM/YYYY, DD-MM-YYYY, etc.)
+  {
+    type: 'DOB',
+    pattern: /\b(?:0?[1-9]|[12][0-9]|3[01])[\/\-](?:0?[1-9]|1[0-2])[\/\-](?:19|20)\d{2}\b/g,
+    tokenPrefix: 'DOB',
+  },
+];
+
+export const PII_PATTERN_PACKS: Record<PIIPackId, PIIPatternPack> = {
+  ng: {
+    id: 'ng',
+    name: 'Nigeria',
+    detectNames: true,
+    patterns: [
+      // Phone numbers (before NIN, which is also 11 digits)
+      {
+        type: 'PHONE',
+        pattern: /(?:\+234|234|0)[789][01][0-9]{8}\b/g,
+        tokenPrefix: 'PHONE',
+      },
+      // Account number (NUBAN) - 10 digits
+      {
+        type: 'ACCT_NUM',
+        pattern: /\b[0-9]{10}\b/g,
+        tokenPrefix: 'ACCT_NUM',
+        validate: isLikelyNuban,
+      },
+      // BVN - 11 digits starting with 22
+      {
+        type: 'BVN',
+        pattern: /\b22[0-9]{9}\b/g,
+        tokenPrefix: 'BVN',
+      },
+      // NIN - 11 digits
+      {
+        type: 'NIN',
+        pattern: /\b[0-9]{11}\b/g,
+        tokenPrefix: 'NIN',
+      },
+    ],
+  },
+  gh: {
+    id: 'gh',
+    name: 'Ghana',
+    patterns: [
+      // Ghana Card PIN - GHA-XXXXXXXXX-X
+      {
+        type: 'NATIONAL_ID',
+        pattern: /\bGHA-?\d{9}-?\d\b/gi,
+        tokenPrefix: 'NATIONAL_ID',
+      },
+      // Phone numbers
+      {
+        type: 'PHONE',
+        pattern: /(?:\+233|\b233|\b0)[235]\d{8}\b/g,
+        tokenPrefix: 'PHONE',
+      },
+    ],
+  },
+  ke: {
+    id: 'ke',
+    name: 'Kenya',
+    patterns: [
+      // KRA PIN - A/P, 9 digits, letter
+      {
+        type: 'TAX_ID',
+        pattern: /\b[AP]\d{9}[A-Z]\b/g,
+        tokenPrefix: 'TAX_ID',
+      },
+      // National ID - 7 or 8 digits, only when introduced as an ID
+      {
+        type: 'NATIONAL_ID',
+        pattern: /\b\d{7,8}\b/g,
+        tokenPrefix: 'NATIONAL_ID',
+        validate: precededBy(/\b(?:id|identity card|national id)(?:\s*(?:no\.?|number|#))?[:\s]*$/i, 25),
+      },
+      // Phone numbers
+      {
+        type: 'PHONE',
+        pattern: /(?:\+254|\b254|\b0)[17]\d{8}\b/g,
+        tokenPrefix: 'PHONE',
+      },
+    ],
+  },
+  za: {
+    id: 'za',
+    name: 'South Africa',
+    patterns: [
+      // ID number - 13 digits with birth date and Luhn check digit
+      {
+        type: 'NATIONAL_ID',
+        pattern: /\b\d{13}\b/g,
+        tokenPrefix: 'NATIONAL_ID',
+        validate: isValidSouthAfricanId,
+      },
+      // Phone numbers
+      {
+        type: 'PHONE',
+        pattern: /(?:\+27|\b27|\b0)[6-8]\d{8}\b/g,
+        tokenPrefix: 'PHONE',
+      },
+    ],
+  },
+  eu: {
+    id: 'eu',
+    name: 'EU (IBAN / VAT)',
+    patterns: [
+      // IBAN, optionally grouped in fours, validated with mod-97
+      {
+        type: 'IBAN',
+        pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+        tokenPrefix: 'IBAN',
+        validate: (match) => isValidIban(match),
+      },
+      // VAT identification numbers in each member state's format
+      {
+        type: 'VAT',
+        pattern:
+          /\b(?:ATU\d{8}|BE[01]\d{9}|BG\d{9,10}|CY\d{8}[A-Z]|CZ\d{8,10}|DE\d{9}|DK\d{8}|EE\d{9}|EL\d{9}|ES[A-Z0-9]\d{7}[A-Z0-9]|FI\d{8}|FR[A-Z0-9]{2}\d{9}|HR\d{11}|HU\d{8}|IE\d{7}[A-Z]{1,2}|IT\d{11}|LT(?:\d{9}|\d{12})|LU\d{8}|LV\d{11}|MT\d{8}|NL\d{9}B\d{2}|PL\d{10}|PT\d{9}|RO\d{8,10}|SE\d{12}|SI\d{8}|SK\d{10})\b/g,
+        tokenPrefix: 'VAT',
+      },
+    ],
+  },
+  us: {
+    id: 'us',
+    name: 'United States',
+    patterns: [
+      // Social Security Number - excludes never-issued area/group/serial numbers
+      {
+        type: 'SSN',
+        pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+        tokenPrefix: 'SSN',
+      },
+    ],
+  },
+};
+
+export const PII_PACK_IDS = Object.keys(PII_PATTERN_PACKS) as PIIPackId[];
@@ -4,18 +4,27 @@
  * Strips Personally Identifiable Information (PII) from text before sending to AI.
  * This is critical for bank compliance (NDPR, CBN guidelines).
  *
- * Supported PII types:
+ * Emails, card numbers (Luhn-checked) and dates of birth are always detected.
+ * Everything country specific comes from pattern packs (see piiPatternPacks),
+ * chosen per organization with compliance.piiPacks - Nigeria by default:
  * - Names (Nigerian naming patterns)
  * - Account numbers (NUBAN format - 10 digits)
  * - BVN (Bank Verification Number - 11 digits)
  * - NIN (National Identification Number - 11 digits)
  * - Phone numbers (Nigerian format)
- * - Email addresses
- * - Card numbers (PAN)
- * - Dates of birth
+ *
+ * Organizations can add their own types with compliance.customPiiPatterns.
  */
 
 import logger from '../config/logger';
+import {
+  PIIPackId,
+  PIIPattern,
+  PII_PATTERN_PACKS,
+  PII_PACK_IDS,
+  COMMON_PII_PATTERNS,
+  DEFAULT_PII_PACKS,
+} from './piiPatternPacks';
 
 export interface RedactionResult {
   redactedText: string;
@@ -31,7 +40,7 @@ export interface RedactionMapping {
   endIndex: number;
 }
 
-export type PIIType =
+export type BuiltInPIIType =
   | 'NAME'
   | 'ACCT_NUM'
   | 'BVN'
@@ -39,14 +48,50 @@ export type PIIType =
   | 'PHONE'
   | 'EMAIL'
   | 'CARD_NUM'
-  | 'DOB';
+  | 'DOB'
+  | 'NATIONAL_ID'
+  | 'TAX_ID'
+  | 'IBAN'
+  | 'VAT'
+  | 'SSN';
+
+// Custom types defined by an organization (e.g. POLICY_NUM) are plain strings
+export type PIIType = BuiltInPIIType | (string & {});
+
+export const BUILT_IN_PII_TYPES: BuiltInPIIType[] = [
+  'NAME',
+  'ACCT_NUM',
+  'BVN',
+  'NIN',
+  'PHONE',
+  'EMAIL',
+  'CARD_NUM',
+  'DOB',
+  'NATIONAL_ID',
+  'TAX_ID',
+  'IBAN',
+  'VAT',
+  'SSN',
+];
 
-interface PIIPattern {
-  type: PIIType;
-  pattern: RegExp;
-  tokenPrefix: string;
+export interface CustomPIIPattern {
+  type: string; // upper-case letters and underscores, used in tokens like [POLICY_NUM_1]
+  pattern: string;
+  caseInsensitive?: boolean;
 }
 
+export interface RedactionOptions {
+  packs?: PIIPackId[]; // defaults to Nigeria
+  customPatterns?: CustomPIIPattern[];
+}
+
+type PIIMatch = Omit<RedactionMapping, 'token'>;
+
+const CUSTOM_TYPE_PATTERN = /^[A-Z][A-Z_]{1,30}$/;
+const MAX_CUSTOM_PATTERN_LENGTH = 200;
+// Quantified groups that are themselves quantified, e.g. (a+)+, can backtrack catastrophically
+const NESTED_QUANTIFIER = /\([^)]*[+*}][^)]*\)\s*[+*{]/;
+
 // Nigerian name patterns - common prefixes/suffixes
 const NIGERIAN_NAME_PREFIXES = ['Chief', 'Dr', 'Engr', 'Barr', 'Prof', 'Alhaji', 'Alhaja', 'Pastor', 'Rev', 'Hon'];
 const COMMON_NIGERIAN_FIRST_NAMES = [
@@ -65,76 +110,119 @@ const COMMON_NIGERIAN_FIRST_NAMES = [
 ];
 
 class PIIRedactorService {
-  private patterns: PIIPattern[] = [
-    // Nigerian Account Number (NUBAN) - 10 digits
-    {
-      type: 'ACCT_NUM',
-      pattern: /\b[0-9]{10}\b/g,
-      tokenPrefix: 'ACCT_NUM',
-    },
-    // BVN - 11 digits starting with 22
-    {
-      type: 'BVN',
-      pattern: /\b22[0-9]{9}\b/g,
-      tokenPrefix: 'BVN',
-    },
-    // NIN - 11 digits
-    {
-      type: 'NIN',
-      pattern: /\b[0-9]{11}\b/g,
-      tokenPrefix: 'NIN',
-    },
-    // Nigerian Phone Numbers
-    {
-      type: 'PHONE',
-      pattern: /(?:\+234|234|0)[789][01][0-9]{8}\b/g,
-      tokenPrefix: 'PHONE',
-    },
-    // Email addresses
-    {
-      type: 'EMAIL',
-      pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
-      tokenPrefix: 'EMAIL',
-    },
-    // Card numbers (13-19 digits, possibly with spaces/dashes)
-    {
-      type: 'CARD_NUM',
-      pattern: /\b(?:\d[ -]*?){13,19}\b/g,
-      tokenPrefix: 'CARD_NUM',
-    },
-    // Date of birth patterns (DD/MM/YYYY, DD-MM-YYYY, etc.)
-    {
-      type: 'DOB',
-      pattern: /\b(?:0?[1-9]|[12][0-9]|3[01])[\/\-](?:0?[1-9]|1[0-2])[\/\-](?:19|20)\d{2}\b/g,
-      tokenPrefix: 'DOB',
-    },
-  ];
-
   private tokenCounter: Map<PIIType, number> = new Map();
 
+  /**
+   * Read redaction options from an organization's compliance settings
+   */
+  optionsFromCompliance(compliance: any): RedactionOptions {
+    return {
+      packs: Array.isArray(compliance?.piiPacks) ? compliance.piiPacks : undefined,
+      customPatterns: Array.isArray(compliance?.customPiiPatterns) ? compliance.customPiiPatterns : undefined,
+    };
+  }
+
+  /**
+   * Check an organization-defined pattern; returns an error message or null
+   */
+  validateCustomPattern(custom: CustomPIIPattern): string | null {
+    if (!custom || typeof custom.type !== 'string' || !CUSTOM_TYPE_PATTERN.test(custom.type)) {
+      return 'type must be 2-31 upper-case letters or underscores';
+    }
+
+    if ((BUILT_IN_PII_TYPES as string[]).includes(custom.type)) {
+      return `${custom.type} is a built-in type`;
+    }
+
+    if (typeof custom.pattern !== 'string' || !custom.pattern || custom.pattern.length > MAX_CUSTOM_PATTERN_LENGTH) {
+      return `pattern must be a regular expression of at most ${MAX_CUSTOM_PATTERN_LENGTH} characters`;
+    }
+
+    if (NESTED_QUANTIFIER.test(custom.pattern)) {
+      return 'pattern must not contain nested quantifiers';
+    }
+
+    try {
+      new RegExp(custom.pattern, 'g');
+    } catch {
+      return 'pattern is not a valid regular expression';
+    }
+
+    if (new RegExp(custom.pattern).test('')) {
+      return 'pattern must not match empty text';
+    }
+
+    return null;
+  }
+
+  /**
+   * Patterns for the selected packs, most specific first, then the common ones
+   */
+  private getPatterns(options: RedactionOptions): PIIPattern[] {
+    const packs = this.getPacks(options);
+    const patterns = packs.flatMap((pack) => PII_PATTERN_PACKS[pack].patterns);
+
+    for (const custom of options.customPatterns || []) {
+      if (this.validateCustomPattern(custom)) {
+        logger.warn(`Skipping invalid custom PII pattern ${custom?.type}`);
+        continue;
+      }
+
+      patterns.push({
+        type: custom.type,
+        pattern: new RegExp(custom.pattern, custom.caseInsensitive ? 'gi' : 'g'),
+        tokenPrefix: custom.type,
+      });
+    }
+
+    return [...patterns, ...COMMON_PII_PATTERNS];
+  }
+
+  private getPacks(options: RedactionOptions): PIIPackId[] {
+    const packs = (options.packs || DEFAULT_PII_PACKS).filter((pack) => PII_PACK_IDS.includes(pack));
+    return PII_PACK_IDS.filter((pack) => packs.includes(pack));
+  }
+
+  /**
+   * Drop matches that overlap an earlier (or longer) match so replacement stays consistent
+   * Ties keep the pattern listed first, so country-specific types win over generic ones.
+   */
+  private removeOverlaps(matches: PIIMatch[]): PIIMatch[] {
+    const sorted = [...matches].sort(
+      (a, b) => a.startIndex - b.startIndex || (b.endIndex - b.startIndex) - (a.endIndex - a.startIndex)
+    );
+
+    const kept: PIIMatch[] = [];
+    for (const match of sorted) {
+      const last = kept[kept.length - 1];
+      if (!last || match.startIndex >= last.endIndex) {
+        kept.push(match);
+      }
+    }
+    return kept;
+  }
+
   /**
    * Redact all PII from the given text
    */
-  redact(text: string): RedactionResult {
+  redact(text: string, options: RedactionOptions = {}): RedactionResult {
     this.resetTokenCounter();
 
-    let redactedText = text;
-    const redactions: RedactionMapping[] = [];
+    const found: PIIMatch[] = [];
 
     // First, redact pattern-based PII (numbers, emails, etc.)
-    for (const piiPattern of this.patterns) {
+    for (const piiPattern of this.getPatterns(options)) {
       const matches = text.matchAll(piiPattern.pattern);
 
       for (const match of matches) {
-        if (match.index === undefined) continue;
+        if (match.index === undefined || !match[0]) continue;
 
         const original = match[0];
-        const token = this.generateToken(piiPattern.type);
+        if (piiPattern.validate && !piiPattern.validate(original, text, match.index)) continue;
 
-        redactions.push({
+        found.push({
           type: piiPattern.type,
           original,
-          token,
           startIndex: match.index,
           endIndex: match.index + original.length,
         });
@@ -142,24 +230,25 @@ class PIIRedactorService {
     }
 
     // Then, detect and redact names (more complex logic)
-    const nameRedactions = this.detectNames(text);
-    redactions.push(...nameRedactions);
+    if (this.getPacks(options).some((pack) => PII_PATTERN_PACKS[pack].detectNames)) {
+      found.push(...this.detectNames(text));
+    }
 
-    // Sort redactions by start index (descending) to replace from end to start
-    // This preserves correct indices during replacement
-    redactions.sort((a, b) => b.startIndex - a.startIndex);
+    // Tokens are numbered in reading order
+    const redactions: RedactionMapping[] = this.removeOverlaps(found).map((match) => ({
+      ...match,
+      token: this.generateToken(match.type),
+    }));
 
-    // Apply redactions
-    for (const redaction of redactions) {
+    // Apply redactions from end to start so earlier indices stay valid
+    let redactedText = text;
+    for (let i = redactions.length - 1; i >= 0; i--) {
       redactedText =
-        redactedText.substring(0, redaction.startIndex) +
-        `[${redaction.token}]` +
-        redactedText.substring(redaction.endIndex);
+        redactedText.substring(0, redactions[i].startIndex) +
+        `[${redactions[i].token}]` +
+        redactedText.substring(redactions[i].endIndex);
     }
 
-    // Re-sort by start index (ascending) for the output
-    redactions.sort((a, b) => a.startIndex - b.startIndex);
-
     logger.debug(`PII Redaction: Found ${redactions.length} PII items`, {
       types: redactions.map(r => r.type),
     });
@@ -194,8 +283,8 @@ class PIIRedactorService {
    * - Capitalization patterns
    * - Context clues ("my name is", "I am", etc.)
    */
-  private detectNames(text: string): RedactionMapping[] {
-    const redactions: RedactionMapping[] = [];
+  private detectNames(text: string): PIIMatch[] {
+    const redactions: PIIMatch[] = [];
 
     // Pattern 1: "my name is X" or "I am X" or "this is X"
     const nameIntroPatterns = [
@@ -215,7 +304,6 @@ class PIIRedactorService {
         redactions.push({
           type: 'NAME',
           original: name,
-          token: this.generateToken('NAME'),
           startIndex: nameStartIndex,
           endIndex: nameStartIndex + name.length,
         });
@@ -239,8 +327,7 @@ class PIIRedactorService {
           redactions.push({
             type: 'NAME',
             original: match[0],
-            token: this.generateToken('NAME'),
-            startIndex: match.index,
+              startIndex: match.index,
             endIndex: match.index + match[0].length,
           });
         }
@@ -263,8 +350,7 @@ class PIIRedactorService {
           redactions.push({
             type: 'NAME',
             original: match[0],
-            token: this.generateToken('NAME'),
-            startIndex: match.index,
+              startIndex: match.index,
             endIndex: match.index + match[0].length,
           });
         }
@@ -293,30 +379,21 @@ class PIIRedactorService {
   /**
    * Check if text contains any PII
    */
-  containsPII(text: string): boolean {
-    const result = this.redact(text);
+  containsPII(text: string, options: RedactionOptions = {}): boolean {
+    const result = this.redact(text, options);
     return result.hasRedactions;
   }
 
   /**
    * Get statistics about PII in text
    */
-  analyze(text: string): { total: number; byType: Record<PIIType, number> } {
-    const result = this.redact(text);
-
-    const byType: Record<PIIType, number> = {
-      NAME: 0,
-      ACCT_NUM: 0,
-      BVN: 0,
-      NIN: 0,
-      PHONE: 0,
-      EMAIL: 0,
-      CARD_NUM: 0,
-      DOB: 0,
-    };
+  analyze(text: string, options: RedactionOptions = {}): { total: number; byType: Record<PIIType, number> } {
+    const result = this.redact(text, options);
+
+    const byType = Object.fromEntries(BUILT_IN_PII_TYPES.map((type) => [type, 0])) as Record<PIIType, number>;
 
     for (const redaction of result.redactions) {
-      byType[redaction.type]++;
+      byType[redaction.type] = (byType[redaction.type] || 0) + 1;
     }
 
     return {
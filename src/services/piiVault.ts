@@ -0,0 +1,179 @@
+/**
+ * PII Vault Service
+ *
+ * Reversible tokenization for AI round-trips. Customer text is tokenized
+ * ([ACCT_NUM_1], [EMAIL_1], ...) before it reaches an AI provider, and the
+ * token-to-value mapping is stored encrypted per ticket. When the AI's answer
+ * refers to a token, it is rehydrated with the original value before the reply
+ * goes back to the customer - except for types that must never be echoed,
+ * which are masked instead.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import piiRedactor, { PIIType, RedactionOptions } from './piiRedactor';
+import { encryptObject, decryptObject } from './encryption';
+
+interface VaultEntry {
+  type: PIIType;
+  token: string;
+  original: string;
+}
+
+export interface TokenizeResult {
+  text: string;
+  tokenCount: number; // PII items replaced in this text
+  types: PIIType[];
+}
+
+export interface RehydrateResult {
+  text: string;
+  rehydrated: number;
+  withheld: number;
+}
+
+// Never sent back to a customer regardless of organization settings
+const ALWAYS_WITHHELD: PIIType[] = ['CARD_NUM', 'BVN', 'SSN', 'NATIONAL_ID'];
+
+const TOKEN_PATTERN = /\[([A-Z_]+_\d+)\]/;
+
+export class PIIVaultService {
+  private async load(ticketId: string): Promise<{ organizationId: string; entries: VaultEntry[] } | null> {
+    const vault = await prisma.piiVault.findUnique({
+      where: { ticketId },
+    });
+
+    if (!vault) {
+      return null;
+    }
+
+    try {
+      return { organizationId: vault.organizationId, entries: decryptObject(vault.mapping) as VaultEntry[] };
+    } catch (error) {
+      // A rotated ENCRYPTION_KEY makes old mappings unreadable; treat them as absent
+      logger.error(`Failed to decrypt PII vault for ticket ${ticketId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace PII in text with tokens and add them to the ticket's vault
+   * The same value always maps to the same token within a ticket.
+   */
+  async tokenize(
+    ticketId: string,
+    organizationId: string,
+    text: string,
+    options: RedactionOptions = {}
+  ): Promise<TokenizeResult> {
+    const { redactions: matches } = piiRedactor.redact(text, options);
+
+    if (matches.length === 0) {
+      return { text, tokenCount: 0, types: [] };
+    }
+
+    const entries = (await this.load(ticketId))?.entries || [];
+    const initialCount = entries.length;
+
+    const tokenFor = (type: PIIType, original: string): string => {
+      const existing = entries.find((entry) => entry.type === type && entry.original === original);
+      if (existing) {
+        return existing.token;
+      }
+
+      const token = `${type}_${entries.filter((entry) => entry.type === type).length + 1}`;
+      entries.push({ type, token, original });
+      return token;
+    };
+
+    // Tokens are assigned in reading order, then replaced from the end so indices stay valid
+    const tokens = matches.map((match) => tokenFor(match.type, match.original));
+    let tokenized = text;
+    for (let i = matches.length - 1; i >= 0; i--) {
+      tokenized =
+        tokenized.substring(0, matches[i].startIndex) +
+        `[${tokens[i]}]` +
+        tokenized.substring(matches[i].endIndex);
+    }
+
+    if (entries.length > initialCount) {
+      const mapping = encryptObject(entries);
+
+      await prisma.piiVault.upsert({
+        where: { ticketId },
+        update: { mapping },
+        create: { ticketId, organizationId, mapping },
+      });
+    }
+
+    return {
+      text: tokenized,
+      tokenCount: matches.length,
+      types: Array.from(new Set(matches.map((match) => match.type))),
+    };
+  }
+
+  /**
+   * Mask a withheld value, keeping only its last 4 characters
+   */
+  private mask(value: string): string {
+    const compact = value.replace(/[\s-]/g, '');
+    return compact.length > 4 ? `${'*'.repeat(compact.length - 4)}${compact.slice(-4)}` : '****';
+  }
+
+  /**
+   * Replace vault tokens in an AI answer with the original values
+   * Types on the organization's neverRehydrate list (plus ALWAYS_WITHHELD) are masked.
+   */
+  async rehydrate(ticketId: string, text: string): Promise<RehydrateResult> {
+    if (!TOKEN_PATTERN.test(text)) {
+      return { text, rehydrated: 0, withheld: 0 };
+    }
+
+    const vault = await this.load(ticketId);
+    if (!vault || vault.entries.length === 0) {
+      return { text, rehydrated: 0, withheld: 0 };
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: vault.organizationId },
+      select: { settings: true },
+    });
+
+    const withheldTypes = new Set<PIIType>([
+      ...ALWAYS_WITHHELD,
+      ...(((organization?.settings as any)?.compliance?.neverRehydrate as PIIType[]) || []),
+    ]);
+
+    let rehydrated = 0;
+    let withheld = 0;
+
+    const result = text.replace(new RegExp(TOKEN_PATTERN, 'g'), (placeholder, token: string) => {
+      const entry = vault.entries.find((e) => e.token === token);
+      if (!entry) {
+        return placeholder;
+      }
+
+      if (withheldTypes.has(entry.type)) {
+        withheld++;
+        return this.mask(entry.original);
+      }
+
+      rehydrated++;
+      return entry.original;
+    });
+
+    return { text: result, rehydrated, withheld };
+  }
+
+  /**
+   * Remove a ticket's vault (e.g. when its data is purged)
+   */
+  async purge(ticketId: string): Promise<void> {
+    await prisma.piiVault.deleteMany({
+      where: { ticketId },
+    });
+  }
+}
+
+export default new PIIVaultService();
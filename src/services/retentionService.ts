@@ -0,0 +1,292 @@
+/**
+ * Data Retention Service
+ *
+ * Enforces how long conversation data is kept. The effective retention period
+ * is the shorter of the organization's compliance.dataRetentionDays and the
+ * plan's chatHistoryDays (either may be unset / -1 for unlimited). Ticket
+ * messages, widget messages, AI agent messages and form submissions older than
+ * that are anonymised (default) or deleted, depending on
+ * compliance.retentionAction.
+ *
+ * Tickets under legal hold are exempt, together with their widget chat and the
+ * form submission they came from. Agent chats are not tied to tickets and have
+ * no hold. Every run writes a retention report admins can download.
+ */
+
+import { Prisma, RetentionReport } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import piiVault from './piiVault';
+
+export type RetentionAction = 'anonymize' | 'delete';
+
+export const RETENTION_ACTIONS: RetentionAction[] = ['anonymize', 'delete'];
+
+export const RETENTION_TABLES = [
+  'ticketMessages',
+  'widgetMessages',
+  'agentMessages',
+  'formSubmissions',
+  'piiVaults',
+  'ticketEmbeddings',
+] as const;
+
+export type RetentionTable = (typeof RETENTION_TABLES)[number];
+
+export interface RetentionPolicy {
+  retentionDays: number;
+  source: 'organization' | 'plan';
+  action: RetentionAction;
+  organizationDays: number | null;
+  planDays: number | null;
+}
+
+const ANONYMIZED_CONTENT = '[Removed under data retention policy]';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDays = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+
+export class RetentionService {
+  /**
+   * Effective policy for an organization, or null when data is kept forever
+   */
+  async getPolicy(organizationId: string): Promise<RetentionPolicy | null> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        settings: true,
+        subscription: { select: { plan: { select: { chatHistoryDays: true } } } },
+      },
+    });
+
+    if (!organization) {
+      return null;
+    }
+
+    const compliance = (organization.settings as any)?.compliance || {};
+    const organizationDays = toDays(compliance.dataRetentionDays);
+    const planDays = toDays(organization.subscription?.plan.chatHistoryDays);
+
+    if (organizationDays === null && planDays === null) {
+      return null;
+    }
+
+    const usePlan = organizationDays === null || (planDays !== null && planDays < organizationDays);
+
+    return {
+      retentionDays: usePlan ? planDays! : organizationDays!,
+      source: usePlan ? 'plan' : 'organization',
+      action: compliance.retentionAction === 'delete' ? 'delete' : 'anonymize',
+      organizationDays,
+      planDays,
+    };
+  }
+
+  /**
+   * Row filters per table for data older than the cutoff, excluding legal holds
+   */
+  private scopes(organizationId: string, cutoff: Date, action: RetentionAction) {
+    const releasedTickets = Prisma.sql`
+      SELECT id FROM tickets WHERE organization_id = ${organizationId} AND legal_hold = false
+    `;
+    // Anonymised rows are left alone on later runs
+    const notAnonymized = (column: Prisma.Sql) =>
+      action === 'anonymize' ? Prisma.sql`AND ${column} <> ${ANONYMIZED_CONTENT}` : Prisma.empty;
+
+    return {
+      ticketMessages: Prisma.sql`
+        ticket_id IN (${releasedTickets})
+        AND created_at < ${cutoff}
+        ${notAnonymized(Prisma.sql`content`)}
+      `,
+      widgetMessages: Prisma.sql`
+        session_id IN (
+          SELECT s.id FROM widget_sessions s
+          LEFT JOIN tickets t ON t.id = s.ticket_id
+          WHERE (s.metadata->>'organizationId' = ${organizationId} OR t.organization_id = ${organizationId})
+            AND COALESCE(t.legal_hold, false) = false
+        )
+        AND created_at < ${cutoff}
+        ${notAnonymized(Prisma.sql`content`)}
+      `,
+      agentMessages: Prisma.sql`
+        conversation_id IN (
+          SELECT c.id FROM agent_conversations c
+          JOIN ai_agents a ON a.id = c.agent_id
+          WHERE a.organization_id = ${organizationId}
+        )
+        AND created_at < ${cutoff}
+        ${notAnonymized(Prisma.sql`content`)}
+      `,
+      formSubmissions: Prisma.sql`
+        form_id IN (SELECT id FROM forms WHERE organization_id = ${organizationId})
+        AND created_at < ${cutoff}
+        AND NOT EXISTS (
+          SELECT 1 FROM tickets t
+          WHERE t.organization_id = ${organizationId}
+            AND t.legal_hold = true
+            AND t.metadata->>'submissionId' = form_submissions.id::text
+        )
+        ${action === 'anonymize' ? Prisma.sql`AND data <> '{}'::jsonb` : Prisma.empty}
+      `,
+    };
+  }
+
+  private async count(table: string, where: Prisma.Sql): Promise<number> {
+    const rows = (await prisma.$queryRaw`
+      SELECT COUNT(*)::int AS count FROM ${Prisma.raw(table)} WHERE ${where}
+    `) as { count: number }[];
+    return rows[0]?.count || 0;
+  }
+
+  /**
+   * Apply the policy to one organization and record a report
+   * A dry run only counts what would be affected.
+   */
+  async enforce(organizationId: string, options: { dryRun?: boolean } = {}) {
+    const policy = await this.getPolicy(organizationId);
+    if (!policy) {
+      return null;
+    }
+
+    const dryRun = options.dryRun || false;
+    const cutoff = new Date(Date.now() - policy.retentionDays * DAY_MS);
+
+    const report = await prisma.retentionReport.create({
+      data: {
+        organizationId,
+        action: policy.action,
+        retentionDays: policy.retentionDays,
+        policySource: policy.source,
+        cutoff,
+        dryRun,
+        heldTickets: await prisma.ticket.count({ where: { organizationId, legalHold: true } }),
+      },
+    });
+
+    try {
+      const scopes = this.scopes(organizationId, cutoff, policy.action);
+      const counts = {} as Record<RetentionTable, number>;
+
+      // Tickets untouched since the cutoff no longer need their PII vault or embedding
+      const staleTicket = { organizationId, legalHold: false, updatedAt: { lt: cutoff } };
+
+      if (dryRun) {
+        counts.ticketMessages = await this.count('ticket_messages', scopes.ticketMessages);
+        counts.widgetMessages = await this.count('widget_messages', scopes.widgetMessages);
+        counts.agentMessages = await this.count('agent_messages', scopes.agentMessages);
+        counts.formSubmissions = await this.count('form_submissions', scopes.formSubmissions);
+        counts.piiVaults = await prisma.piiVault.count({ where: { ticket: staleTicket } });
+        counts.ticketEmbeddings = await prisma.ticketEmbedding.count({ where: { ticket: staleTicket } });
+      } else if (policy.action === 'delete') {
+        counts.ticketMessages = await prisma.$executeRaw`DELETE FROM ticket_messages WHERE ${scopes.ticketMessages}`;
+        counts.widgetMessages = await prisma.$executeRaw`DELETE FROM widget_messages WHERE ${scopes.widgetMessages}`;
+        counts.agentMessages = await prisma.$executeRaw`DELETE FROM agent_messages WHERE ${scopes.agentMessages}`;
+        counts.formSubmissions = await prisma.$executeRaw`DELETE FROM form_submissions WHERE ${scopes.formSubmissions}`;
+      } else {
+        const anonymizedAt = new Date().toISOString();
+
+        counts.ticketMessages = await prisma.$executeRaw`
+          UPDATE ticket_messages
+          SET content = ${ANONYMIZED_CONTENT}, metadata = jsonb_build_object('retentionAnonymizedAt', ${anonymizedAt}::text)
+          WHERE ${scopes.ticketMessages}
+        `;
+        counts.widgetMessages = await prisma.$executeRaw`
+          UPDATE widget_messages SET content = ${ANONYMIZED_CONTENT} WHERE ${scopes.widgetMessages}
+        `;
+        counts.agentMessages = await prisma.$executeRaw`
+          UPDATE agent_messages
+          SET content = ${ANONYMIZED_CONTENT}, metadata = jsonb_build_object('retentionAnonymizedAt', ${anonymizedAt}::text)
+          WHERE ${scopes.agentMessages}
+        `;
+        counts.formSubmissions = await prisma.$executeRaw`
+          UPDATE form_submissions SET data = '{}'::jsonb, ip_address = NULL, user_agent = NULL
+          WHERE ${scopes.formSubmissions}
+        `;
+      }
+
+      if (!dryRun) {
+        const vaults = await prisma.piiVault.findMany({
+          where: { ticket: staleTicket },
+          select: { ticketId: true },
+        });
+        for (const vault of vaults) {
+          await piiVault.purge(vault.ticketId);
+        }
+        counts.piiVaults = vaults.length;
+
+        counts.ticketEmbeddings = (
+          await prisma.ticketEmbedding.deleteMany({ where: { ticket: staleTicket } })
+        ).count;
+      }
+
+      const completed = await prisma.retentionReport.update({
+        where: { id: report.id },
+        data: { counts, status: 'completed', completedAt: new Date() },
+      });
+
+      logger.info(
+        `Data retention ${dryRun ? 'dry run ' : ''}for organization ${organizationId}: ${policy.action} before ${cutoff.toISOString()}`,
+        counts
+      );
+
+      return completed;
+    } catch (error) {
+      await prisma.retentionReport.update({
+        where: { id: report.id },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a ticket under legal hold (or release it)
+   */
+  async setLegalHold(ticketId: string, enabled: boolean, reason?: string) {
+    return prisma.ticket.update({
+      where: { id: ticketId },
+      data: {
+        legalHold: enabled,
+        legalHoldReason: enabled ? reason || null : null,
+        legalHoldSetAt: enabled ? new Date() : null,
+      },
+      select: { id: true, subject: true, legalHold: true, legalHoldReason: true, legalHoldSetAt: true },
+    });
+  }
+
+  /**
+   * Render a report as CSV, one row per table
+   */
+  toCsv(report: RetentionReport): string {
+    const header = 'report_id,started_at,completed_at,status,dry_run,action,retention_days,policy_source,cutoff,held_tickets,table,rows_affected';
+    const counts = (report.counts || {}) as Record<string, number>;
+
+    const rows = RETENTION_TABLES.map((table) =>
+      [
+        report.id,
+        report.startedAt.toISOString(),
+        report.completedAt?.toISOString() || '',
+        report.status,
+        report.dryRun,
+        report.action,
+        report.retentionDays,
+        report.policySource,
+        report.cutoff.toISOString(),
+        report.heldTickets,
+        table,
+        counts[table] ?? 0,
+      ].join(',')
+    );
+
+    return [header, ...rows].join('\n');
+  }
+}
+
+export default new RetentionService();
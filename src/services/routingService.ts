@@ -0,0 +1,390 @@
+/**
+ * Routing Service
+ *
+ * Rule-based ticket auto-assignment. Organization routing rules are evaluated
+ * in order and the first rule matching a ticket decides the strategy and the
+ * pool of eligible members:
+ *   round-robin – the available member assigned least recently
+ *   least-busy  – the available member with the fewest open tickets
+ *   specialized – the member whose skills best match the ticket tags
+ * When no rule matches, the organization's default assignment strategy is
+ * used across all members. Every decision is recorded in ticket metadata.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { emailQueue } from '../config/queue';
+import { broadcastTicketEvent } from './broadcast';
+
+export type RoutingStrategy = 'round-robin' | 'least-busy' | 'specialized';
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = ['round-robin', 'least-busy', 'specialized'];
+
+export interface RoutingConditions {
+  priorities?: string[];
+  sources?: string[];
+  tags?: string[];
+  keywords?: string[];
+}
+
+export interface RoutingSettings {
+  enabled: boolean;
+  activeWithinMinutes: number; // 0 disables the recent-activity check
+  maxOpenTickets: number | null;
+}
+
+export interface RoutingDecision {
+  assignedTo: string | null;
+  strategy: RoutingStrategy;
+  ruleId: string | null;
+  ruleName: string | null;
+  trigger: string;
+  reason: string;
+  candidates: number;
+  openTickets?: number;
+  matchedSkills?: string[];
+  routedAt: string;
+}
+
+interface RoutableTicket {
+  id: string;
+  organizationId: string;
+  subject: string;
+  priority: string;
+  assignedTo: string | null;
+  metadata: any;
+  tags: { tag: string }[];
+}
+
+interface Candidate {
+  userId: string;
+  skills: string[];
+  lastAssignedAt: Date | null;
+  openTickets: number;
+}
+
+const DEFAULT_SETTINGS: RoutingSettings = {
+  enabled: false,
+  activeWithinMinutes: 60,
+  maxOpenTickets: null,
+};
+
+export class RoutingService {
+  /**
+   * Get routing settings merged with defaults
+   */
+  async getSettings(organizationId: string): Promise<RoutingSettings & { defaultStrategy: RoutingStrategy }> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+
+    const settings = (organization?.settings as any) || {};
+    const defaultStrategy = ROUTING_STRATEGIES.includes(settings.autonomousAI?.assignmentStrategy)
+      ? settings.autonomousAI.assignmentStrategy
+      : 'round-robin';
+
+    return {
+      ...DEFAULT_SETTINGS,
+      ...settings.routing,
+      defaultStrategy,
+    };
+  }
+
+  /**
+   * Check whether a rule's conditions match a ticket
+   */
+  private matchesRule(ticket: RoutableTicket, conditions: RoutingConditions): boolean {
+    const source = ticket.metadata?.source || 'internal';
+    const tags = ticket.tags.map((t) => t.tag.toLowerCase());
+    const subject = ticket.subject.toLowerCase();
+
+    if (conditions.priorities?.length && !conditions.priorities.includes(ticket.priority)) {
+      return false;
+    }
+
+    if (conditions.sources?.length && !conditions.sources.includes(source)) {
+      return false;
+    }
+
+    if (conditions.tags?.length && !conditions.tags.some((tag) => tags.includes(tag.toLowerCase()))) {
+      return false;
+    }
+
+    if (conditions.keywords?.length && !conditions.keywords.some((keyword) => subject.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Load members that can take a new ticket right now, with their open ticket counts
+   */
+  private async getAvailableCandidates(
+    organizationId: string,
+    settings: RoutingSettings,
+    memberIds: string[]
+  ): Promise<Candidate[]> {
+    const members = await prisma.organizationMember.findMany({
+      where: {
+        organizationId,
+        status: 'active',
+        isAway: false,
+        ...(memberIds.length > 0 && { userId: { in: memberIds } }),
+        ...(settings.activeWithinMinutes > 0 && {
+          lastActiveAt: { gte: new Date(Date.now() - settings.activeWithinMinutes * 60 * 1000) },
+        }),
+      },
+      select: { userId: true, skills: true, lastAssignedAt: true },
+    });
+
+    if (members.length === 0) {
+      return [];
+    }
+
+    const openCounts = await prisma.ticket.groupBy({
+      by: ['assignedTo'],
+      where: {
+        organizationId,
+        assignedTo: { in: members.map((m) => m.userId) },
+        status: { not: 'closed' },
+      },
+      _count: { _all: true },
+    });
+
+    const countByUser = new Map(openCounts.map((row) => [row.assignedTo, row._count._all]));
+
+    return members
+      .map((member) => ({
+        userId: member.userId,
+        skills: member.skills.map((skill) => skill.toLowerCase()),
+        lastAssignedAt: member.lastAssignedAt,
+        openTickets: countByUser.get(member.userId) || 0,
+      }))
+      .filter((candidate) => settings.maxOpenTickets == null || candidate.openTickets < settings.maxOpenTickets);
+  }
+
+  /**
+   * Pick the member assigned least recently (never-assigned members first)
+   */
+  private pickRoundRobin(candidates: Candidate[]): Candidate {
+    return [...candidates].sort((a, b) => {
+      const aTime = a.lastAssignedAt ? a.lastAssignedAt.getTime() : 0;
+      const bTime = b.lastAssignedAt ? b.lastAssignedAt.getTime() : 0;
+      return aTime - bTime;
+    })[0];
+  }
+
+  /**
+   * Pick the member with the fewest open tickets, breaking ties round-robin
+   */
+  private pickLeastBusy(candidates: Candidate[]): Candidate {
+    const fewest = Math.min(...candidates.map((c) => c.openTickets));
+    return this.pickRoundRobin(candidates.filter((c) => c.openTickets === fewest));
+  }
+
+  /**
+   * Choose an assignee for a ticket without changing it
+   */
+  async selectAgent(ticketId: string, trigger: string = 'manual'): Promise<RoutingDecision | null> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: { tags: { select: { tag: true } } },
+    });
+
+    if (!ticket) {
+      return null;
+    }
+
+    const settings = await this.getSettings(ticket.organizationId);
+
+    const rules = await prisma.routingRule.findMany({
+      where: { organizationId: ticket.organizationId, isActive: true },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const rule = rules.find((r) => this.matchesRule(ticket, (r.conditions as RoutingConditions) || {}));
+    const strategy = (rule?.strategy as RoutingStrategy) || settings.defaultStrategy;
+
+    const decision: RoutingDecision = {
+      assignedTo: null,
+      strategy,
+      ruleId: rule?.id || null,
+      ruleName: rule?.name || null,
+      trigger,
+      reason: '',
+      candidates: 0,
+      routedAt: new Date().toISOString(),
+    };
+
+    let candidates = await this.getAvailableCandidates(ticket.organizationId, settings, rule?.memberIds || []);
+
+    // Required skills narrow the pool regardless of strategy
+    const requiredSkills = (rule?.requiredSkills || []).map((skill) => skill.toLowerCase());
+    if (requiredSkills.length > 0) {
+      candidates = candidates.filter((c) => requiredSkills.every((skill) => c.skills.includes(skill)));
+    }
+
+    decision.candidates = candidates.length;
+
+    if (candidates.length === 0) {
+      decision.reason = 'no_available_members';
+      return decision;
+    }
+
+    let chosen: Candidate;
+
+    if (strategy === 'specialized') {
+      const ticketTags = ticket.tags.map((t) => t.tag.toLowerCase());
+      const scored = candidates.map((c) => ({
+        candidate: c,
+        matched: c.skills.filter((skill) => ticketTags.includes(skill)),
+      }));
+      const bestScore = Math.max(...scored.map((s) => s.matched.length));
+
+      if (bestScore > 0) {
+        const best = scored.filter((s) => s.matched.length === bestScore);
+        chosen = this.pickLeastBusy(best.map((s) => s.candidate));
+        decision.matchedSkills = best.find((s) => s.candidate.userId === chosen.userId)!.matched;
+        decision.reason = 'skill_match';
+      } else {
+        chosen = this.pickLeastBusy(candidates);
+        decision.reason = 'no_skill_match_least_busy';
+      }
+    } else if (strategy === 'least-busy') {
+      chosen = this.pickLeastBusy(candidates);
+      decision.reason = 'fewest_open_tickets';
+    } else {
+      chosen = this.pickRoundRobin(candidates);
+      decision.reason = 'round_robin';
+    }
+
+    decision.assignedTo = chosen.userId;
+    decision.openTickets = chosen.openTickets;
+
+    return decision;
+  }
+
+  /**
+   * Assign a ticket according to a routing decision, record it and notify the assignee
+   */
+  async applyDecision(ticketId: string, decision: RoutingDecision, data: { status?: string } = {}): Promise<void> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { organizationId: true, metadata: true },
+    });
+
+    if (!ticket) {
+      return;
+    }
+
+    const metadata = (ticket.metadata as any) || {};
+
+    await prisma.ticket.update({
+      where: { id: ticketId },
+      data: {
+        ...(decision.assignedTo && { assignedTo: decision.assignedTo }),
+        ...(decision.assignedTo && data.status && { status: data.status }),
+        metadata: {
+          ...metadata,
+          routing: decision,
+          routingHistory: [...(metadata.routingHistory || []), decision].slice(-20),
+        },
+      },
+    });
+
+    if (!decision.assignedTo) {
+      logger.info(`No member available to route ticket ${ticketId} (${decision.reason})`);
+      return;
+    }
+
+    await prisma.organizationMember.updateMany({
+      where: { organizationId: ticket.organizationId, userId: decision.assignedTo },
+      data: { lastAssignedAt: new Date() },
+    });
+
+    logger.info(
+      `Ticket ${ticketId} routed to ${decision.assignedTo} via ${decision.strategy}${decision.ruleName ? ` (rule: ${decision.ruleName})` : ''}`
+    );
+
+    await this.notifyAssignee(ticketId, decision.assignedTo);
+    await broadcastTicketEvent(ticket.organizationId, 'ticket_updated', ticketId);
+  }
+
+  /**
+   * Auto-assign a newly created ticket when routing is enabled for its organization
+   */
+  async routeTicket(ticketId: string, trigger: string = 'ticket_created'): Promise<RoutingDecision | null> {
+    try {
+      const ticket = await prisma.ticket.findUnique({
+        where: { id: ticketId },
+        select: { organizationId: true, assignedTo: true },
+      });
+
+      if (!ticket || ticket.assignedTo) {
+        return null;
+      }
+
+      const settings = await this.getSettings(ticket.organizationId);
+      if (!settings.enabled) {
+        return null;
+      }
+
+      const decision = await this.selectAgent(ticketId, trigger);
+      if (!decision) {
+        return null;
+      }
+
+      await this.applyDecision(ticketId, decision);
+      return decision;
+    } catch (error) {
+      logger.error(`Error routing ticket ${ticketId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Email the assigned member about their new ticket
+   */
+  async notifyAssignee(ticketId: string, userId: string): Promise<void> {
+    try {
+      const [ticket, user] = await Promise.all([
+        prisma.ticket.findUnique({
+          where: { id: ticketId },
+          select: { organizationId: true, subject: true, customerName: true, priority: true },
+        }),
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { email: true, firstName: true },
+        }),
+      ]);
+
+      if (!ticket || !user) {
+        return;
+      }
+
+      const organization = await prisma.organization.findUnique({
+        where: { id: ticket.organizationId },
+        select: { name: true },
+      });
+
+      await emailQueue.add({
+        type: 'notification',
+        data: {
+          toEmail: user.email,
+          firstName: user.firstName,
+          organizationName: organization?.name || '',
+          ticketId,
+          ticketSubject: ticket.subject,
+          customerName: ticket.customerName,
+          priority: ticket.priority,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to notify assignee ${userId} for ticket ${ticketId}:`, error);
+    }
+  }
+}
+
+export default new RoutingService();
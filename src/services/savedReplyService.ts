@@ -0,0 +1,245 @@
+/**
+ * Saved Reply Service
+ *
+ * Renders canned responses with ticket/customer/agent placeholders and applies
+ * macros. A macro is a saved reply with actions: applying it posts the rendered
+ * reply (relayed to the ticket's source like any agent reply) and changes the
+ * ticket's status, priority, tags and assignee in one step.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { sendResponseToSource } from './channelRelay';
+import { broadcastTicketEvent } from './broadcast';
+import { onAgentReply, onTicketHandoff, onTicketMessage } from './ticketLifecycle';
+import slaService from './slaService';
+
+export interface MacroActions {
+  status?: string;
+  priority?: string;
+  addTags?: string[];
+  removeTags?: string[];
+  assignTo?: string | null; // user ID, "me" for the agent applying the macro, or null to unassign
+}
+
+export interface ApplyResult {
+  ticketId: string;
+  success: boolean;
+  messageId?: string;
+  delivered?: boolean;
+  error?: string;
+}
+
+interface SavedReplyLike {
+  id: string;
+  content: string;
+  actions: any;
+}
+
+// Matches {{ customer.name }} style placeholders
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\.([a-zA-Z]+)\s*\}\}/g;
+
+export class SavedReplyService {
+  /**
+   * Build the placeholder values for a ticket and the agent sending the reply
+   */
+  async buildContext(ticketId: string, agentUserId: string): Promise<Record<string, Record<string, string>>> {
+    const [ticket, agent] = await Promise.all([
+      prisma.ticket.findUnique({ where: { id: ticketId } }),
+      prisma.user.findUnique({
+        where: { id: agentUserId },
+        select: { firstName: true, lastName: true, email: true },
+      }),
+    ]);
+
+    const organization = ticket
+      ? await prisma.organization.findUnique({
+          where: { id: ticket.organizationId },
+          select: { name: true },
+        })
+      : null;
+
+    const customerName = ticket?.customerName || '';
+
+    return {
+      customer: {
+        name: customerName,
+        firstName: customerName.split(' ')[0] || '',
+        email: ticket?.customerEmail || '',
+      },
+      ticket: {
+        id: ticket?.id || '',
+        subject: ticket?.subject || '',
+        status: ticket?.status || '',
+        priority: ticket?.priority || '',
+      },
+      agent: {
+        firstName: agent?.firstName || '',
+        lastName: agent?.lastName || '',
+        name: [agent?.firstName, agent?.lastName].filter(Boolean).join(' '),
+        email: agent?.email || '',
+      },
+      organization: {
+        name: organization?.name || '',
+      },
+    };
+  }
+
+  /**
+   * Replace known placeholders; unknown ones are left as typed so they are noticed
+   */
+  render(content: string, context: Record<string, Record<string, string>>): string {
+    return content.replace(PLACEHOLDER_PATTERN, (match, group: string, field: string) => {
+      const value = context[group]?.[field];
+      return value !== undefined ? value : match;
+    });
+  }
+
+  /**
+   * Whether a user can be assigned tickets in the organization
+   */
+  async isActiveMember(organizationId: string, userId: string): Promise<boolean> {
+    const member = await prisma.organizationMember.findFirst({
+      where: { organizationId, userId, status: 'active' },
+      select: { id: true },
+    });
+
+    return member !== null;
+  }
+
+  /**
+   * Render a saved reply for a specific ticket
+   */
+  async renderForTicket(content: string, ticketId: string, agentUserId: string): Promise<string> {
+    const context = await this.buildContext(ticketId, agentUserId);
+    return this.render(content, context);
+  }
+
+  /**
+   * Apply a saved reply or macro to a single ticket
+   */
+  async applyToTicket(
+    savedReply: SavedReplyLike,
+    ticketId: string,
+    organizationId: string,
+    agentUserId: string
+  ): Promise<ApplyResult> {
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, organizationId },
+    });
+
+    if (!ticket) {
+      return { ticketId, success: false, error: 'Ticket not found' };
+    }
+
+    const result: ApplyResult = { ticketId, success: true };
+    const actions: MacroActions = savedReply.actions || {};
+    const assignTo = actions.assignTo === 'me' ? agentUserId : actions.assignTo;
+
+    // Checked before anything changes: the assignee may have left since the macro was saved
+    if (assignTo && !(await this.isActiveMember(organizationId, assignTo))) {
+      return { ticketId, success: false, error: 'Macro assignee is not an active member of the organization' };
+    }
+
+    // Post the reply first so placeholders reflect the ticket before the macro changed it
+    if (savedReply.content.trim()) {
+      const content = await this.renderForTicket(savedReply.content, ticketId, agentUserId);
+
+      const message = await prisma.ticketMessage.create({
+        data: {
+          ticketId,
+          userId: agentUserId,
+          senderType: 'agent',
+          content,
+          isInternal: false,
+          metadata: { savedReplyId: savedReply.id },
+        },
+      });
+
+      result.messageId = message.id;
+      await onTicketMessage(ticketId, { senderType: 'agent' });
+      result.delivered = await sendResponseToSource(ticketId, content, agentUserId);
+
+      await onAgentReply(ticketId);
+    }
+
+    const data: any = {
+      ...(actions.status && { status: actions.status }),
+      ...(actions.priority && { priority: actions.priority }),
+      ...(assignTo !== undefined && { assignedTo: assignTo }),
+      ...(actions.status === 'closed' && { closedAt: new Date() }),
+    };
+
+    if (Object.keys(data).length > 0) {
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data,
+      });
+    }
+
+    if (actions.removeTags?.length) {
+      await prisma.ticketTag.deleteMany({
+        where: { ticketId, tag: { in: actions.removeTags } },
+      });
+    }
+
+    if (actions.addTags?.length) {
+      const existing = await prisma.ticketTag.findMany({
+        where: { ticketId, tag: { in: actions.addTags } },
+        select: { tag: true },
+      });
+      const existingTags = new Set(existing.map((t) => t.tag));
+      const newTags = actions.addTags.filter((tag) => !existingTags.has(tag));
+
+      if (newTags.length > 0) {
+        await prisma.ticketTag.createMany({
+          data: newTags.map((tag) => ({ ticketId, tag })),
+        });
+      }
+    }
+
+    // Priority changes pick a different policy; closing settles the SLA outcome
+    if ((actions.priority && actions.priority !== ticket.priority) || (actions.status && actions.status !== ticket.status)) {
+      await slaService.applyPolicy(ticketId);
+    }
+
+    if (assignTo && assignTo !== ticket.assignedTo) {
+      await onTicketHandoff(ticketId, { trigger: 'reassigned' });
+    }
+
+    await broadcastTicketEvent(organizationId, 'ticket_updated', ticketId);
+
+    return result;
+  }
+
+  /**
+   * Apply a saved reply or macro to a batch of tickets, one at a time
+   */
+  async applyToTickets(
+    savedReply: SavedReplyLike,
+    ticketIds: string[],
+    organizationId: string,
+    agentUserId: string
+  ): Promise<ApplyResult[]> {
+    const results: ApplyResult[] = [];
+
+    for (const ticketId of ticketIds) {
+      try {
+        results.push(await this.applyToTicket(savedReply, ticketId, organizationId, agentUserId));
+      } catch (error: any) {
+        logger.error(`Failed to apply saved reply ${savedReply.id} to ticket ${ticketId}:`, error);
+        results.push({ ticketId, success: false, error: error.message });
+        // Continue with other tickets
+      }
+    }
+
+    await prisma.savedReply.update({
+      where: { id: savedReply.id },
+      data: { usageCount: { increment: results.filter((r) => r.success).length } },
+    });
+
+    return results;
+  }
+}
+
+export default new SavedReplyService();
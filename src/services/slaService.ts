@@ -0,0 +1,423 @@
+/**
+ * SLA Service
+ *
+ * Applies organization SLA policies to tickets and tracks first-response and
+ * resolution deadlines. Deadlines are computed once when a ticket is created
+ * (or its priority changes) so tickets can be filtered and sorted by SLA state
+ * directly in the database. The scheduler re-evaluates open tickets
+ * periodically and flags those approaching or breaching their targets.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { broadcastTicketEvent } from './broadcast';
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export const SLA_STATUSES: SlaStatus[] = ['on_track', 'at_risk', 'breached', 'met'];
+
+interface DaySchedule {
+  start: string; // "09:00"
+  end: string; // "17:00"
+}
+
+interface CalendarConfig {
+  timezone: string;
+  schedule: Record<string, DaySchedule | null | undefined>;
+  holidays: string[];
+}
+
+interface SlaTrackedTicket {
+  id: string;
+  organizationId: string;
+  status: string;
+  slaStatus: string | null;
+  slaDueAt: Date | null;
+  firstResponseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+  firstRespondedAt: Date | null;
+  createdAt: Date;
+  closedAt: Date | null;
+}
+
+export interface SlaAttainment {
+  ticketsWithSla: number;
+  firstResponse: { met: number; breached: number; pending: number; attainmentRate: number };
+  resolution: { met: number; breached: number; pending: number; attainmentRate: number };
+  currentlyAtRisk: number;
+  currentlyBreached: number;
+}
+
+// Percentage of the target window after which a ticket is considered at risk
+const DEFAULT_WARNING_THRESHOLD = 0.8;
+
+// Safety bound for business-hours walking (roughly two years of days)
+const MAX_CALENDAR_DAYS = 730;
+
+export class SlaService {
+  /**
+   * Resolve the SLA source type for a ticket (slack, gmail, widget, ...)
+   */
+  private getSourceType(metadata: any): string {
+    return metadata?.source || 'internal';
+  }
+
+  /**
+   * Parse "HH:MM" into minutes from midnight
+   */
+  private parseTime(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  /**
+   * Get the wall-clock date parts of an instant in the calendar's timezone
+   */
+  private getLocalParts(date: Date, timezone: string): { day: string; date: string; minuteOfDay: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+      day: get('weekday').toLowerCase().slice(0, 3),
+      date: `${get('year')}-${get('month')}-${get('day')}`,
+      minuteOfDay: Number(get('hour')) * 60 + Number(get('minute')),
+    };
+  }
+
+  /**
+   * Add working minutes to a start date, honouring the calendar's weekly
+   * schedule, timezone and holidays. Without a calendar the targets run 24/7.
+   */
+  addBusinessMinutes(start: Date, minutes: number, calendar?: CalendarConfig | null): Date {
+    if (!calendar || !Object.values(calendar.schedule || {}).some(Boolean)) {
+      return new Date(start.getTime() + minutes * 60 * 1000);
+    }
+
+    let cursor = new Date(start);
+    let remaining = minutes;
+
+    for (let i = 0; i < MAX_CALENDAR_DAYS * 3 && remaining > 0; i++) {
+      const local = this.getLocalParts(cursor, calendar.timezone || 'UTC');
+      const window = calendar.schedule[local.day];
+      const isHoliday = (calendar.holidays || []).includes(local.date);
+
+      if (!window || isHoliday) {
+        // Skip to the next local midnight
+        cursor = new Date(cursor.getTime() + (1440 - local.minuteOfDay) * 60 * 1000);
+        continue;
+      }
+
+      const open = this.parseTime(window.start);
+      const close = this.parseTime(window.end);
+
+      if (local.minuteOfDay < open) {
+        cursor = new Date(cursor.getTime() + (open - local.minuteOfDay) * 60 * 1000);
+        continue;
+      }
+
+      if (local.minuteOfDay >= close) {
+        cursor = new Date(cursor.getTime() + (1440 - local.minuteOfDay) * 60 * 1000);
+        continue;
+      }
+
+      const consumed = Math.min(remaining, close - local.minuteOfDay);
+      cursor = new Date(cursor.getTime() + consumed * 60 * 1000);
+      remaining -= consumed;
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Find the most specific active policy for a ticket.
+   * Priority + source match beats priority-only, which beats source-only,
+   * which beats a catch-all policy.
+   */
+  async findPolicy(organizationId: string, priority: string, sourceType: string) {
+    const policies = await prisma.slaPolicy.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        AND: [
+          { OR: [{ priority }, { priority: null }] },
+          { OR: [{ sourceType }, { sourceType: null }] },
+        ],
+      },
+      include: { calendar: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const score = (policy: { priority: string | null; sourceType: string | null }) =>
+      (policy.priority ? 2 : 0) + (policy.sourceType ? 1 : 0);
+
+    return policies.sort((a, b) => score(b) - score(a))[0] || null;
+  }
+
+  /**
+   * Attach the matching SLA policy to a ticket and compute its deadlines.
+   * Safe to call again when the ticket's priority changes.
+   */
+  async applyPolicy(ticketId: string): Promise<void> {
+    try {
+      const ticket = await prisma.ticket.findUnique({
+        where: { id: ticketId },
+      });
+
+      if (!ticket) return;
+
+      const policy = await this.findPolicy(
+        ticket.organizationId,
+        ticket.priority,
+        this.getSourceType(ticket.metadata)
+      );
+
+      if (!policy) {
+        if (ticket.slaPolicyId) {
+          await prisma.ticket.update({
+            where: { id: ticketId },
+            data: {
+              slaPolicyId: null,
+              slaStatus: null,
+              slaDueAt: null,
+              firstResponseDueAt: null,
+              resolutionDueAt: null,
+            },
+          });
+        }
+        return;
+      }
+
+      const calendar: CalendarConfig | null = policy.calendar
+        ? {
+            timezone: policy.calendar.timezone,
+            schedule: (policy.calendar.schedule as any) || {},
+            holidays: (policy.calendar.holidays as any) || [],
+          }
+        : null;
+
+      const firstResponseDueAt = this.addBusinessMinutes(ticket.createdAt, policy.firstResponseMinutes, calendar);
+      const resolutionDueAt = this.addBusinessMinutes(ticket.createdAt, policy.resolutionMinutes, calendar);
+
+      const tracked: SlaTrackedTicket = {
+        ...ticket,
+        firstResponseDueAt,
+        resolutionDueAt,
+      };
+
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: {
+          slaPolicyId: policy.id,
+          firstResponseDueAt,
+          resolutionDueAt,
+          slaDueAt: this.getNextDueAt(tracked),
+          slaStatus: this.computeStatus(tracked, new Date()),
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to apply SLA policy to ticket ${ticketId}:`, error);
+    }
+  }
+
+  /**
+   * Record the first agent (or AI) reply that reached the customer
+   */
+  async recordFirstResponse(ticketId: string, respondedAt: Date = new Date()): Promise<void> {
+    try {
+      const ticket = await prisma.ticket.findUnique({
+        where: { id: ticketId },
+      });
+
+      if (!ticket || ticket.firstRespondedAt) return;
+
+      const tracked: SlaTrackedTicket = { ...ticket, firstRespondedAt: respondedAt };
+
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: {
+          firstRespondedAt: respondedAt,
+          ...(ticket.slaPolicyId && {
+            slaDueAt: this.getNextDueAt(tracked),
+            slaStatus: this.computeStatus(tracked, respondedAt),
+          }),
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record first response for ticket ${ticketId}:`, error);
+    }
+  }
+
+  /**
+   * The next deadline the team is working against, or null once both are settled
+   */
+  getNextDueAt(ticket: SlaTrackedTicket): Date | null {
+    if (ticket.status === 'closed') return null;
+    if (!ticket.firstRespondedAt && ticket.firstResponseDueAt) return ticket.firstResponseDueAt;
+    return ticket.resolutionDueAt;
+  }
+
+  /**
+   * Compute the SLA state of a ticket at a point in time
+   */
+  computeStatus(ticket: SlaTrackedTicket, now: Date, warningThreshold = DEFAULT_WARNING_THRESHOLD): SlaStatus {
+    const firstResponseBreached = ticket.firstResponseDueAt
+      ? (ticket.firstRespondedAt || now) > ticket.firstResponseDueAt
+      : false;
+    const resolutionBreached = ticket.resolutionDueAt
+      ? ((ticket.status === 'closed' && ticket.closedAt) || now) > ticket.resolutionDueAt
+      : false;
+
+    if (firstResponseBreached || resolutionBreached) return 'breached';
+    if (ticket.status === 'closed') return 'met';
+
+    const dueAt = this.getNextDueAt(ticket);
+    if (!dueAt) return 'on_track';
+
+    const window = dueAt.getTime() - ticket.createdAt.getTime();
+    const elapsed = now.getTime() - ticket.createdAt.getTime();
+
+    return window > 0 && elapsed >= window * warningThreshold ? 'at_risk' : 'on_track';
+  }
+
+  /**
+   * Re-evaluate all SLA-tracked tickets of an organization and broadcast
+   * a ticket_updated event for every ticket whose SLA state changed.
+   */
+  async checkOrganization(organizationId: string): Promise<{ atRisk: number; breached: number; updated: number }> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+
+    const slaSettings = (organization?.settings as any)?.sla || {};
+    const warningThreshold = slaSettings.warningThresholdPercent
+      ? slaSettings.warningThresholdPercent / 100
+      : DEFAULT_WARNING_THRESHOLD;
+
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        organizationId,
+        slaPolicyId: { not: null },
+        OR: [
+          { status: { not: 'closed' } },
+          { slaStatus: { in: ['on_track', 'at_risk'] } },
+        ],
+      },
+      select: {
+        id: true,
+        organizationId: true,
+        status: true,
+        slaStatus: true,
+        slaDueAt: true,
+        firstResponseDueAt: true,
+        resolutionDueAt: true,
+        firstRespondedAt: true,
+        createdAt: true,
+        closedAt: true,
+      },
+    });
+
+    const now = new Date();
+    let atRisk = 0;
+    let breached = 0;
+    let updated = 0;
+
+    for (const ticket of tickets) {
+      const status = this.computeStatus(ticket, now, warningThreshold);
+      const dueAt = this.getNextDueAt(ticket);
+
+      if (status === 'at_risk') atRisk++;
+      if (status === 'breached') breached++;
+
+      const dueChanged = (dueAt?.getTime() ?? null) !== (ticket.slaDueAt?.getTime() ?? null);
+      if (status === ticket.slaStatus && !dueChanged) continue;
+
+      await prisma.ticket.update({
+        where: { id: ticket.id },
+        data: { slaStatus: status, slaDueAt: dueAt },
+      });
+      updated++;
+
+      if (status !== ticket.slaStatus && (status === 'at_risk' || status === 'breached')) {
+        logger.info(`Ticket ${ticket.id} SLA status changed: ${ticket.slaStatus} -> ${status}`);
+        await broadcastTicketEvent(organizationId, 'ticket_updated', ticket.id);
+      }
+    }
+
+    return { atRisk, breached, updated };
+  }
+
+  /**
+   * SLA attainment for tickets created within the given filter
+   */
+  async getAttainment(organizationId: string, dateFilter: any = {}): Promise<SlaAttainment> {
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        organizationId,
+        slaPolicyId: { not: null },
+        ...dateFilter,
+      },
+      select: {
+        status: true,
+        slaStatus: true,
+        firstResponseDueAt: true,
+        resolutionDueAt: true,
+        firstRespondedAt: true,
+        closedAt: true,
+      },
+    });
+
+    const now = new Date();
+    const firstResponse = { met: 0, breached: 0, pending: 0, attainmentRate: 0 };
+    const resolution = { met: 0, breached: 0, pending: 0, attainmentRate: 0 };
+    let currentlyAtRisk = 0;
+    let currentlyBreached = 0;
+
+    for (const ticket of tickets) {
+      if (ticket.firstResponseDueAt) {
+        const respondedAt = ticket.firstRespondedAt;
+        if (respondedAt && respondedAt <= ticket.firstResponseDueAt) firstResponse.met++;
+        else if (respondedAt || now > ticket.firstResponseDueAt) firstResponse.breached++;
+        else firstResponse.pending++;
+      }
+
+      if (ticket.resolutionDueAt) {
+        const resolvedAt = ticket.status === 'closed' ? ticket.closedAt : null;
+        if (resolvedAt && resolvedAt <= ticket.resolutionDueAt) resolution.met++;
+        else if (resolvedAt || now > ticket.resolutionDueAt) resolution.breached++;
+        else resolution.pending++;
+      }
+
+      if (ticket.status !== 'closed') {
+        if (ticket.slaStatus === 'at_risk') currentlyAtRisk++;
+        if (ticket.slaStatus === 'breached') currentlyBreached++;
+      }
+    }
+
+    const rate = (met: number, breached: number) =>
+      met + breached > 0 ? met / (met + breached) : 0;
+
+    firstResponse.attainmentRate = rate(firstResponse.met, firstResponse.breached);
+    resolution.attainmentRate = rate(resolution.met, resolution.breached);
+
+    return {
+      ticketsWithSla: tickets.length,
+      firstResponse,
+      resolution,
+      currentlyAtRisk,
+      currentlyBreached,
+    };
+  }
+}
+
+export default new SlaService();
@@ -0,0 +1,400 @@
+/**
+ * Ticket Classification Service
+ *
+ * Classifies inbound tickets by sentiment, intent and urgency so priority
+ * reflects what the customer actually wrote instead of the "medium" default.
+ * Classification runs on the classification queue after a ticket is created
+ * and again after every new customer message, so a conversation that turns
+ * angry is escalated.
+ *
+ * The organization's AI provider chain does the classification; when it is
+ * unavailable, over budget or returns something unreadable, keyword rules are
+ * used instead. Results are stored in ticket.metadata.classification, the
+ * urgency score is copied to tickets.urgency_score for sorting, and intent and
+ * sentiment are added as tags. Priority is only ever raised by a
+ * re-classification, so an escalation is not undone by a calmer follow-up.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { createComplianceProvider } from './aiProviders';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import piiRedactor from './piiRedactor';
+import slaService from './slaService';
+import { broadcastTicketEvent } from './broadcast';
+
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'angry';
+export type Urgency = 'low' | 'medium' | 'high' | 'critical';
+export type ClassificationTrigger = 'created' | 'customer_message';
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'angry'];
+export const URGENCIES: Urgency[] = ['low', 'medium', 'high', 'critical'];
+export const INTENTS = [
+  'billing',
+  'refund',
+  'cancellation',
+  'account_access',
+  'technical_issue',
+  'bug_report',
+  'feature_request',
+  'shipping',
+  'complaint',
+  'general_question',
+] as const;
+export type Intent = (typeof INTENTS)[number];
+
+export interface Classification {
+  sentiment: Sentiment;
+  sentimentScore: number; // -1 (hostile) to 1 (happy)
+  intent: Intent;
+  urgency: Urgency;
+  urgencyScore: number; // 0-1
+  reason: string | null;
+}
+
+export interface StoredClassification extends Classification {
+  method: 'ai' | 'rules';
+  provider?: string;
+  model?: string;
+  trigger: ClassificationTrigger;
+  classifiedAt: string;
+  priority: string; // priority the classification asked for
+  tags: string[]; // tags it added, replaced on the next classification
+  history: { sentiment: Sentiment; urgency: Urgency; urgencyScore: number; at: string }[];
+}
+
+// Lowest first; urgency maps onto the same positions
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const DEFAULT_PRIORITY = 'medium';
+
+// Customer messages sent to the model, newest last
+const MAX_MESSAGES = 5;
+const MAX_MESSAGE_LENGTH = 1500;
+const MAX_HISTORY = 10;
+
+const RULES: {
+  angry: RegExp[];
+  negative: RegExp[];
+  positive: RegExp[];
+  critical: RegExp[];
+  high: RegExp[];
+  low: RegExp[];
+  intents: [Intent, RegExp][];
+} = {
+  angry: [
+    /\b(furious|outraged|unacceptable|ridiculous|disgusting|pathetic|scam|fraud|worst)\b/i,
+    /\b(lawyer|legal action|sue|chargeback|report you)\b/i,
+    /\b(never (again|buying)|fed up|sick of|had enough)\b/i,
+    /!{3,}/,
+  ],
+  negative: [
+    /\b(disappointed|frustrat\w*|unhappy|annoy\w*|upset|terrible|awful|horrible|useless)\b/i,
+    /\b(still (not|no|waiting|broken)|not working|doesn'?t work|broken|again)\b/i,
+    /\b(no (one|response|reply)|waiting for|been waiting)\b/i,
+  ],
+  positive: [/\b(thanks?|thank you|great|awesome|love|appreciate\w*|perfect|excellent|happy)\b/i],
+  critical: [
+    /\b(outage|down for (all|every\w*)|production (is )?down|site (is )?down|data loss|lost (all )?(my |our )?data)\b/i,
+    /\b(security (breach|issue|incident)|hacked|compromised|unauthori[sz]ed (access|charges?))\b/i,
+    /\b(emergency|critical)\b/i,
+  ],
+  high: [
+    /\b(urgent\w*|asap|immediately|right now|as soon as possible)\b/i,
+    /\b(can'?t|cannot|unable to) (log ?in|sign ?in|access|pay|use)\b/i,
+    /\b(blocked|blocking|deadline|today|charged twice|double charged)\b/i,
+  ],
+  low: [/\b(feature request|suggestion|would be nice|just wondering|no rush|when you get a chance)\b/i],
+  intents: [
+    ['refund', /\b(refund\w*|money back|reimburs\w*)\b/i],
+    ['cancellation', /\b(cancel\w*|unsubscribe|close my account|terminate)\b/i],
+    ['billing', /\b(bill\w*|invoice|charge[ds]?|payment|subscription|pricing|credit card)\b/i],
+    ['account_access', /\b(log ?in|sign ?in|password|2fa|locked out|reset|verification code)\b/i],
+    ['shipping', /\b(ship\w*|deliver\w*|tracking|package|parcel|courier)\b/i],
+    ['bug_report', /\b(bug|crash\w*|error|exception|glitch)\b/i],
+    ['feature_request', /\b(feature|suggestion|would be nice|could you add|wish)\b/i],
+    ['technical_issue', /\b(not working|doesn'?t work|broken|issue|problem|slow|outage|down)\b/i],
+    ['complaint', /\b(complain\w*|unacceptable|disappointed|terrible service|manager)\b/i],
+  ],
+};
+
+const count = (patterns: RegExp[], text: string): number => patterns.filter((pattern) => pattern.test(text)).length;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const parseJson = (content: string): any =>
+  JSON.parse(content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+
+export class TicketClassificationService {
+  /**
+   * Keyword classification, used when the AI provider is unavailable
+   */
+  classifyWithRules(text: string): Classification {
+    const letters = text.replace(/[^A-Za-z]/g, '');
+    const shouting = letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.6;
+
+    const angry = count(RULES.angry, text) + (shouting ? 1 : 0);
+    const negative = count(RULES.negative, text);
+    const positive = count(RULES.positive, text);
+
+    const sentimentScore = Math.round(clamp(0.4 * positive - 0.3 * negative - 0.5 * angry, -1, 1) * 100) / 100;
+    const sentiment: Sentiment =
+      angry > 0 && sentimentScore <= -0.4
+        ? 'angry'
+        : sentimentScore < 0
+          ? 'negative'
+          : sentimentScore > 0
+            ? 'positive'
+            : 'neutral';
+
+    let urgencyScore = 0.4;
+    if (count(RULES.critical, text) > 0) urgencyScore = 0.9;
+    else if (count(RULES.high, text) > 0) urgencyScore = 0.7;
+    else if (count(RULES.low, text) > 0) urgencyScore = 0.15;
+    if (sentiment === 'angry') urgencyScore = Math.round(Math.min(1, urgencyScore + 0.2) * 100) / 100;
+
+    const intent = RULES.intents.find(([, pattern]) => pattern.test(text))?.[0] ?? 'general_question';
+
+    return {
+      sentiment,
+      sentimentScore,
+      intent,
+      urgency: this.urgencyFromScore(urgencyScore),
+      urgencyScore,
+      reason: null,
+    };
+  }
+
+  /**
+   * Priority for a classification: urgency sets it, an angry customer raises it one level
+   */
+  priorityFor(classification: Pick<Classification, 'urgency' | 'sentiment'>): string {
+    const rank = URGENCIES.indexOf(classification.urgency) + (classification.sentiment === 'angry' ? 1 : 0);
+    return PRIORITIES[Math.min(rank, PRIORITIES.length - 1)];
+  }
+
+  /**
+   * Classify a ticket from its subject and recent customer messages and apply
+   * the result. Returns null when the ticket no longer exists.
+   */
+  async classifyTicket(ticketId: string, trigger: ClassificationTrigger): Promise<StoredClassification | null> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: {
+        messages: {
+          where: { senderType: 'customer', isInternal: false },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_MESSAGES,
+        },
+      },
+    });
+
+    if (!ticket) {
+      return null;
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: ticket.organizationId },
+      select: { settings: true },
+    });
+    const compliance = (organization?.settings as any)?.compliance || {};
+
+    const messages = ticket.messages
+      .reverse()
+      .map((message) => message.content.slice(0, MAX_MESSAGE_LENGTH))
+      .map((content) =>
+        compliance.piiRedactionEnabled !== false
+          ? piiRedactor.redact(content, piiRedactor.optionsFromCompliance(compliance)).redactedText
+          : content
+      );
+    const subject =
+      compliance.piiRedactionEnabled !== false
+        ? piiRedactor.redact(ticket.subject, piiRedactor.optionsFromCompliance(compliance)).redactedText
+        : ticket.subject;
+
+    let classification: Classification;
+    let method: StoredClassification['method'] = 'ai';
+    let provider: string | undefined;
+    let model: string | undefined;
+
+    try {
+      const result = await this.classifyWithAI(ticket.organizationId, ticket.id, compliance, subject, messages);
+      ({ classification, provider, model } = result);
+    } catch (error) {
+      logger.warn(`AI classification unavailable for ticket ${ticketId}, using rules: ${(error as Error).message}`);
+      // Rules look at the subject and the newest message, so a change of tone is not diluted
+      classification = this.classifyWithRules([subject, messages[messages.length - 1] || ''].join('\n'));
+      method = 'rules';
+    }
+
+    return this.apply(ticket, classification, { trigger, method, provider, model });
+  }
+
+  private async classifyWithAI(
+    organizationId: string,
+    ticketId: string,
+    compliance: any,
+    subject: string,
+    messages: string[]
+  ): Promise<{ classification: Classification; provider: string; model: string }> {
+    if ((await aiUsageService.getBudgetStatus(organizationId)).exceeded) {
+      throw new Error('monthly AI budget exceeded');
+    }
+
+    const aiProvider = createComplianceProvider(compliance, { temperature: 0 });
+    const conversation = messages.length
+      ? messages.map((message, i) => `[${i + 1}${i === messages.length - 1 ? ', latest' : ''}] ${message}`).join('\n\n')
+      : '(no message body)';
+
+    const response = await aiProvider.generateResponse(
+      [
+        {
+          role: 'user',
+          content: `Classify this customer support ticket. Judge sentiment and urgency mainly from the latest message.
+
+Subject: ${subject}
+
+Customer messages (oldest first):
+${conversation}
+
+sentiment: one of ${SENTIMENTS.join(', ')} ("angry" only for hostile or threatening messages)
+sentimentScore: number from -1 (hostile) to 1 (delighted)
+intent: one of ${INTENTS.join(', ')}
+urgency: one of ${URGENCIES.join(', ')} ("critical" for outages, security incidents, data loss or blocked payments)
+urgencyScore: number from 0 to 1
+
+Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
+{ "sentiment": string, "sentimentScore": number, "intent": string, "urgency": string, "urgencyScore": number, "reason": "one short sentence" }`,
+        },
+      ],
+      { temperature: 0, maxTokens: 256 }
+    );
+
+    await aiUsageService.record(organizationId, {
+      feature: 'classification',
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      metadata: { ticketId },
+    });
+
+    await auditService.recordAICall(organizationId, {
+      feature: 'classification',
+      provider: response.provider,
+      model: response.model,
+      ticketId,
+      ...(response.fallbackFrom && { fallbackFrom: response.fallbackFrom }),
+    });
+
+    const parsed = parseJson(response.content);
+
+    if (!SENTIMENTS.includes(parsed.sentiment) || !URGENCIES.includes(parsed.urgency)) {
+      throw new Error(`unexpected classification: ${response.content.slice(0, 200)}`);
+    }
+
+    const urgencyScore = Number.isFinite(Number(parsed.urgencyScore))
+      ? clamp(Number(parsed.urgencyScore), 0, 1)
+      : URGENCIES.indexOf(parsed.urgency) / (URGENCIES.length - 1);
+
+    return {
+      classification: {
+        sentiment: parsed.sentiment,
+        sentimentScore: Number.isFinite(Number(parsed.sentimentScore)) ? clamp(Number(parsed.sentimentScore), -1, 1) : 0,
+        intent: INTENTS.includes(parsed.intent) ? parsed.intent : 'general_question',
+        urgency: parsed.urgency,
+        urgencyScore,
+        reason: typeof parsed.reason === 'string' ? parsed.reason.slice(0, 300) : null,
+      },
+      provider: response.provider,
+      model: response.model,
+    };
+  }
+
+  /**
+   * Store the classification, swap the tags it added last time and raise priority when warranted
+   */
+  private async apply(
+    ticket: { id: string; organizationId: string; priority: string; metadata: Prisma.JsonValue },
+    classification: Classification,
+    details: Pick<StoredClassification, 'trigger' | 'method' | 'provider' | 'model'>
+  ): Promise<StoredClassification> {
+    const metadata = (ticket.metadata as Record<string, any>) || {};
+    const previous = metadata.classification as StoredClassification | undefined;
+    const classifiedAt = new Date().toISOString();
+
+    const suggested = this.priorityFor(classification);
+    // A new ticket still on the default takes the suggestion as is; otherwise priority only goes up
+    const priority =
+      (!previous && ticket.priority === DEFAULT_PRIORITY) ||
+      PRIORITIES.indexOf(suggested) > PRIORITIES.indexOf(ticket.priority)
+        ? suggested
+        : ticket.priority;
+
+    const tags = [`intent:${classification.intent}`, `sentiment:${classification.sentiment}`];
+
+    const stored: StoredClassification = {
+      ...classification,
+      ...details,
+      classifiedAt,
+      priority: suggested,
+      tags,
+      history: [
+        ...(previous?.history || []),
+        {
+          sentiment: classification.sentiment,
+          urgency: classification.urgency,
+          urgencyScore: classification.urgencyScore,
+          at: classifiedAt,
+        },
+      ].slice(-MAX_HISTORY),
+    };
+
+    // Only the classification key is written: other jobs update the ticket's metadata while the AI call runs
+    await prisma.$executeRaw`
+      UPDATE tickets
+      SET priority = ${priority},
+          urgency_score = ${classification.urgencyScore},
+          metadata = jsonb_set(COALESCE(metadata, '{}'::jsonb), '{classification}', ${JSON.stringify(stored)}::jsonb),
+          updated_at = NOW()
+      WHERE id = ${ticket.id}
+    `;
+
+    const staleTags = (previous?.tags || []).filter((tag) => !tags.includes(tag));
+    if (staleTags.length > 0) {
+      await prisma.ticketTag.deleteMany({ where: { ticketId: ticket.id, tag: { in: staleTags } } });
+    }
+
+    const existing = await prisma.ticketTag.findMany({
+      where: { ticketId: ticket.id, tag: { in: tags } },
+      select: { tag: true },
+    });
+    const existingTags = new Set(existing.map((t) => t.tag));
+    const newTags = tags.filter((tag) => !existingTags.has(tag));
+
+    if (newTags.length > 0) {
+      await prisma.ticketTag.createMany({ data: newTags.map((tag) => ({ ticketId: ticket.id, tag })) });
+    }
+
+    // A different priority may fall under a different SLA policy
+    if (priority !== ticket.priority) {
+      await slaService.applyPolicy(ticket.id);
+      logger.info(
+        `Ticket ${ticket.id} priority ${ticket.priority} -> ${priority} (${classification.sentiment}, ${classification.urgency})`
+      );
+    }
+
+    await broadcastTicketEvent(ticket.organizationId, 'ticket_updated', ticket.id);
+
+    return stored;
+  }
+
+  private urgencyFromScore(score: number): Urgency {
+    if (score >= 0.85) return 'critical';
+    if (score >= 0.6) return 'high';
+    if (score >= 0.3) return 'medium';
+    return 'low';
+  }
+}
+
+export default new TicketClassificationService();
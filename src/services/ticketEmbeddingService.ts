@@ -0,0 +1,201 @@
+/**
+ * Ticket Embedding Service
+ *
+ * Embeds each ticket's subject and first customer message with pgvector so
+ * agents and the autonomous AI can look up previously resolved tickets that
+ * are semantically similar to a new one.
+ */
+
+import crypto from 'crypto';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import geminiService from './geminiService';
+import piiRedactor from './piiRedactor';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+
+export interface SimilarTicket {
+  id: string;
+  subject: string;
+  customerName: string;
+  status: string;
+  priority: string;
+  createdAt: Date;
+  closedAt: Date | null;
+  similarity: number;
+  resolution?: string | null;
+}
+
+// Embedding model input is capped well below its limit to keep requests small
+const MAX_EMBEDDING_CHARS = 8000;
+
+export class TicketEmbeddingService {
+  /**
+   * Build the text that represents a ticket for similarity search
+   */
+  private buildText(subject: string, firstMessage?: string | null): string {
+    return `${subject}\n\n${firstMessage || ''}`.trim().slice(0, MAX_EMBEDDING_CHARS);
+  }
+
+  /**
+   * Embed a ticket and store (or replace) its vector
+   * Returns false when the organization's compliance settings rule out sending content to the embedding model
+   */
+  async embedTicket(ticketId: string): Promise<boolean> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: {
+        messages: {
+          where: { senderType: 'customer' },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!ticket) {
+      return false;
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: ticket.organizationId },
+      select: { settings: true },
+    });
+
+    const complianceSettings = (organization?.settings as any)?.compliance || {};
+
+    // Embeddings are generated by Gemini; orgs that restrict AI to another provider opt out
+    if (complianceSettings.aiProvider && complianceSettings.aiProvider !== 'gemini') {
+      logger.info(`Skipping embedding for ticket ${ticketId}: organization AI provider is ${complianceSettings.aiProvider}`);
+      return false;
+    }
+
+    if (complianceSettings.forbiddenProviders?.includes('gemini')) {
+      logger.info(`Skipping embedding for ticket ${ticketId}: Gemini is forbidden by organization compliance settings`);
+      return false;
+    }
+
+    let text = this.buildText(ticket.subject, ticket.messages[0]?.content);
+    let redactionCount = 0;
+    if (complianceSettings.piiRedactionEnabled !== false) {
+      const redaction = piiRedactor.redact(text, piiRedactor.optionsFromCompliance(complianceSettings));
+      text = redaction.redactedText;
+      redactionCount = redaction.redactions.length;
+    }
+
+    if ((await aiUsageService.getBudgetStatus(ticket.organizationId)).exceeded) {
+      logger.info(`Skipping embedding for ticket ${ticketId}: monthly AI budget exceeded`);
+      return false;
+    }
+
+    const embedding = await geminiService.generateEmbedding(text);
+
+    await aiUsageService.record(ticket.organizationId, {
+      feature: 'embedding',
+      provider: 'gemini',
+      model: 'text-embedding-004',
+      usage: { promptTokens: aiUsageService.estimateTokens(text), completionTokens: 0, totalTokens: 0 },
+      metadata: { ticketId },
+    });
+
+    await auditService.recordAICall(ticket.organizationId, {
+      feature: 'embedding',
+      provider: 'gemini',
+      model: 'text-embedding-004',
+      ticketId,
+      redactionCount,
+    });
+
+    await prisma.$executeRaw`
+      INSERT INTO ticket_embeddings (id, ticket_id, organization_id, content, embedding, created_at, updated_at)
+      VALUES (
+        ${crypto.randomUUID()},
+        ${ticket.id},
+        ${ticket.organizationId},
+        ${text},
+        ${`[${embedding.join(',')}]`}::vector,
+        NOW(),
+        NOW()
+      )
+      ON CONFLICT (ticket_id) DO UPDATE
+      SET content = EXCLUDED.content, embedding = EXCLUDED.embedding, updated_at = NOW()
+    `;
+
+    return true;
+  }
+
+  /**
+   * Find resolved tickets most similar to the given ticket
+   */
+  async findSimilar(
+    ticketId: string,
+    organizationId: string,
+    options: { limit?: number; minSimilarity?: number; withResolution?: boolean } = {}
+  ): Promise<SimilarTicket[]> {
+    const limit = options.limit ?? 5;
+    const minSimilarity = options.minSimilarity ?? 0.5;
+
+    const existing = await prisma.ticketEmbedding.findUnique({
+      where: { ticketId },
+      select: { id: true },
+    });
+
+    // Tickets are embedded in the background; embed now if the job has not run yet
+    if (!existing && !(await this.embedTicket(ticketId))) {
+      return [];
+    }
+
+    const rows = (await prisma.$queryRaw`
+      SELECT
+        t.id,
+        t.subject,
+        t.customer_name,
+        t.status,
+        t.priority,
+        t.created_at,
+        t.closed_at,
+        1 - (te.embedding <=> src.embedding) AS similarity
+      FROM ticket_embeddings te
+      JOIN tickets t ON t.id = te.ticket_id
+      CROSS JOIN (SELECT embedding FROM ticket_embeddings WHERE ticket_id = ${ticketId}) src
+      WHERE te.organization_id = ${organizationId}
+        AND te.ticket_id <> ${ticketId}
+        AND t.status = 'closed'
+      ORDER BY te.embedding <=> src.embedding
+      LIMIT ${limit}
+    `) as any[];
+
+    const similar: SimilarTicket[] = rows
+      .map((row) => ({
+        id: row.id,
+        subject: row.subject,
+        customerName: row.customer_name,
+        status: row.status,
+        priority: row.priority,
+        createdAt: row.created_at,
+        closedAt: row.closed_at,
+        similarity: Number(row.similarity),
+      }))
+      .filter((ticket) => ticket.similarity >= minSimilarity);
+
+    if (options.withResolution) {
+      for (const ticket of similar) {
+        // The last reply sent to the customer is the best record of how the ticket was resolved
+        const resolution = await prisma.ticketMessage.findFirst({
+          where: {
+            ticketId: ticket.id,
+            senderType: { in: ['agent', 'system'] },
+            isInternal: false,
+          },
+          orderBy: { createdAt: 'desc' },
+          select: { content: true },
+        });
+        ticket.resolution = resolution?.content || null;
+      }
+    }
+
+    return similar;
+  }
+}
+
+export default new TicketEmbeddingService();
@@ -0,0 +1,82 @@
+/**
+ * Ticket Lifecycle Hooks
+ *
+ * Tickets are created from many places (channel webhooks, the Discord bot,
+ * the widget, public forms and the dashboard). These hooks are the single
+ * place for follow-up work that must run no matter where a ticket came from.
+ * Hooks never throw — a failure here must not fail the inbound request.
+ */
+
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { classificationQueue, summaryQueue, ticketEmbeddingQueue } from '../config/queue';
+import slaService from './slaService';
+import routingService from './routingService';
+import customerService, { CustomerIdentityInput } from './customerService';
+import meteringService from './meteringService';
+
+async function runStep(name: string, ticketId: string, step: () => Promise<unknown>): Promise<void> {
+  try {
+    await step();
+  } catch (error) {
+    logger.error(`Ticket lifecycle step "${name}" failed for ticket ${ticketId}:`, error);
+  }
+}
+
+/**
+ * Run after a new ticket (and its first message) has been stored.
+ * Channels that only know the sender by a platform ID pass it as an identity
+ * so the ticket is linked to the right customer.
+ */
+export async function onTicketCreated(
+  ticketId: string,
+  options: { identities?: CustomerIdentityInput[] } = {}
+): Promise<void> {
+  // Each step is isolated so one failing integration does not skip the others
+  await runStep('link customer', ticketId, () => customerService.linkTicket(ticketId, options.identities));
+  await runStep('apply SLA policy', ticketId, () => slaService.applyPolicy(ticketId));
+  await runStep('route', ticketId, () => routingService.routeTicket(ticketId));
+  await runStep('queue embedding', ticketId, () => ticketEmbeddingQueue.add({ ticketId }));
+  await runStep('queue classification', ticketId, () => classificationQueue.add({ ticketId, trigger: 'created' }));
+  await runStep('meter messages', ticketId, async () =>
+    meteringService.recordTicketMessages(ticketId, await prisma.ticketMessage.count({ where: { ticketId } }))
+  );
+}
+
+/**
+ * Run after a message has been added to an existing ticket, whoever sent it
+ */
+export async function onTicketMessage(ticketId: string, options: { senderType: string }): Promise<void> {
+  await runStep('meter message', ticketId, () => meteringService.recordTicketMessages(ticketId));
+
+  // A customer's tone can change mid-conversation; classify again so escalations surface
+  if (options.senderType === 'customer') {
+    await runStep('queue classification', ticketId, () =>
+      classificationQueue.add({ ticketId, trigger: 'customer_message' })
+    );
+  }
+}
+
+/**
+ * Run after an agent or AI reply has been delivered to the customer
+ */
+export async function onAgentReply(ticketId: string): Promise<void> {
+  try {
+    await slaService.recordFirstResponse(ticketId);
+  } catch (error) {
+    logger.error(`Agent reply hook failed for ticket ${ticketId}:`, error);
+  }
+}
+
+/**
+ * Run when a ticket changes hands: reassigned to another agent, or escalated
+ * to a person by the autonomous AI. Leaves a conversation summary for them.
+ */
+export async function onTicketHandoff(
+  ticketId: string,
+  options: { trigger: 'reassigned' | 'ai_escalation'; reason?: string }
+): Promise<void> {
+  await runStep('queue summary', ticketId, () =>
+    summaryQueue.add({ ticketId, trigger: options.trigger, reason: options.reason })
+  );
+}
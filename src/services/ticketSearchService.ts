@@ -0,0 +1,302 @@
+/**
+ * Ticket Search Service
+ *
+ * Full-text search over tickets using Postgres FTS. Tickets match on their
+ * subject, customer name and email (tickets.search_vector), on any message
+ * content (ticket_messages.search_vector) or on a tag. Results are ranked,
+ * carry highlighted snippets, and are paginated with an opaque keyset cursor
+ * so pages stay stable while new tickets arrive.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+export interface TicketSearchFilters {
+  query?: string;
+  statuses?: string[];
+  priorities?: string[];
+  sources?: string[];
+  assignees?: string[]; // user IDs, "unassigned" for tickets without an assignee
+  tags?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface TicketSearchHit {
+  id: string;
+  subject: string;
+  customerName: string;
+  customerEmail: string;
+  status: string;
+  priority: string;
+  assignedTo: string | null;
+  source: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  rank: number;
+  highlights: {
+    subject: string;
+    customer: string;
+    message: string | null;
+    messageId: string | null;
+  };
+  tags: string[];
+}
+
+export interface FacetCount {
+  value: string | null;
+  count: number;
+}
+
+export interface TicketSearchResult {
+  hits: TicketSearchHit[];
+  facets: Record<'status' | 'priority' | 'source' | 'assignee' | 'tag', FacetCount[]>;
+  total: number;
+  nextCursor: string | null;
+}
+
+interface SearchCursor {
+  rank: number;
+  createdAt: string; // Postgres timestamp text: microsecond precision, which a JS Date would cut to milliseconds
+  id: string;
+}
+
+// 'simple' keeps names, emails and non-English words intact
+const TS_CONFIG = 'simple';
+// Matches are delimited with control characters so the customer text can be HTML-escaped before <mark> is added
+const MATCH_START = '\u0002';
+const MATCH_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_STOP}, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Escaped snippet with only the matches wrapped in <mark>
+const toHighlight = (value: string): string =>
+  escapeHtml(value).split(MATCH_START).join('<mark>').split(MATCH_STOP).join('</mark>');
+
+export class TicketSearchService {
+  encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  decodeCursor(value: string): SearchCursor | null {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (typeof cursor.rank !== 'number' || !cursor.createdAt || !cursor.id) {
+        return null;
+      }
+      return cursor;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build the shared FROM/WHERE clause for hits and facets
+   */
+  private buildMatchQuery(organizationId: string, filters: TicketSearchFilters): Prisma.Sql {
+    const hasQuery = Boolean(filters.query?.trim());
+    const conditions: Prisma.Sql[] = [Prisma.sql`t.organization_id = ${organizationId}`];
+
+    if (hasQuery) {
+      conditions.push(Prisma.sql`(
+        t.search_vector @@ q.query
+        OR m.message_id IS NOT NULL
+        OR EXISTS (
+          SELECT 1 FROM ticket_tags tt
+          WHERE tt.ticket_id = t.id AND to_tsvector(${TS_CONFIG}::regconfig, tt.tag) @@ q.query
+        )
+      )`);
+    }
+
+    if (filters.statuses?.length) {
+      conditions.push(Prisma.sql`t.status IN (${Prisma.join(filters.statuses)})`);
+    }
+
+    if (filters.priorities?.length) {
+      conditions.push(Prisma.sql`t.priority IN (${Prisma.join(filters.priorities)})`);
+    }
+
+    if (filters.sources?.length) {
+      conditions.push(Prisma.sql`COALESCE(t.metadata->>'source', 'internal') IN (${Prisma.join(filters.sources)})`);
+    }
+
+    if (filters.assignees?.length) {
+      const userIds = filters.assignees.filter((a) => a !== 'unassigned');
+      const assigneeConditions: Prisma.Sql[] = [];
+      if (userIds.length > 0) {
+        assigneeConditions.push(Prisma.sql`t.assigned_to::text IN (${Prisma.join(userIds)})`);
+      }
+      if (filters.assignees.includes('unassigned')) {
+        assigneeConditions.push(Prisma.sql`t.assigned_to IS NULL`);
+      }
+      conditions.push(Prisma.sql`(${Prisma.join(assigneeConditions, ' OR ')})`);
+    }
+
+    if (filters.tags?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM ticket_tags ft
+        WHERE ft.ticket_id = t.id AND ft.tag IN (${Prisma.join(filters.tags)})
+      )`);
+    }
+
+    if (filters.from) {
+      conditions.push(Prisma.sql`t.created_at >= ${filters.from}`);
+    }
+
+    if (filters.to) {
+      conditions.push(Prisma.sql`t.created_at <= ${filters.to}`);
+    }
+
+    // Best-matching message per ticket, only needed for text queries
+    const messageJoin = hasQuery
+      ? Prisma.sql`
+        LEFT JOIN LATERAL (
+          SELECT
+            tm.id AS message_id,
+            tm.content,
+            ts_rank(tm.search_vector, q.query) AS rank
+          FROM ticket_messages tm
+          WHERE tm.ticket_id = t.id AND tm.search_vector @@ q.query
+          ORDER BY rank DESC
+          LIMIT 1
+        ) m ON TRUE`
+      : Prisma.sql`
+        LEFT JOIN LATERAL (
+          SELECT NULL::uuid AS message_id, NULL::text AS content, 0::real AS rank
+        ) m ON TRUE`;
+
+    return Prisma.sql`
+      FROM tickets t
+      CROSS JOIN (SELECT websearch_to_tsquery(${TS_CONFIG}::regconfig, ${filters.query || ''}) AS query) q
+      ${messageJoin}
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    `;
+  }
+
+  /**
+   * Search tickets and compute facet counts over the full match set
+   */
+  async search(
+    organizationId: string,
+    filters: TicketSearchFilters,
+    options: { cursor?: string; limit: number }
+  ): Promise<TicketSearchResult> {
+    const hasQuery = Boolean(filters.query?.trim());
+    const matchQuery = this.buildMatchQuery(organizationId, filters);
+
+    const rankExpression = hasQuery
+      ? Prisma.sql`(ts_rank(t.search_vector, q.query) + COALESCE(m.rank, 0))::float8`
+      : Prisma.sql`0::float8`;
+
+    const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+    const cursorCondition = cursor
+      ? Prisma.sql`WHERE (r.rank, r.created_at, r.id::text) < (${cursor.rank}::float8, ${cursor.createdAt}::timestamptz, ${cursor.id})`
+      : Prisma.empty;
+
+    const rows = (await prisma.$queryRaw`
+      SELECT r.* FROM (
+        SELECT
+          t.id,
+          t.subject,
+          t.customer_name,
+          t.customer_email,
+          t.status,
+          t.priority,
+          t.assigned_to,
+          t.metadata->>'source' AS source,
+          t.created_at,
+          t.created_at::text AS cursor_created_at,
+          t.updated_at,
+          ${rankExpression} AS rank,
+          m.message_id,
+          ${hasQuery
+            ? Prisma.sql`ts_headline(${TS_CONFIG}::regconfig, t.subject, q.query, ${HEADLINE_OPTIONS})`
+            : Prisma.sql`t.subject`} AS subject_highlight,
+          ${hasQuery
+            ? Prisma.sql`ts_headline(${TS_CONFIG}::regconfig, t.customer_name || ' <' || t.customer_email || '>', q.query, ${HEADLINE_OPTIONS})`
+            : Prisma.sql`t.customer_name || ' <' || t.customer_email || '>'`} AS customer_highlight,
+          ${hasQuery
+            ? Prisma.sql`CASE WHEN m.message_id IS NOT NULL THEN ts_headline(${TS_CONFIG}::regconfig, m.content, q.query, ${HEADLINE_OPTIONS}) END`
+            : Prisma.sql`NULL::text`} AS message_highlight
+        ${matchQuery}
+      ) r
+      ${cursorCondition}
+      ORDER BY r.rank DESC, r.created_at DESC, r.id::text DESC
+      LIMIT ${options.limit + 1}
+    `) as any[];
+
+    const hasMore = rows.length > options.limit;
+    const pageRows = rows.slice(0, options.limit);
+
+    const tags = await prisma.ticketTag.findMany({
+      where: { ticketId: { in: pageRows.map((row) => row.id) } },
+      select: { ticketId: true, tag: true },
+    });
+
+    const hits: TicketSearchHit[] = pageRows.map((row) => ({
+      id: row.id,
+      subject: row.subject,
+      customerName: row.customer_name,
+      customerEmail: row.customer_email,
+      status: row.status,
+      priority: row.priority,
+      assignedTo: row.assigned_to,
+      source: row.source,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      rank: Number(row.rank),
+      highlights: {
+        subject: toHighlight(row.subject_highlight),
+        customer: toHighlight(row.customer_highlight),
+        message: row.message_highlight === null ? null : toHighlight(row.message_highlight),
+        messageId: row.message_id,
+      },
+      tags: tags.filter((t) => t.ticketId === row.id).map((t) => t.tag),
+    }));
+
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? this.encodeCursor({ rank: Number(last.rank), createdAt: last.cursor_created_at, id: last.id })
+        : null;
+
+    const facetRows = (await prisma.$queryRaw`
+      WITH matched AS (
+        SELECT t.id, t.status, t.priority, COALESCE(t.metadata->>'source', 'internal') AS source, t.assigned_to::text AS assignee
+        ${matchQuery}
+      )
+      SELECT 'status' AS facet, status AS value, COUNT(*)::int AS count FROM matched GROUP BY status
+      UNION ALL
+      SELECT 'priority', priority, COUNT(*)::int FROM matched GROUP BY priority
+      UNION ALL
+      SELECT 'source', source, COUNT(*)::int FROM matched GROUP BY source
+      UNION ALL
+      SELECT 'assignee', assignee, COUNT(*)::int FROM matched GROUP BY assignee
+      UNION ALL
+      SELECT 'tag', tt.tag, COUNT(DISTINCT matched.id)::int FROM matched JOIN ticket_tags tt ON tt.ticket_id = matched.id GROUP BY tt.tag
+      UNION ALL
+      SELECT 'total', NULL, COUNT(*)::int FROM matched
+    `) as { facet: string; value: string | null; count: number }[];
+
+    const facets: TicketSearchResult['facets'] = { status: [], priority: [], source: [], assignee: [], tag: [] };
+    let total = 0;
+
+    for (const row of facetRows) {
+      if (row.facet === 'total') {
+        total = row.count;
+      } else {
+        facets[row.facet as keyof TicketSearchResult['facets']].push({ value: row.value, count: row.count });
+      }
+    }
+
+    for (const values of Object.values(facets)) {
+      values.sort((a, b) => b.count - a.count);
+    }
+
+    return { hits, facets, total, nextCursor };
+  }
+}
+
+export default new TicketSearchService();
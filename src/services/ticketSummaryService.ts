@@ -0,0 +1,264 @@
+/**
+ * Ticket Summary Service
+ *
+ * Condenses a ticket's conversation into a short handoff note (the problem,
+ * what was tried, how the customer feels and the next step) stored as an
+ * internal system message, so whoever picks up a long Slack or Gmail thread
+ * does not have to read all of it. Summaries are made on demand and
+ * automatically when a ticket is reassigned or the autonomous AI escalates it.
+ *
+ * The conversation is redacted with the organization's PII settings before it
+ * reaches the provider chain allowed by its compliance settings, and the note
+ * keeps the redaction placeholders.
+ */
+
+import { TicketMessage } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { createComplianceProvider } from './aiProviders';
+import aiUsageService from './aiUsageService';
+import auditService from './auditService';
+import piiRedactor from './piiRedactor';
+import { broadcastTicketEvent } from './broadcast';
+
+export type SummaryTrigger = 'manual' | 'reassigned' | 'ai_escalation';
+
+export const SUMMARY_SENTIMENTS = ['positive', 'neutral', 'frustrated', 'angry'] as const;
+
+export interface TicketSummary {
+  problem: string;
+  tried: string[];
+  sentiment: (typeof SUMMARY_SENTIMENTS)[number];
+  sentimentNote: string | null;
+  nextStep: string;
+}
+
+export const SUMMARY_MESSAGE_TYPE = 'summary';
+
+// Automatic summaries are skipped for conversations short enough to read
+const MIN_MESSAGES_FOR_AUTO = 3;
+// Newest messages kept when a thread is longer than this
+const MAX_MESSAGES = 50;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_TRANSCRIPT_LENGTH = 24000;
+
+const TRIGGER_LABELS: Record<SummaryTrigger, string> = {
+  manual: 'requested',
+  reassigned: 'ticket reassigned',
+  ai_escalation: 'escalated by the AI assistant',
+};
+
+const isSummary = (message: Pick<TicketMessage, 'metadata'>): boolean =>
+  (message.metadata as Record<string, any> | null)?.type === SUMMARY_MESSAGE_TYPE;
+
+const senderLabel = (message: Pick<TicketMessage, 'senderType' | 'isInternal'>): string => {
+  if (message.isInternal) return 'Internal note';
+  if (message.senderType === 'customer') return 'Customer';
+  if (message.senderType === 'system') return 'AI assistant';
+  return 'Agent';
+};
+
+const parseJson = (content: string): any =>
+  JSON.parse(content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+
+export class TicketSummaryService {
+  /**
+   * Summarize a ticket and store the note. Returns the existing note when
+   * nothing was said since the last summary. Automatic summaries return null
+   * instead of failing when the ticket is gone, the conversation is short
+   * enough to read or the AI budget is used up.
+   */
+  async summarize(
+    ticketId: string,
+    options: { trigger: SummaryTrigger; userId?: string; reason?: string }
+  ): Promise<{ message: TicketMessage; summary: TicketSummary; created: boolean } | null> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    const manual = options.trigger === 'manual';
+
+    if (!ticket) {
+      if (manual) throw new AppError('Ticket not found', 404);
+      return null;
+    }
+
+    const latest = ticket.messages[ticket.messages.length - 1];
+    if (latest && isSummary(latest)) {
+      const summary = (latest.metadata as Record<string, any>).summary as TicketSummary;
+      return { message: latest, summary, created: false };
+    }
+
+    const conversation = ticket.messages.filter((message) => !isSummary(message));
+
+    if (conversation.length < (manual ? 1 : MIN_MESSAGES_FOR_AUTO)) {
+      if (manual) throw new AppError('The ticket has no messages to summarize', 400);
+      return null;
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: ticket.organizationId },
+      select: { settings: true },
+    });
+    const compliance = (organization?.settings as any)?.compliance || {};
+
+    if (manual) {
+      await aiUsageService.assertWithinBudget(ticket.organizationId);
+    } else if ((await aiUsageService.getBudgetStatus(ticket.organizationId)).exceeded) {
+      logger.info(`Skipping summary for ticket ${ticketId}: AI budget exceeded`);
+      return null;
+    }
+
+    let provider;
+    try {
+      provider = createComplianceProvider(compliance, { temperature: 0.2 });
+    } catch (error) {
+      throw new AppError((error as Error).message, 400);
+    }
+
+    const redact = (text: string): string =>
+      compliance.piiRedactionEnabled !== false
+        ? piiRedactor.redact(text, piiRedactor.optionsFromCompliance(compliance)).redactedText
+        : text;
+
+    const { transcript, included } = this.buildTranscript(conversation, redact);
+
+    const response = await provider.generateResponse(
+      [
+        {
+          role: 'user',
+          content: `Summarize this support conversation for the team member taking it over. Be brief and concrete; do not invent details that are not in the conversation.
+${options.reason ? `\nWhy it is being handed over: ${redact(options.reason)}\n` : ''}
+Subject: ${redact(ticket.subject)}
+${included < conversation.length ? `(Only the latest ${included} of ${conversation.length} messages are shown.)\n` : ''}
+Conversation (oldest first):
+${transcript}
+
+problem: one or two sentences on what the customer needs
+tried: short list of what has already been tried or answered (empty list if nothing)
+sentiment: one of ${SUMMARY_SENTIMENTS.join(', ')}, for the customer's mood in their latest messages
+sentimentNote: a few words on why, or null
+nextStep: the single most useful next action for the team member
+
+Respond ONLY with valid JSON in this exact format (no markdown, no code blocks):
+{ "problem": string, "tried": string[], "sentiment": string, "sentimentNote": string | null, "nextStep": string }`,
+        },
+      ],
+      { temperature: 0.2, maxTokens: 600 }
+    );
+
+    await aiUsageService.record(ticket.organizationId, {
+      feature: 'summary',
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      metadata: { ticketId, trigger: options.trigger },
+    });
+
+    await auditService.recordAICall(ticket.organizationId, {
+      feature: 'summary',
+      provider: response.provider,
+      model: response.model,
+      ticketId,
+      userId: options.userId,
+      trigger: options.trigger,
+      ...(response.fallbackFrom && { fallbackFrom: response.fallbackFrom }),
+    });
+
+    const summary = this.parseSummary(response.content);
+
+    const message = await prisma.ticketMessage.create({
+      data: {
+        ticketId,
+        userId: options.userId,
+        senderType: 'system',
+        content: this.format(summary, options.trigger),
+        isInternal: true,
+        metadata: {
+          type: SUMMARY_MESSAGE_TYPE,
+          trigger: options.trigger,
+          summary: { ...summary },
+          summarizedMessages: included,
+          ...(options.reason && { reason: options.reason }),
+          aiProvider: response.provider,
+          aiModel: response.model,
+        },
+      },
+    });
+
+    await broadcastTicketEvent(ticket.organizationId, 'ticket_updated', ticketId);
+
+    logger.info(`Ticket ${ticketId} summarized (${options.trigger}, ${included} messages)`);
+
+    return { message, summary, created: true };
+  }
+
+  /**
+   * The newest messages that fit, labelled by sender and redacted
+   */
+  private buildTranscript(
+    messages: TicketMessage[],
+    redact: (text: string) => string
+  ): { transcript: string; included: number } {
+    const lines: string[] = [];
+    let length = 0;
+
+    for (const message of messages.slice(-MAX_MESSAGES).reverse()) {
+      const content = message.content.length > MAX_MESSAGE_LENGTH
+        ? `${message.content.slice(0, MAX_MESSAGE_LENGTH)}…`
+        : message.content;
+      const line = `${senderLabel(message)}: ${redact(content)}`;
+
+      if (lines.length > 0 && length + line.length > MAX_TRANSCRIPT_LENGTH) break;
+
+      lines.unshift(line);
+      length += line.length;
+    }
+
+    return { transcript: lines.join('\n\n'), included: lines.length };
+  }
+
+  private parseSummary(content: string): TicketSummary {
+    let parsed: any;
+    try {
+      parsed = parseJson(content);
+    } catch {
+      throw new AppError('The AI provider returned an unreadable summary', 502);
+    }
+
+    if (typeof parsed.problem !== 'string' || typeof parsed.nextStep !== 'string') {
+      throw new AppError('The AI provider returned an incomplete summary', 502);
+    }
+
+    return {
+      problem: parsed.problem.trim(),
+      tried: Array.isArray(parsed.tried)
+        ? parsed.tried.filter((item: unknown) => typeof item === 'string' && item.trim()).map((item: string) => item.trim())
+        : [],
+      sentiment: SUMMARY_SENTIMENTS.includes(parsed.sentiment) ? parsed.sentiment : 'neutral',
+      sentimentNote: typeof parsed.sentimentNote === 'string' && parsed.sentimentNote.trim() ? parsed.sentimentNote.trim() : null,
+      nextStep: parsed.nextStep.trim(),
+    };
+  }
+
+  /**
+   * Plain-text note as shown in the conversation
+   */
+  format(summary: TicketSummary, trigger: SummaryTrigger): string {
+    const tried = summary.tried.length ? summary.tried.map((item) => `- ${item}`).join('\n') : '- Nothing yet';
+    const sentiment = summary.sentimentNote ? `${summary.sentiment} (${summary.sentimentNote})` : summary.sentiment;
+
+    return [
+      `Conversation summary (${TRIGGER_LABELS[trigger]})`,
+      '',
+      `Problem: ${summary.problem}`,
+      `Tried:\n${tried}`,
+      `Customer sentiment: ${sentiment}`,
+      `Next step: ${summary.nextStep}`,
+    ].join('\n');
+  }
+}
+
+export default new TicketSummaryService();
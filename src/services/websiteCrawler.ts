@@ -0,0 +1,402 @@
+/**
+ * Website Crawler
+ *
+ * Walks a website from a start URL for the knowledge base: seeds from the
+ * sitemap (robots.txt Sitemap lines or /sitemap.xml), then follows links on
+ * the same host breadth-first up to a maximum depth. robots.txt rules and
+ * crawl delay are honoured, as are noindex/nofollow robots meta tags. Pages
+ * are handed to a callback one at a time as Markdown with a content hash, so
+ * callers can store them without holding the whole site in memory.
+ */
+
+import axios from 'axios';
+import zlib from 'zlib';
+import * as cheerio from 'cheerio';
+import { detectFormat, htmlToMarkdown, parseDocument, DocumentFormat } from './documentParser';
+import { hashContent } from './documentChunker';
+
+export const CRAWLER_USER_AGENT = 'ReedeckBot/1.0 (+knowledge base crawler)';
+const ROBOTS_AGENT_TOKEN = 'reedeckbot';
+
+export interface CrawlOptions {
+  maxDepth: number; // links followed from the start page (0 = start page and sitemap only)
+  maxPages: number;
+  include: string[]; // URL path globs; empty means every page
+  exclude: string[];
+  useSitemap: boolean;
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  markdown: string;
+  format: DocumentFormat;
+  hash: string;
+  depth: number;
+}
+
+export interface CrawlReport {
+  pages: string[]; // URLs handed to the callback
+  skipped: { url: string; reason: string }[]; // not stored: disallowed, excluded, gone, unsupported
+  failed: { url: string; error: string }[]; // may still exist; fetch failed this time
+  sitemapUrls: number;
+  truncated: boolean; // stopped at maxPages
+}
+
+interface RobotsRules {
+  rules: { allow: boolean; pattern: string }[];
+  crawlDelay: number | null; // seconds
+  sitemaps: string[];
+  disallowAll: boolean; // robots.txt could not be read
+}
+
+const REQUEST_TIMEOUT = 15000;
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+const DEFAULT_DELAY_MS = 200;
+const MAX_DELAY_MS = 10000;
+const MAX_SITEMAPS = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sameHost = (a: URL, b: URL): boolean => a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+
+/**
+ * Absolute http(s) URL without its fragment, or null
+ */
+export function normalizeUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+const globToRegExp = (pattern: string, anchorEnd: boolean): RegExp =>
+  new RegExp(
+    '^' +
+      pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*') +
+      (anchorEnd ? '$' : '')
+  );
+
+/**
+ * Include/exclude globs match the path and query, e.g. /help/* or *.pdf
+ */
+export function matchesPattern(url: string, pattern: string): boolean {
+  const { pathname, search } = new URL(url);
+  return globToRegExp(pattern, true).test(pathname + search);
+}
+
+export function parseRobots(text: string): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules['rules']; crawlDelay: number | null }[] = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay' && !Number.isNaN(Number(value))) {
+      current.crawlDelay = Number(value);
+    }
+  }
+
+  // User-agent values are lowercased above, so this is a case-insensitive exact match on the product token
+  const group =
+    groups.find((candidate) => candidate.agents.includes(ROBOTS_AGENT_TOKEN)) ||
+    groups.find((candidate) => candidate.agents.includes('*'));
+
+  return {
+    rules: group?.rules || [],
+    crawlDelay: group?.crawlDelay ?? null,
+    sitemaps,
+    disallowAll: false,
+  };
+}
+
+/**
+ * Longest matching rule wins; Allow wins a tie. Patterns support * and a trailing $.
+ */
+export function isAllowed(robots: RobotsRules, url: string): boolean {
+  if (robots.disallowAll) return false;
+
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let best: { allow: boolean; length: number } | null = null;
+
+  for (const rule of robots.rules) {
+    const anchored = rule.pattern.endsWith('$');
+    const pattern = anchored ? rule.pattern.slice(0, -1) : rule.pattern;
+
+    if (globToRegExp(pattern, anchored).test(path)) {
+      if (!best || rule.pattern.length > best.length || (rule.pattern.length === best.length && rule.allow)) {
+        best = { allow: rule.allow, length: rule.pattern.length };
+      }
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+const fetchUrl = (url: string) =>
+  axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    timeout: REQUEST_TIMEOUT,
+    maxContentLength: MAX_DOCUMENT_BYTES,
+    maxRedirects: 5,
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    validateStatus: () => true,
+  });
+
+async function loadRobots(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await fetchUrl(`${origin}/robots.txt`);
+
+    if (response.status >= 200 && response.status < 300) {
+      return parseRobots(Buffer.from(response.data).toString('utf8'));
+    }
+
+    // No robots.txt means no restrictions; a server error means we cannot tell
+    if (response.status >= 400 && response.status < 500) {
+      return { rules: [], crawlDelay: null, sitemaps: [], disallowAll: false };
+    }
+  } catch {
+    // Network failure, treated like a server error
+  }
+
+  return { rules: [], crawlDelay: null, sitemaps: [], disallowAll: true };
+}
+
+/**
+ * Page URLs listed in a sitemap, following sitemap indexes
+ */
+async function loadSitemaps(sitemapUrls: string[]): Promise<string[]> {
+  const queue = [...sitemapUrls];
+  const seen = new Set<string>();
+  const pages: string[] = [];
+
+  while (queue.length && seen.size < MAX_SITEMAPS) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    try {
+      const response = await fetchUrl(sitemapUrl);
+      if (response.status < 200 || response.status >= 300) continue;
+
+      let body = Buffer.from(response.data);
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = zlib.gunzipSync(body);
+      }
+
+      const $ = cheerio.load(body.toString('utf8'), { xml: true });
+      $('sitemapindex > sitemap > loc').each((_, loc) => {
+        const url = normalizeUrl($(loc).text().trim());
+        if (url) queue.push(url);
+      });
+      $('urlset > url > loc').each((_, loc) => {
+        const url = normalizeUrl($(loc).text().trim());
+        if (url) pages.push(url);
+      });
+    } catch {
+      // A broken sitemap only loses its seeds; link discovery still runs
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Crawl a site, calling onPage for every stored page. Robots, include and
+ * exclude rules are applied to every URL; the start URL is always fetched for
+ * its links but only stored when it passes the include patterns.
+ */
+export async function crawlWebsite(
+  startUrl: string,
+  options: CrawlOptions,
+  onPage: (page: CrawledPage) => Promise<void>
+): Promise<CrawlReport> {
+  const start = normalizeUrl(startUrl);
+  if (!start) {
+    throw new Error(`Invalid start URL: ${startUrl}`);
+  }
+
+  const origin = new URL(start);
+  const report: CrawlReport = { pages: [], skipped: [], failed: [], sitemapUrls: 0, truncated: false };
+
+  // Without robots.txt we cannot know what is allowed, so the crawl does not start
+  const robots = await loadRobots(origin.origin);
+  if (robots.disallowAll) {
+    throw new Error(`${origin.origin}/robots.txt could not be read`);
+  }
+
+  const delay = Math.min(robots.crawlDelay !== null ? robots.crawlDelay * 1000 : DEFAULT_DELAY_MS, MAX_DELAY_MS);
+
+  const included = (url: string) =>
+    options.include.length === 0 || options.include.some((pattern) => matchesPattern(url, pattern));
+  const excluded = (url: string) => options.exclude.some((pattern) => matchesPattern(url, pattern));
+
+  const seen = new Set<string>();
+  const queue: { url: string; depth: number }[] = [];
+
+  const enqueue = (url: string, depth: number) => {
+    if (seen.has(url)) return;
+    seen.add(url);
+
+    if (!sameHost(new URL(url), origin)) return;
+
+    if (url !== start) {
+      if (excluded(url) || !included(url)) {
+        report.skipped.push({ url, reason: 'excluded' });
+        return;
+      }
+    }
+
+    if (!isAllowed(robots, url)) {
+      report.skipped.push({ url, reason: 'robots.txt' });
+      return;
+    }
+
+    queue.push({ url, depth });
+  };
+
+  enqueue(start, 0);
+
+  if (options.useSitemap) {
+    const sitemapUrls = robots.sitemaps.length ? robots.sitemaps : [`${origin.origin}/sitemap.xml`];
+    const listed = await loadSitemaps(sitemapUrls);
+    report.sitemapUrls = listed.length;
+    listed.forEach((url) => enqueue(url, 0));
+  }
+
+  let fetched = 0;
+
+  while (queue.length) {
+    if (report.pages.length >= options.maxPages) {
+      report.truncated = true;
+      break;
+    }
+
+    const { url, depth } = queue.shift()!;
+    if (fetched++ > 0) await sleep(delay);
+
+    let response;
+    try {
+      response = await fetchUrl(url);
+    } catch (error) {
+      report.failed.push({ url, error: error instanceof Error ? error.message : 'request failed' });
+      continue;
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      report.failed.push({ url, error: `HTTP ${response.status}` });
+      continue;
+    }
+    if (response.status >= 300) {
+      report.skipped.push({ url, reason: `HTTP ${response.status}` });
+      continue;
+    }
+
+    // Redirects may land elsewhere; the final URL is the page's identity
+    const finalUrl = normalizeUrl(response.request?.res?.responseUrl || url) || url;
+    if (finalUrl !== url) {
+      if (!sameHost(new URL(finalUrl), origin)) {
+        report.skipped.push({ url, reason: 'redirected off site' });
+        continue;
+      }
+      if (seen.has(finalUrl)) {
+        report.skipped.push({ url, reason: 'duplicate' });
+        continue;
+      }
+      seen.add(finalUrl);
+
+      // The landing page answers to the same robots rules as a linked one
+      if (!isAllowed(robots, finalUrl)) {
+        report.skipped.push({ url: finalUrl, reason: 'robots.txt' });
+        continue;
+      }
+    }
+
+    const body = Buffer.from(response.data);
+    const format = detectFormat(undefined, response.headers['content-type']) || detectFormat(new URL(finalUrl).pathname);
+    // Linked URLs were checked when queued, but the start URL and redirect targets were not
+    const storable = !excluded(finalUrl) && included(finalUrl);
+
+    let page: CrawledPage | null = null;
+
+    try {
+      if (format === 'html') {
+        const html = body.toString('utf8');
+        const $ = cheerio.load(html);
+        const robotsMeta = ($('meta[name="robots"]').attr('content') || '').toLowerCase();
+
+        if (!robotsMeta.includes('nofollow') && depth < options.maxDepth) {
+          $('a[href]').each((_, link) => {
+            if (($(link).attr('rel') || '').includes('nofollow')) return;
+            const next = normalizeUrl($(link).attr('href')!, finalUrl);
+            if (next) enqueue(next, depth + 1);
+          });
+        }
+
+        if (robotsMeta.includes('noindex')) {
+          report.skipped.push({ url: finalUrl, reason: 'noindex' });
+        } else if (storable) {
+          const markdown = htmlToMarkdown(html);
+          const title = $('title').first().text().trim() || $('h1').first().text().trim() || finalUrl;
+          page = { url: finalUrl, title, markdown, format, hash: hashContent(markdown), depth };
+        }
+      } else if (format && storable) {
+        // Linked documents (PDF, DOCX, plain text, ...) are stored but have no links to follow
+        const parsed = await parseDocument(body, { format, fileName: finalUrl });
+        const title = decodeURIComponent(new URL(finalUrl).pathname.split('/').pop() || finalUrl);
+        page = { url: finalUrl, title, markdown: parsed.markdown, format, hash: hashContent(parsed.markdown), depth };
+      } else if (storable) {
+        report.skipped.push({ url: finalUrl, reason: 'unsupported content type' });
+      }
+    } catch (error) {
+      report.skipped.push({ url: finalUrl, reason: error instanceof Error ? error.message : 'unreadable' });
+      continue;
+    }
+
+    if (page && !page.markdown.trim()) {
+      report.skipped.push({ url: finalUrl, reason: 'empty' });
+    } else if (page) {
+      await onPage(page);
+      report.pages.push(page.url);
+    }
+  }
+
+  return report;
+}
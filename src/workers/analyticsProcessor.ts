@@ -1,16 +1,25 @@
 import { Job } from 'bull';
 import { analyticsQueue } from '../config/queue';
-import prisma from '../config/database';
 import logger from '../config/logger';
+import analyticsSnapshotService, { SnapshotGranularity } from '../services/analyticsSnapshotService';
 
 interface AnalyticsAggregationJob {
   organizationId: string;
-  type: 'daily' | 'weekly' | 'monthly';
+  type: 'daily' | 'weekly' | 'monthly' | 'backfill';
+  granularity?: SnapshotGranularity; // backfill only
+  periods?: number; // backfill only
 }
 
+// Scheduled runs recompute recent periods too, so tickets closed after their period ended are reflected
+const SCHEDULED_PERIODS: Record<Exclude<AnalyticsAggregationJob['type'], 'backfill'>, { granularity: SnapshotGranularity; periods: number }> = {
+  daily: { granularity: 'day', periods: 7 },
+  weekly: { granularity: 'week', periods: 2 },
+  monthly: { granularity: 'month', periods: 2 },
+};
+
 /**
- * Aggregate analytics data
- * This runs periodically to compute expensive analytics
+ * Aggregate analytics data into snapshots
+ * This runs periodically (and on demand for backfills) to compute expensive analytics
  */
 analyticsQueue.process(async (job: Job<AnalyticsAggregationJob>) => {
   const { organizationId, type } = job.data;
@@ -18,113 +27,20 @@ analyticsQueue.process(async (job: Job<AnalyticsAggregationJob>) => {
   logger.info(`Aggregating ${type} analytics for organization ${organizationId}`);
 
   try {
-    const now = new Date();
-    let startDate: Date;
-
-    // Determine time range
-    switch (type) {
-      case 'daily':
-        startDate = new Date(now);
-        startDate.setDate(startDate.getDate() - 1);
-        break;
-      case 'weekly':
-        startDate = new Date(now);
-        startDate.setDate(startDate.getDate() - 7);
-        break;
-      case 'monthly':
-        startDate = new Date(now);
-        startDate.setMonth(startDate.getMonth() - 1);
-        break;
-    }
-
-    // Aggregate ticket statistics
-    const [totalTickets, openTickets, closedTickets, inProgressTickets] = await Promise.all([
-      prisma.ticket.count({
-        where: {
-          organizationId,
-          createdAt: { gte: startDate },
-        },
-      }),
-      prisma.ticket.count({
-        where: {
-          organizationId,
-          status: 'open',
-          createdAt: { gte: startDate },
-        },
-      }),
-      prisma.ticket.count({
-        where: {
-          organizationId,
-          status: 'closed',
-          createdAt: { gte: startDate },
-        },
-      }),
-      prisma.ticket.count({
-        where: {
-          organizationId,
-          status: 'in_progress',
-          createdAt: { gte: startDate },
-        },
-      }),
-    ]);
-
-    // Calculate average resolution time
-    const closedTicketsWithTimes = await prisma.ticket.findMany({
-      where: {
-        organizationId,
-        status: 'closed',
-        createdAt: { gte: startDate },
-        closedAt: { not: null },
-      },
-      select: {
-        createdAt: true,
-        closedAt: true,
-      },
-    });
-
-    const avgResolutionTime =
-      closedTicketsWithTimes.length > 0
-        ? closedTicketsWithTimes.reduce((sum, ticket) => {
-            const resolutionTime =
-              (ticket.closedAt!.getTime() - ticket.createdAt.getTime()) / (1000 * 60 * 60); // hours
-            return sum + resolutionTime;
-          }, 0) / closedTicketsWithTimes.length
-        : 0;
-
-    // Get AI automation stats
-    const aiResolvedTickets = await prisma.ticket.count({
-      where: {
-        organizationId,
-        status: 'closed',
-        assignedTo: null, // Tickets closed without human assignment
-        createdAt: { gte: startDate },
-      },
-    });
-
-    const automationRate = totalTickets > 0 ? (aiResolvedTickets / totalTickets) * 100 : 0;
-
-    const analytics = {
-      organizationId,
-      period: type,
-      startDate,
-      endDate: now,
-      totalTickets,
-      openTickets,
-      closedTickets,
-      inProgressTickets,
-      avgResolutionTimeHours: avgResolutionTime,
-      aiResolvedTickets,
-      automationRate,
-    };
+    const { granularity, periods } =
+      type === 'backfill'
+        ? { granularity: job.data.granularity || 'day', periods: job.data.periods || 30 }
+        : SCHEDULED_PERIODS[type];
 
-    logger.info(`${type} analytics aggregated for organization ${organizationId}: ${totalTickets} tickets`);
+    const snapshots = await analyticsSnapshotService.backfill(organizationId, granularity, periods);
 
-    // TODO: Store aggregated data in a separate analytics table for faster queries
-    // await prisma.analyticsSnapshot.create({ data: analytics });
+    logger.info(`${type} analytics aggregated for organization ${organizationId}: ${snapshots} snapshots stored`);
 
     return {
       success: true,
-      analytics,
+      granularity,
+      periods,
+      snapshots,
     };
   } catch (error) {
     logger.error(`Error aggregating analytics for organization ${organizationId}:`, error);
@@ -144,7 +60,7 @@ analyticsQueue.on('failed', (job, error) => {
 
 // Completed job handler
 analyticsQueue.on('completed', (job, result) => {
-  logger.info(`Analytics job ${job.id} completed: ${result.analytics.totalTickets} tickets processed`);
+  logger.info(`Analytics job ${job.id} completed: ${result.snapshots} snapshots stored`);
 });
 
 logger.info('Analytics aggregation worker started');
@@ -0,0 +1,61 @@
+import { Job } from 'bull';
+import { classificationQueue } from '../config/queue';
+import ticketClassificationService, { ClassificationTrigger } from '../services/ticketClassificationService';
+import logger from '../config/logger';
+
+interface ClassificationJob {
+  ticketId: string;
+  trigger: ClassificationTrigger;
+}
+
+/**
+ * Classify sentiment, intent and urgency of a new ticket or a new customer message
+ */
+classificationQueue.process(async (job: Job<ClassificationJob>) => {
+  const { ticketId, trigger } = job.data;
+
+  try {
+    const classification = await ticketClassificationService.classifyTicket(ticketId, trigger);
+
+    if (!classification) {
+      return { success: true, ticketId, skipped: true };
+    }
+
+    return {
+      success: true,
+      ticketId,
+      method: classification.method,
+      sentiment: classification.sentiment,
+      urgency: classification.urgency,
+      intent: classification.intent,
+    };
+  } catch (error) {
+    logger.error(`Error classifying ticket ${ticketId}:`, error);
+    throw error;
+  }
+});
+
+// Error handler
+classificationQueue.on('error', (error) => {
+  logger.error('Classification queue error:', error);
+});
+
+// Failed job handler
+classificationQueue.on('failed', (job, error) => {
+  logger.error(`Classification job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+classificationQueue.on('completed', (job, result) => {
+  if (result.skipped) {
+    logger.info(`Classification job ${job.id} skipped (ticket ${result.ticketId} was deleted)`);
+  } else {
+    logger.info(
+      `Classification job ${job.id} completed (ticket ${result.ticketId}: ${result.sentiment}, ${result.urgency}, ${result.intent} via ${result.method})`
+    );
+  }
+});
+
+logger.info('Ticket classification worker started');
+
+export default classificationQueue;
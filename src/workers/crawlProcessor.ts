@@ -0,0 +1,60 @@
+import { Job } from 'bull';
+import { crawlQueue } from '../config/queue';
+import agentCrawlService from '../services/agentCrawlService';
+import logger from '../config/logger';
+
+interface CrawlJob {
+  crawlId: string;
+}
+
+/**
+ * Crawl a website into an agent's knowledge base, on demand or on the crawl's re-crawl interval
+ */
+crawlQueue.process(async (job: Job<CrawlJob>) => {
+  const { crawlId } = job.data;
+
+  try {
+    const result = await agentCrawlService.run(crawlId);
+
+    if (!result) {
+      // Already running, or deleted since the job was queued
+      return { success: true, crawlId, skipped: true };
+    }
+
+    return {
+      success: true,
+      crawlId,
+      pages: result.pages,
+      embeddedChunks: result.embeddedChunks,
+      removed: result.removed,
+    };
+  } catch (error) {
+    logger.error(`Error crawling for crawl ${crawlId}:`, error);
+    throw error;
+  }
+});
+
+// Error handler
+crawlQueue.on('error', (error) => {
+  logger.error('Crawl queue error:', error);
+});
+
+// Failed job handler
+crawlQueue.on('failed', (job, error) => {
+  logger.error(`Crawl job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+crawlQueue.on('completed', (job, result) => {
+  if (result.skipped) {
+    logger.info(`Crawl job ${job.id} skipped (crawl ${result.crawlId} is running or was deleted)`);
+  } else {
+    logger.info(
+      `Crawl job ${job.id} completed (crawl ${result.crawlId}: ${result.pages} pages, ${result.embeddedChunks} chunks embedded, ${result.removed} pages removed)`
+    );
+  }
+});
+
+logger.info('Website crawl worker started');
+
+export default crawlQueue;
@@ -1,6 +1,6 @@
 import { Job } from 'bull';
 import { emailQueue } from '../config/queue';
-import { sendInvitationEmail } from '../services/emailService';
+import { sendInvitationEmail, sendTicketAssignedEmail, sendUsageLimitEmail } from '../services/emailService';
 import logger from '../config/logger';
 
 interface InvitationEmailJob {
@@ -12,7 +12,7 @@ interface InvitationEmailJob {
 }
 
 interface GenericEmailJob {
-  type: 'invitation' | 'notification' | 'alert' | 'welcome';
+  type: 'invitation' | 'notification' | 'alert' | 'welcome' | 'usage_limit';
   data: any;
 }
 
@@ -33,7 +33,8 @@ emailQueue.process(async (job: Job<GenericEmailJob>) => {
         break;
 
       case 'notification':
-        // TODO: Implement notification emails (ticket updates, mentions, etc.)
+        // Ticket assignment notifications
+        await sendTicketAssignedEmail(data);
         logger.info(`Notification email sent to ${data.toEmail}`);
         break;
 
@@ -42,6 +43,12 @@ emailQueue.process(async (job: Job<GenericEmailJob>) => {
         logger.info(`Alert email sent to ${data.toEmail}`);
         break;
 
+      case 'usage_limit':
+        // Plan limit warnings (80%) and limit reached (100%)
+        await sendUsageLimitEmail(data);
+        logger.info(`Usage limit email sent to ${data.toEmail}`);
+        break;
+
       case 'welcome':
         // TODO: Implement welcome emails (new user onboarding)
         logger.info(`Welcome email sent to ${data.toEmail}`);
@@ -0,0 +1,60 @@
+import { Job } from 'bull';
+import { evaluationQueue } from '../config/queue';
+import agentEvaluationService from '../services/agentEvaluationService';
+import logger from '../config/logger';
+
+interface EvaluationJob {
+  runId: string;
+}
+
+/**
+ * Run an agent's evaluation suite and score the answers
+ */
+evaluationQueue.process(async (job: Job<EvaluationJob>) => {
+  const { runId } = job.data;
+
+  try {
+    const summary = await agentEvaluationService.run(runId);
+
+    if (!summary) {
+      // Already picked up, or deleted since the job was queued
+      return { success: true, runId, skipped: true };
+    }
+
+    return {
+      success: true,
+      runId,
+      cases: summary.cases,
+      passed: summary.passed,
+      errors: summary.errors,
+    };
+  } catch (error) {
+    logger.error(`Error running evaluation ${runId}:`, error);
+    throw error;
+  }
+});
+
+// Error handler
+evaluationQueue.on('error', (error) => {
+  logger.error('Evaluation queue error:', error);
+});
+
+// Failed job handler
+evaluationQueue.on('failed', (job, error) => {
+  logger.error(`Evaluation job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+evaluationQueue.on('completed', (job, result) => {
+  if (result.skipped) {
+    logger.info(`Evaluation job ${job.id} skipped (run ${result.runId} already started or was deleted)`);
+  } else {
+    logger.info(
+      `Evaluation job ${job.id} completed (run ${result.runId}: ${result.passed}/${result.cases} passed, ${result.errors} errors)`
+    );
+  }
+});
+
+logger.info('Agent evaluation worker started');
+
+export default evaluationQueue;
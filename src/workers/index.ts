@@ -13,6 +13,13 @@ import './ticketProcessor';
 import './emailProcessor';
 import './recurringIssueProcessor';
 import './analyticsProcessor';
+import './slaProcessor';
+import './ticketEmbeddingProcessor';
+import './retentionProcessor';
+import './crawlProcessor';
+import './evaluationProcessor';
+import './classificationProcessor';
+import './summaryProcessor';
 import './discordBot';
 
 logger.info('All background workers initialized successfully');
@@ -38,6 +45,13 @@ process.on('SIGTERM', async () => {
     queues.email.close(),
     queues.recurringIssue.close(),
     queues.analytics.close(),
+    queues.sla.close(),
+    queues.ticketEmbedding.close(),
+    queues.retention.close(),
+    queues.crawl.close(),
+    queues.evaluation.close(),
+    queues.classification.close(),
+    queues.summary.close(),
   ]);
 
   logger.info('All workers closed');
@@ -54,6 +68,13 @@ process.on('SIGINT', async () => {
     queues.email.close(),
     queues.recurringIssue.close(),
     queues.analytics.close(),
+    queues.sla.close(),
+    queues.ticketEmbedding.close(),
+    queues.retention.close(),
+    queues.crawl.close(),
+    queues.evaluation.close(),
+    queues.classification.close(),
+    queues.summary.close(),
   ]);
 
   logger.info('All workers closed');
@@ -0,0 +1,71 @@
+import { Job } from 'bull';
+import { retentionQueue } from '../config/queue';
+import retentionService from '../services/retentionService';
+import prisma from '../config/database';
+import logger from '../config/logger';
+
+interface RetentionJob {
+  organizationId?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Purge or anonymise data older than each organization's retention policy
+ * Organizations without a policy keep their data and are skipped.
+ */
+retentionQueue.process(async (job: Job<RetentionJob>) => {
+  const { organizationId, dryRun } = job.data;
+
+  try {
+    const organizationIds = organizationId
+      ? [organizationId]
+      : (await prisma.organization.findMany({ select: { id: true } })).map((org) => org.id);
+
+    let enforced = 0;
+    let failed = 0;
+
+    for (const orgId of organizationIds) {
+      try {
+        const report = await retentionService.enforce(orgId, { dryRun });
+        if (report) {
+          enforced++;
+        }
+      } catch (error) {
+        logger.error(`Error enforcing data retention for organization ${orgId}:`, error);
+        failed++;
+        // Continue with other organizations
+      }
+    }
+
+    return {
+      success: true,
+      organizationsChecked: organizationIds.length,
+      enforced,
+      failed,
+    };
+  } catch (error) {
+    logger.error('Error running data retention:', error);
+    throw error;
+  }
+});
+
+// Error handler
+retentionQueue.on('error', (error) => {
+  logger.error('Retention queue error:', error);
+});
+
+// Failed job handler
+retentionQueue.on('failed', (job, error) => {
+  logger.error(`Data retention job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+retentionQueue.on('completed', (job, result) => {
+  logger.info(
+    `Data retention job ${job.id} completed: ${result.organizationsChecked} organizations, ${result.enforced} enforced, ${result.failed} failed`
+  );
+});
+
+logger.info('Data retention worker started');
+
+export default retentionQueue;
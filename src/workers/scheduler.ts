@@ -1,5 +1,6 @@
-import { recurringIssueQueue, analyticsQueue } from '../config/queue';
+import { recurringIssueQueue, analyticsQueue, slaQueue, retentionQueue } from '../config/queue';
 import prisma from '../config/database';
+import agentCrawlService from '../services/agentCrawlService';
 import logger from '../config/logger';
 
 /**
@@ -67,7 +68,6 @@ export async function scheduleDailyAnalytics() {
     for (const org of organizations) {
       // Schedule daily analytics
       await analyticsQueue.add(
-        'daily-analytics',
         {
           organizationId: org.id,
           type: 'daily',
@@ -103,7 +103,6 @@ export async function scheduleWeeklyAnalytics() {
     for (const org of organizations) {
       // Schedule weekly analytics
       await analyticsQueue.add(
-        'weekly-analytics',
         {
           organizationId: org.id,
           type: 'weekly',
@@ -139,7 +138,6 @@ export async function scheduleMonthlyAnalytics() {
     for (const org of organizations) {
       // Schedule monthly analytics
       await analyticsQueue.add(
-        'monthly-analytics',
         {
           organizationId: org.id,
           type: 'monthly',
@@ -159,6 +157,70 @@ export async function scheduleMonthlyAnalytics() {
   }
 }
 
+/**
+ * Schedule SLA monitoring across all organizations
+ * Runs every 5 minutes so at-risk tickets surface before they breach
+ */
+export async function scheduleSlaMonitoring() {
+  try {
+    await slaQueue.add(
+      {},
+      {
+        repeat: {
+          cron: '*/5 * * * *', // Every 5 minutes
+        },
+        jobId: 'sla-monitoring',
+      }
+    );
+
+    logger.info('Scheduled SLA monitoring every 5 minutes');
+  } catch (error) {
+    logger.error('Error scheduling SLA monitoring:', error);
+  }
+}
+
+/**
+ * Schedule data retention enforcement across all organizations
+ * Runs every day at 5 AM, after the analytics jobs have read the day's data
+ */
+export async function scheduleDataRetention() {
+  try {
+    await retentionQueue.add(
+      {},
+      {
+        repeat: {
+          cron: '0 5 * * *', // Every day at 5 AM
+        },
+        jobId: 'data-retention',
+      }
+    );
+
+    logger.info('Scheduled daily data retention enforcement');
+  } catch (error) {
+    logger.error('Error scheduling data retention:', error);
+  }
+}
+
+/**
+ * Schedule re-crawls of agent knowledge base websites
+ * Each crawl with a re-crawl interval repeats on that interval
+ */
+export async function scheduleAgentCrawls() {
+  try {
+    const crawls = await prisma.agentCrawl.findMany({
+      where: { recrawlIntervalHours: { not: null } },
+    });
+
+    for (const crawl of crawls) {
+      await agentCrawlService.schedule(crawl);
+    }
+
+    logger.info(`Scheduled re-crawls for ${crawls.length} agent websites`);
+  } catch (error) {
+    logger.error('Error scheduling agent crawls:', error);
+  }
+}
+
 /**
  * Initialize all scheduled jobs
  * Call this when the application starts
@@ -171,6 +233,9 @@ export async function initializeScheduledJobs() {
     scheduleDailyAnalytics(),
     scheduleWeeklyAnalytics(),
     scheduleMonthlyAnalytics(),
+    scheduleSlaMonitoring(),
+    scheduleDataRetention(),
+    scheduleAgentCrawls(),
   ]);
 
   logger.info('All scheduled jobs initialized successfully');
@@ -0,0 +1,75 @@
+import { Job } from 'bull';
+import { slaQueue } from '../config/queue';
+import slaService from '../services/slaService';
+import prisma from '../config/database';
+import logger from '../config/logger';
+
+interface SlaMonitoringJob {
+  organizationId?: string;
+}
+
+/**
+ * Re-evaluate SLA deadlines for open tickets
+ * Flags tickets approaching or breaching their SLA targets
+ */
+slaQueue.process(async (job: Job<SlaMonitoringJob>) => {
+  const { organizationId } = job.data;
+
+  try {
+    // Without an explicit organization, check every org that has an active policy
+    const organizationIds = organizationId
+      ? [organizationId]
+      : (
+          await prisma.slaPolicy.findMany({
+            where: { isActive: true },
+            select: { organizationId: true },
+            distinct: ['organizationId'],
+          })
+        ).map((policy) => policy.organizationId);
+
+    let atRisk = 0;
+    let breached = 0;
+
+    for (const orgId of organizationIds) {
+      try {
+        const result = await slaService.checkOrganization(orgId);
+        atRisk += result.atRisk;
+        breached += result.breached;
+      } catch (error) {
+        logger.error(`Error checking SLA for organization ${orgId}:`, error);
+        // Continue with other organizations
+      }
+    }
+
+    return {
+      success: true,
+      organizationsChecked: organizationIds.length,
+      atRisk,
+      breached,
+    };
+  } catch (error) {
+    logger.error('Error running SLA monitoring:', error);
+    throw error;
+  }
+});
+
+// Error handler
+slaQueue.on('error', (error) => {
+  logger.error('SLA queue error:', error);
+});
+
+// Failed job handler
+slaQueue.on('failed', (job, error) => {
+  logger.error(`SLA monitoring job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+slaQueue.on('completed', (job, result) => {
+  logger.info(
+    `SLA monitoring job ${job.id} completed: ${result.organizationsChecked} organizations, ${result.atRisk} at risk, ${result.breached} breached`
+  );
+});
+
+logger.info('SLA monitoring worker started');
+
+export default slaQueue;
@@ -0,0 +1,55 @@
+import { Job } from 'bull';
+import { summaryQueue } from '../config/queue';
+import ticketSummaryService, { SummaryTrigger } from '../services/ticketSummaryService';
+import logger from '../config/logger';
+
+interface SummaryJob {
+  ticketId: string;
+  trigger: Exclude<SummaryTrigger, 'manual'>;
+  reason?: string;
+}
+
+/**
+ * Summarize a ticket's conversation for the person it is being handed to
+ */
+summaryQueue.process(async (job: Job<SummaryJob>) => {
+  const { ticketId, trigger, reason } = job.data;
+
+  try {
+    const result = await ticketSummaryService.summarize(ticketId, { trigger, reason });
+
+    if (!result) {
+      return { success: true, ticketId, skipped: true };
+    }
+
+    return { success: true, ticketId, messageId: result.message.id, created: result.created };
+  } catch (error) {
+    logger.error(`Error summarizing ticket ${ticketId}:`, error);
+    throw error;
+  }
+});
+
+// Error handler
+summaryQueue.on('error', (error) => {
+  logger.error('Summary queue error:', error);
+});
+
+// Failed job handler
+summaryQueue.on('failed', (job, error) => {
+  logger.error(`Summary job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+summaryQueue.on('completed', (job, result) => {
+  if (result.skipped) {
+    logger.info(`Summary job ${job.id} skipped (ticket ${result.ticketId})`);
+  } else if (!result.created) {
+    logger.info(`Summary job ${job.id} completed (ticket ${result.ticketId} already summarized)`);
+  } else {
+    logger.info(`Summary job ${job.id} completed (ticket ${result.ticketId}, message ${result.messageId})`);
+  }
+});
+
+logger.info('Ticket summary worker started');
+
+export default summaryQueue;
@@ -0,0 +1,47 @@
+import { Job } from 'bull';
+import { ticketEmbeddingQueue } from '../config/queue';
+import ticketEmbeddingService from '../services/ticketEmbeddingService';
+import logger from '../config/logger';
+
+interface TicketEmbeddingJob {
+  ticketId: string;
+}
+
+/**
+ * Embed a newly created ticket for similar-ticket lookup
+ */
+ticketEmbeddingQueue.process(async (job: Job<TicketEmbeddingJob>) => {
+  const { ticketId } = job.data;
+
+  try {
+    const embedded = await ticketEmbeddingService.embedTicket(ticketId);
+
+    return {
+      success: true,
+      ticketId,
+      embedded,
+    };
+  } catch (error) {
+    logger.error(`Error embedding ticket ${ticketId}:`, error);
+    throw error; // Will trigger retry
+  }
+});
+
+// Error handler
+ticketEmbeddingQueue.on('error', (error) => {
+  logger.error('Ticket embedding queue error:', error);
+});
+
+// Failed job handler
+ticketEmbeddingQueue.on('failed', (job, error) => {
+  logger.error(`Ticket embedding job ${job.id} failed:`, error);
+});
+
+// Completed job handler
+ticketEmbeddingQueue.on('completed', (job, result) => {
+  logger.info(`Ticket embedding job ${job.id} completed (ticket ${result.ticketId}, embedded: ${result.embedded})`);
+});
+
+logger.info('Ticket embedding worker started');
+
+export default ticketEmbeddingQueue;
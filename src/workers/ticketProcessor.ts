@@ -1,9 +1,15 @@
 import { Job } from 'bull';
+import { Prisma } from '@prisma/client';
 import { ticketProcessingQueue } from '../config/queue';
 import autonomousAIService from '../services/autonomousAIService';
 import prisma from '../config/database';
 import logger from '../config/logger';
 import { sendResponseToSource } from '../services/channelRelay';
+import { onAgentReply, onTicketHandoff, onTicketMessage } from '../services/ticketLifecycle';
+import routingService from '../services/routingService';
+import piiVault from '../services/piiVault';
+import aiDraftService from '../services/aiDraftService';
+import { broadcastTicketEvent } from '../services/broadcast';
 
 interface TicketProcessingJob {
   ticketId: string;
@@ -23,22 +29,89 @@ ticketProcessingQueue.process(async (job: Job<TicketProcessingJob>) => {
     // Process ticket with AI
     const result = await autonomousAIService.processTicket(ticketId, organizationId);
 
+    // Record which provider answered, including any fallback from the preferred one
+    const aiProviderInfo = {
+      aiProvider: result.provider,
+      aiModel: result.model,
+      ...(result.fallbackFrom?.length && { fallbackFrom: result.fallbackFrom }),
+    };
+
+    if (result.provider) {
+      const current = await prisma.ticket.findUnique({
+        where: { id: ticketId },
+        select: { metadata: true },
+      });
+
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: {
+          metadata: {
+            ...((current?.metadata as any) || {}),
+            lastAIProvider: { ...aiProviderInfo, at: new Date().toISOString() },
+          },
+        },
+      });
+    }
+
     // If AI can respond, create the response
     if (result.shouldRespond && result.response) {
+      // Put back the customer details the AI referred to by token (card numbers and BVNs stay masked)
+      const reply = await piiVault.rehydrate(ticketId, result.response);
+
+      const replyMetadata = {
+        ...aiProviderInfo,
+        ...(result.agentId && { aiAgentId: result.agentId }),
+        ...(result.agentVersionId && { aiAgentVersionId: result.agentVersionId }),
+        ...(result.citations && { citations: result.citations }),
+        ...(result.grounding && { grounding: result.grounding }),
+        ...(result.toolInvocations && { toolInvocations: result.toolInvocations }),
+        ...((reply.rehydrated > 0 || reply.withheld > 0) && {
+          piiRehydrated: reply.rehydrated,
+          piiWithheld: reply.withheld,
+        }),
+      };
+
+      // Review mode: hold the reply for an agent to approve, edit or reject
+      if (result.requiresApproval) {
+        const draft = await aiDraftService.createDraft(ticketId, organizationId, {
+          aiAgentId: result.agentId,
+          content: reply.text,
+          confidence: result.confidence,
+          sources: result.sources,
+          metadata: replyMetadata,
+        });
+
+        await broadcastTicketEvent(organizationId, 'ticket_updated', ticketId);
+
+        logger.info(`Ticket ${ticketId} AI reply held as draft ${draft.id} for approval (confidence: ${result.confidence})`);
+
+        return {
+          success: true,
+          result,
+          ticketId,
+          draftId: draft.id,
+        };
+      }
+
       // Save AI response to database
       await prisma.ticketMessage.create({
         data: {
           ticketId,
           senderType: 'system',
-          content: result.response,
+          content: reply.text,
           isInternal: false,
+          metadata: replyMetadata as unknown as Prisma.InputJsonValue,
         },
       });
 
+      await onTicketMessage(ticketId, { senderType: 'system' });
+
       // Send the response back to the customer via the original channel (Slack/Gmail/etc.)
-      const sent = await sendResponseToSource(ticketId, result.response, null);
+      const sent = await sendResponseToSource(ticketId, reply.text, null);
 
-      if (!sent) {
+      if (sent) {
+        await onAgentReply(ticketId);
+      } else {
         logger.warn(`Failed to send auto-response to source for ticket ${ticketId}, but response saved to DB`);
       }
 
@@ -52,19 +125,38 @@ ticketProcessingQueue.process(async (job: Job<TicketProcessingJob>) => {
       });
 
       logger.info(`Ticket ${ticketId} auto-resolved by AI with confidence ${result.confidence}, sent: ${sent}`);
-    } else if (result.shouldAssignToAgent && result.assignedAgentId) {
-      // Assign to team member
-      await prisma.ticket.update({
+    } else if (result.shouldAssignToAgent && result.routing?.assignedTo) {
+      const ticket = await prisma.ticket.findUnique({
         where: { id: ticketId },
-        data: {
-          assignedTo: result.assignedAgentId,
-          status: 'in_progress',
-        },
+        select: { assignedTo: true },
       });
 
-      logger.info(`Ticket ${ticketId} assigned to agent ${result.assignedAgentId} (confidence: ${result.confidence})`);
+      if (ticket?.assignedTo) {
+        // Already routed when the ticket was created, keep that assignee
+        await prisma.ticket.update({
+          where: { id: ticketId },
+          data: { status: 'in_progress' },
+        });
+
+        logger.info(`Ticket ${ticketId} already assigned to ${ticket.assignedTo}, AI escalation keeps assignee`);
+      } else {
+        // Assign to team member, record the routing decision and notify them
+        await routingService.applyDecision(ticketId, result.routing, { status: 'in_progress' });
+
+        logger.info(`Ticket ${ticketId} assigned to agent ${result.assignedAgentId} (confidence: ${result.confidence})`);
+      }
+    }
 
-      // TODO: Send notification to assigned agent
+    // The AI read the conversation and handed it over; leave a summary for whoever takes it
+    if (!result.shouldRespond && result.shouldAssignToAgent && result.provider) {
+      await onTicketHandoff(ticketId, {
+        trigger: 'ai_escalation',
+        reason:
+          result.escalationReason ||
+          (result.grounding?.refused
+            ? 'the drafted answer was not supported by the knowledge base'
+            : `confidence ${result.confidence} was below the auto-reply threshold`),
+      });
     }
 
     return {
@@ -0,0 +1,46 @@
+-- SLA policies with first-response and resolution targets per priority/source,
+-- business-hours calendars, and per-ticket SLA deadlines
+
+CREATE TABLE IF NOT EXISTS business_calendars (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+  schedule JSONB NOT NULL DEFAULT '{}',
+  holidays JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  priority VARCHAR(50),
+  source_type VARCHAR(50),
+  first_response_minutes INT NOT NULL,
+  resolution_minutes INT NOT NULL,
+  calendar_id UUID REFERENCES business_calendars(id) ON DELETE SET NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_calendars_org ON business_calendars(organization_id);
+CREATE INDEX IF NOT EXISTS idx_sla_policies_org ON sla_policies(organization_id);
+
+ALTER TABLE tickets
+ADD COLUMN IF NOT EXISTS sla_policy_id UUID REFERENCES sla_policies(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sla_status VARCHAR(20),
+ADD COLUMN IF NOT EXISTS sla_due_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS first_response_due_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS resolution_due_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS first_responded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_org_sla_status ON tickets(organization_id, sla_status);
+
+ALTER TABLE business_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_business_calendars_updated_at BEFORE UPDATE ON business_calendars FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sla_policies_updated_at BEFORE UPDATE ON sla_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Rule-based ticket auto-assignment: routing rules and member availability/skills
+
+CREATE TABLE IF NOT EXISTS routing_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  position INT NOT NULL DEFAULT 0,
+  strategy VARCHAR(50) NOT NULL DEFAULT 'round-robin',
+  conditions JSONB NOT NULL DEFAULT '{}',
+  member_ids TEXT[] NOT NULL DEFAULT '{}',
+  required_skills TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_rules_org ON routing_rules(organization_id);
+
+ALTER TABLE organization_members
+ADD COLUMN IF NOT EXISTS is_away BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS last_assigned_at TIMESTAMPTZ;
+
+ALTER TABLE routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_routing_rules_updated_at BEFORE UPDATE ON routing_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,22 @@
+-- Canned responses and macros (org-wide when user_id is null, personal otherwise)
+
+CREATE TABLE IF NOT EXISTS saved_replies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  shortcut VARCHAR(100),
+  content TEXT NOT NULL DEFAULT '',
+  actions JSONB NOT NULL DEFAULT '{}',
+  usage_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_replies_org ON saved_replies(organization_id);
+CREATE INDEX IF NOT EXISTS idx_saved_replies_user ON saved_replies(user_id);
+
+ALTER TABLE saved_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_saved_replies_updated_at BEFORE UPDATE ON saved_replies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
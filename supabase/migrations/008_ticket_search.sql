@@ -0,0 +1,18 @@
+-- Full-text search over tickets and their messages
+-- The 'simple' configuration keeps customer names, emails and non-English text searchable
+
+ALTER TABLE tickets
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', COALESCE(subject, '')), 'A') ||
+  setweight(to_tsvector('simple', COALESCE(customer_name, '') || ' ' || COALESCE(customer_email, '') || ' ' || translate(COALESCE(customer_email, ''), '@.', '  ')), 'B')
+) STORED;
+
+ALTER TABLE ticket_messages
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', COALESCE(content, ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_search_vector ON tickets USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_ticket_messages_search_vector ON ticket_messages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_ticket_tags_ticket ON ticket_tags(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_tickets_org_created ON tickets(organization_id, created_at DESC);
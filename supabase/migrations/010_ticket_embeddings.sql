@@ -0,0 +1,18 @@
+-- Ticket embeddings for semantic similar-ticket lookup (subject + first customer message)
+
+CREATE TABLE IF NOT EXISTS ticket_embeddings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticket_id UUID NOT NULL UNIQUE REFERENCES tickets(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  embedding vector(768) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_embeddings_org ON ticket_embeddings(organization_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_embeddings_vector ON ticket_embeddings USING ivfflat (embedding vector_cosine_ops);
+
+ALTER TABLE ticket_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ticket_embeddings_updated_at BEFORE UPDATE ON ticket_embeddings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
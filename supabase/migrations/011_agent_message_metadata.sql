@@ -0,0 +1,4 @@
+-- Add metadata column to agent_messages for per-message AI data
+-- (e.g., which provider answered and whether it was a fallback)
+ALTER TABLE agent_messages
+ADD COLUMN IF NOT EXISTS metadata jsonb DEFAULT '{}';
@@ -0,0 +1,37 @@
+-- AI token usage per call, rolled up into usage_tracking for monthly budgets
+
+CREATE TABLE IF NOT EXISTS ai_usage_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  period VARCHAR(7) NOT NULL,
+  feature VARCHAR(50) NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_records_org_period ON ai_usage_records(organization_id, period);
+
+ALTER TABLE ai_usage_records ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE usage_tracking
+ADD COLUMN IF NOT EXISTS ai_tokens_used INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ai_cost_used DECIMAL(12, 4) DEFAULT 0;
+
+-- Default monthly AI budgets for existing plans (-1 means unlimited)
+UPDATE subscription_plans
+SET features = jsonb_build_object('ai_monthly_token_budget', 1000000, 'ai_monthly_cost_budget', 10) || features
+WHERE name = 'Starter';
+
+UPDATE subscription_plans
+SET features = jsonb_build_object('ai_monthly_token_budget', 5000000, 'ai_monthly_cost_budget', 50) || features
+WHERE name = 'Professional';
+
+UPDATE subscription_plans
+SET features = jsonb_build_object('ai_monthly_token_budget', -1, 'ai_monthly_cost_budget', -1) || features
+WHERE name = 'Enterprise';
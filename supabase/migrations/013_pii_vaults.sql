@@ -0,0 +1,16 @@
+-- Encrypted PII token mappings per ticket, used to rehydrate AI replies
+
+CREATE TABLE IF NOT EXISTS pii_vaults (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticket_id UUID NOT NULL UNIQUE REFERENCES tickets(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  mapping TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pii_vaults_org ON pii_vaults(organization_id);
+
+ALTER TABLE pii_vaults ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_pii_vaults_updated_at BEFORE UPDATE ON pii_vaults FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,27 @@
+-- Pre-aggregated ticket metrics per organization, period, channel and agent
+
+CREATE TABLE IF NOT EXISTS analytics_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  granularity VARCHAR(10) NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  dimension VARCHAR(20) NOT NULL DEFAULT 'all',
+  dimension_value VARCHAR(255) NOT NULL DEFAULT '',
+  total_tickets INTEGER NOT NULL DEFAULT 0,
+  open_tickets INTEGER NOT NULL DEFAULT 0,
+  in_progress_tickets INTEGER NOT NULL DEFAULT 0,
+  closed_tickets INTEGER NOT NULL DEFAULT 0,
+  ai_resolved_tickets INTEGER NOT NULL DEFAULT 0,
+  avg_resolution_minutes DOUBLE PRECISION,
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, granularity, period_start, dimension, dimension_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_snapshots_lookup
+  ON analytics_snapshots(organization_id, granularity, dimension, period_start);
+
+-- Snapshot computation scans tickets by creation time
+CREATE INDEX IF NOT EXISTS idx_tickets_org_created ON tickets(organization_id, created_at);
+
+ALTER TABLE analytics_snapshots ENABLE ROW LEVEL SECURITY;
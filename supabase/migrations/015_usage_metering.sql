@@ -0,0 +1,3 @@
+-- Record which plan-limit warnings (80% / 100%) were sent per usage period
+ALTER TABLE usage_tracking
+ADD COLUMN IF NOT EXISTS limit_warnings JSONB DEFAULT '{}';
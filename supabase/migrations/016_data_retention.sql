@@ -0,0 +1,33 @@
+-- Data retention: legal holds on tickets and a report for every retention run
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS legal_hold_set_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_legal_hold ON tickets(organization_id) WHERE legal_hold;
+
+CREATE TABLE IF NOT EXISTS retention_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL,
+  retention_days INTEGER NOT NULL,
+  policy_source VARCHAR(20) NOT NULL,
+  cutoff TIMESTAMPTZ NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  counts JSONB NOT NULL DEFAULT '{}',
+  held_tickets INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_reports_org ON retention_reports(organization_id, started_at);
+
+-- Retention scans messages by age
+CREATE INDEX IF NOT EXISTS idx_ticket_messages_created ON ticket_messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_widget_messages_created ON widget_messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_agent_messages_created ON agent_messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_created ON form_submissions(created_at);
+
+ALTER TABLE retention_reports ENABLE ROW LEVEL SECURITY;
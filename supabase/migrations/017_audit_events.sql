@@ -0,0 +1,32 @@
+-- Append-only compliance audit log for AI processing and admin actions
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- No cascade: audit history must outlive the rows it describes
+  organization_id UUID NOT NULL REFERENCES organizations(id),
+  action VARCHAR(50) NOT NULL,
+  actor_type VARCHAR(20) NOT NULL,
+  actor_id UUID,
+  resource_type VARCHAR(50),
+  resource_id VARCHAR(255),
+  metadata JSONB NOT NULL DEFAULT '{}',
+  ip_address VARCHAR(64),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_org_created ON audit_events(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_org_action ON audit_events(organization_id, action, created_at);
+
+-- Events can be added but never changed or removed
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,27 @@
+-- AI replies held for human approval before they reach the customer
+
+CREATE TABLE IF NOT EXISTS ai_drafts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  ai_agent_id UUID REFERENCES ai_agents(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  sent_content TEXT,
+  confidence DOUBLE PRECISION NOT NULL,
+  sources JSONB NOT NULL DEFAULT '[]',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES users(id),
+  reviewed_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  message_id UUID REFERENCES ticket_messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_drafts_queue ON ai_drafts(organization_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_drafts_ticket ON ai_drafts(ticket_id);
+
+ALTER TABLE ai_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ai_drafts_updated_at BEFORE UPDATE ON ai_drafts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Keyword search over agent knowledge base chunks, combined with vector search at query time
+-- The 'simple' configuration keeps product names, error codes and account types intact
+
+ALTER TABLE agent_embeddings
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', COALESCE(content, ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_agent_embeddings_search_vector ON agent_embeddings USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_agent_embeddings_source ON agent_embeddings(source_id);
+
+-- Per-agent retrieval tunables: { "topK": 5, "minSimilarity": 0.3, "rerank": false }
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS retrieval_settings JSONB NOT NULL DEFAULT '{}';
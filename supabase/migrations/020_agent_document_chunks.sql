@@ -0,0 +1,7 @@
+-- Structure-aware chunks for agent knowledge sources
+-- Each chunk's content hash lets re-training skip chunks whose text has not changed
+
+ALTER TABLE agent_embeddings
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_agent_embeddings_source_hash ON agent_embeddings(source_id, content_hash);
@@ -0,0 +1,26 @@
+-- Website crawls that keep an agent's knowledge base in sync with a help center
+-- Every crawled page is stored as an agent source (source_type 'webpage')
+
+CREATE TABLE IF NOT EXISTS agent_crawls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  start_url TEXT NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}',
+  recrawl_interval_hours INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  last_run_at TIMESTAMPTZ,
+  last_result JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_crawls_agent ON agent_crawls(agent_id);
+
+-- Pages are looked up by agent and URL-derived source id on every crawl
+CREATE INDEX IF NOT EXISTS idx_agent_sources_agent_source ON agent_sources(agent_id, source_id);
+
+ALTER TABLE agent_crawls ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_agent_crawls_updated_at BEFORE UPDATE ON agent_crawls FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
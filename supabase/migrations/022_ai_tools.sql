@@ -0,0 +1,24 @@
+-- HTTP tools an organization lets its autonomous agent call (account lookups, order status, ...)
+-- Credentials are encrypted by the application before they are stored
+
+CREATE TABLE IF NOT EXISTS ai_tools (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(64) NOT NULL,
+  description TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  method VARCHAR(10) NOT NULL DEFAULT 'POST',
+  url TEXT NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}',
+  auth_type VARCHAR(20) NOT NULL DEFAULT 'none',
+  credentials TEXT,
+  timeout_ms INTEGER NOT NULL DEFAULT 10000,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, name)
+);
+
+ALTER TABLE ai_tools ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ai_tools_updated_at BEFORE UPDATE ON ai_tools FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,68 @@
+-- Golden question/answer suites for AI agents and the history of their scored runs
+-- Runs snapshot the prompt and retrieval settings they used so versions can be compared
+
+CREATE TABLE IF NOT EXISTS agent_eval_suites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_eval_cases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  suite_id UUID NOT NULL REFERENCES agent_eval_suites(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_answer TEXT NOT NULL,
+  expected_facts JSONB NOT NULL DEFAULT '[]',
+  must_cite_source_ids JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_eval_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  suite_id UUID NOT NULL REFERENCES agent_eval_suites(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  config JSONB NOT NULL DEFAULT '{}',
+  summary JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_eval_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES agent_eval_runs(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES agent_eval_cases(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]',
+  grounding JSONB NOT NULL DEFAULT '{}',
+  fact_score DOUBLE PRECISION,
+  judge_score DOUBLE PRECISION,
+  judge_reason TEXT,
+  citation_hit BOOLEAN,
+  passed BOOLEAN NOT NULL DEFAULT false,
+  details JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_eval_suites_agent ON agent_eval_suites(agent_id);
+CREATE INDEX IF NOT EXISTS idx_agent_eval_cases_suite ON agent_eval_cases(suite_id);
+CREATE INDEX IF NOT EXISTS idx_agent_eval_runs_suite ON agent_eval_runs(suite_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_eval_results_run ON agent_eval_results(run_id);
+
+ALTER TABLE agent_eval_suites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_agent_eval_suites_updated_at BEFORE UPDATE ON agent_eval_suites FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_agent_eval_cases_updated_at BEFORE UPDATE ON agent_eval_cases FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,58 @@
+-- Immutable versions of an AI agent's configuration (prompt, model, temperature, retrieval settings)
+-- Every change creates a version; the published one is copied onto ai_agents and used for answers
+
+CREATE TABLE IF NOT EXISTS ai_agent_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  temperature DOUBLE PRECISION NOT NULL,
+  retrieval_settings JSONB NOT NULL DEFAULT '{}',
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(agent_id, version)
+);
+
+ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES ai_agent_versions(id) ON DELETE SET NULL;
+
+-- Which configuration produced each assistant message
+ALTER TABLE agent_messages ADD COLUMN IF NOT EXISTS agent_version_id UUID REFERENCES ai_agent_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_agent_messages_agent_version ON agent_messages(agent_version_id);
+
+-- A version's configuration never changes; only its publish time is updated
+CREATE OR REPLACE FUNCTION prevent_ai_agent_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.system_prompt IS DISTINCT FROM OLD.system_prompt
+    OR NEW.model IS DISTINCT FROM OLD.model
+    OR NEW.temperature IS DISTINCT FROM OLD.temperature
+    OR NEW.retrieval_settings IS DISTINCT FROM OLD.retrieval_settings
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.agent_id IS DISTINCT FROM OLD.agent_id THEN
+    RAISE EXCEPTION 'ai_agent_versions are immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ai_agent_versions_immutable ON ai_agent_versions;
+CREATE TRIGGER ai_agent_versions_immutable BEFORE UPDATE ON ai_agent_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_ai_agent_version_changes();
+
+-- Existing agents start at version 1 with their current configuration
+INSERT INTO ai_agent_versions (agent_id, organization_id, version, system_prompt, model, temperature, retrieval_settings, note, published_at)
+SELECT id, organization_id, 1, system_prompt, model, temperature, retrieval_settings, 'Initial version', NOW()
+FROM ai_agents
+WHERE NOT EXISTS (SELECT 1 FROM ai_agent_versions v WHERE v.agent_id = ai_agents.id);
+
+UPDATE ai_agents a
+SET published_version_id = v.id
+FROM ai_agent_versions v
+WHERE v.agent_id = a.id AND v.version = 1 AND a.published_version_id IS NULL;
+
+ALTER TABLE ai_agent_versions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,6 @@
+-- Urgency from inbound sentiment/intent/urgency classification, so escalations can be sorted to the top
+-- The full classification is kept in tickets.metadata.classification
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS urgency_score DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_org_urgency ON tickets(organization_id, urgency_score DESC NULLS LAST);
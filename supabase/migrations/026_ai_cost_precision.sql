@@ -0,0 +1,18 @@
+-- Per-call AI costs are often below $0.0001 (embeddings, classification, re-ranking) and rounded
+-- to nothing at four decimals; keep the rollup at the precision of ai_usage_records.estimated_cost
+
+ALTER TABLE usage_tracking
+ALTER COLUMN ai_cost_used TYPE DECIMAL(12, 6);
+
+-- Rebuild the rollups from the per-call records so the current budgets count what was lost
+UPDATE usage_tracking ut
+SET ai_cost_used = totals.cost
+FROM (
+  SELECT o.subscription_id, r.period, SUM(r.estimated_cost) AS cost
+  FROM ai_usage_records r
+  JOIN organizations o ON o.id = r.organization_id
+  WHERE o.subscription_id IS NOT NULL
+  GROUP BY o.subscription_id, r.period
+) totals
+WHERE ut.subscription_id = totals.subscription_id
+  AND ut.period = totals.period;